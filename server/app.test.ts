@@ -0,0 +1,157 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { request } from 'http';
+import { startAppServer, RunningServer } from './app';
+import { silentLogger, startStubUpstream } from './test/utils';
+
+describe('standalone app server', () => {
+  let distDir: string;
+  let app: RunningServer;
+
+  beforeAll(async () => {
+    distDir = await mkdtemp(path.join(tmpdir(), 'viavi-dist-'));
+    await mkdir(path.join(distDir, 'assets'));
+    await mkdir(path.join(distDir, 'config'));
+    await writeFile(path.join(distDir, 'index.html'), '<!doctype html><div id="root"></div>');
+    await writeFile(path.join(distDir, 'assets', 'index-abc123.js'), 'console.log("app")');
+    await writeFile(path.join(distDir, 'config', 'approved-ouis.json'), '{"approved_ouis":[]}');
+  });
+
+  afterAll(async () => {
+    await rm(distDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await app?.shutdown();
+  });
+
+  const start = (ldapApiUrl = 'http://127.0.0.1:1') =>
+    startAppServer({ distDir, ldapApiUrl, host: '127.0.0.1', logger: silentLogger });
+
+  describe('static files', () => {
+    it('serves index.html without long-lived caching', async () => {
+      app = await start();
+      const response = await fetch(`${app.url}/`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+      expect(response.headers.get('Cache-Control')).toBe('no-cache');
+      expect(await response.text()).toContain('id="root"');
+    });
+
+    it('serves hashed assets as immutable', async () => {
+      app = await start();
+      const response = await fetch(`${app.url}/assets/index-abc123.js`);
+
+      expect(response.headers.get('Content-Type')).toBe('text/javascript; charset=utf-8');
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+    });
+
+    it('serves config files with revalidation', async () => {
+      app = await start();
+      const response = await fetch(`${app.url}/config/approved-ouis.json`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Cache-Control')).toBe('no-cache');
+    });
+
+    it('falls back to index.html for client-side routes', async () => {
+      app = await start();
+      const response = await fetch(`${app.url}/bulk`);
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toContain('id="root"');
+    });
+
+    it('returns 404 for missing files instead of the SPA shell', async () => {
+      app = await start();
+      const response = await fetch(`${app.url}/assets/missing.js`);
+      expect(response.status).toBe(404);
+    });
+
+    it('does not serve files outside the dist directory', async () => {
+      app = await start();
+      const status = await new Promise<number | undefined>((resolve) => {
+        const { port } = new URL(app.url);
+        request({ host: '127.0.0.1', port, path: '/..%2f..%2fetc%2fpasswd' }, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        }).end();
+      });
+      expect(status).toBe(403);
+    });
+  });
+
+  describe('API routes', () => {
+    it('proxies /api/ldap to the configured backend', async () => {
+      const upstream = await startStubUpstream((_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('[]');
+      });
+      app = await start(upstream.url);
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF`);
+
+      expect(response.status).toBe(200);
+      expect(upstream.requests[0].url).toBe('/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF');
+      await upstream.close();
+    });
+
+    it('accepts /api/log entries', async () => {
+      app = await start();
+      const response = await fetch(`${app.url}/api/log`, {
+        method: 'POST',
+        body: JSON.stringify({ level: 'info', message: 'hello' }),
+      });
+      expect(await response.json()).toEqual({ success: true });
+    });
+  });
+
+  describe('graceful shutdown', () => {
+    it('lets in-flight requests finish and refuses new connections', async () => {
+      const upstream = await startStubUpstream((_req, res) => {
+        setTimeout(() => {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end('"slow"');
+        }, 150);
+      });
+      app = await start(upstream.url);
+
+      const inFlight = fetch(`${app.url}/api/ldap/searchbymac/00%3A11%3A22%3A33%3A44%3A55`);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const stopped = app.shutdown();
+
+      const response = await inFlight;
+      expect(await response.json()).toBe('slow');
+      await stopped;
+
+      await expect(fetch(`${app.url}/`)).rejects.toThrow();
+      await upstream.close();
+    });
+
+    it('forces remaining connections closed after the timeout', async () => {
+      const upstream = await startStubUpstream(() => {
+        // Never respond
+      });
+      app = await startAppServer({
+        distDir,
+        ldapApiUrl: upstream.url,
+        host: '127.0.0.1',
+        shutdownTimeout: 50,
+        logger: silentLogger,
+      });
+
+      const hanging = fetch(`${app.url}/api/ldap/searchbymac/00%3A11%3A22%3A33%3A44%3A55`).catch((error) => error);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const startedAt = Date.now();
+      await app.shutdown();
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(await hanging).toBeInstanceOf(Error);
+      await upstream.close();
+    });
+  });
+});
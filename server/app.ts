@@ -0,0 +1,124 @@
+/**
+ * Standalone production HTTP server: serves dist/ and hosts the API routes
+ * without depending on `vite preview`.
+ */
+
+import http, { Server } from 'http';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { createApiMiddleware, ApiServerOptions } from './index';
+import { AuthOptions, createAuth } from './auth';
+import { createStaticFiles } from './staticFiles';
+import type { Middleware, ServerLogger } from './http';
+
+export interface AppServerOptions extends ApiServerOptions {
+  /** Directory containing the Vite build output */
+  distDir: string;
+  /** Milliseconds to wait for in-flight requests before forcing shutdown */
+  shutdownTimeout?: number;
+  /** Require technician sign-in for the SPA and API routes */
+  auth?: AuthOptions;
+}
+
+export interface RunningServer {
+  server: Server;
+  url: string;
+  /** Stop accepting connections and drain in-flight requests */
+  shutdown: () => Promise<void>;
+}
+
+/**
+ * Chain middlewares; anything none of them handle gets a 404
+ */
+function compose(middlewares: Middleware[], logger: ServerLogger): http.RequestListener {
+  return (req, res) => {
+    let index = 0;
+    const next = (error?: unknown) => {
+      if (error) {
+        logger.error(`[${new Date().toISOString()}] [SERVER] ${req.method} ${req.url} failed:`, error);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+        }
+        res.end(JSON.stringify({ error: 'Internal server error' }));
+        return;
+      }
+      const middleware = middlewares[index++];
+      if (!middleware) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found');
+        return;
+      }
+      middleware(req, res, next);
+    };
+    next();
+  };
+}
+
+export function createAppServer(options: AppServerOptions): Server {
+  const logger = options.logger ?? console;
+  const middlewares: Middleware[] = [
+    createApiMiddleware({ configDir: path.join(options.distDir, 'config'), ...options }),
+    createStaticFiles({ root: options.distDir }),
+  ];
+  if (options.auth) {
+    middlewares.unshift(createAuth({ logger, fetch: options.fetch, metricsToken: options.metricsToken, ...options.auth }));
+  }
+  return http.createServer(compose(middlewares, logger));
+}
+
+/**
+ * Stop accepting new connections, let in-flight requests finish, and close
+ * keep-alive sockets. Connections still open after `timeout` are destroyed.
+ */
+export function createGracefulShutdown(server: Server, timeout: number, logger: ServerLogger) {
+  let shuttingDown: Promise<void> | null = null;
+
+  // Ask keep-alive clients to reconnect elsewhere once draining has started
+  server.prependListener('request', (_req, res) => {
+    if (shuttingDown && !res.headersSent) {
+      res.setHeader('Connection', 'close');
+    }
+  });
+
+  return function shutdown(): Promise<void> {
+    if (shuttingDown) return shuttingDown;
+
+    shuttingDown = new Promise<void>((resolve) => {
+      logger.log(`[${new Date().toISOString()}] [SERVER] Draining connections`);
+      const forceTimer = setTimeout(() => {
+        logger.error(`[${new Date().toISOString()}] [SERVER] Shutdown timeout, closing remaining connections`);
+        server.closeAllConnections();
+      }, timeout);
+      forceTimer.unref();
+
+      server.close(() => {
+        clearTimeout(forceTimer);
+        logger.log(`[${new Date().toISOString()}] [SERVER] Shutdown complete`);
+        resolve();
+      });
+      server.closeIdleConnections();
+    });
+
+    return shuttingDown;
+  };
+}
+
+/**
+ * Create and start the server. Port 0 picks a free port, which tests use.
+ */
+export function startAppServer(
+  options: AppServerOptions & { port?: number; host?: string }
+): Promise<RunningServer> {
+  const logger = options.logger ?? console;
+  const server = createAppServer(options);
+  const shutdown = createGracefulShutdown(server, options.shutdownTimeout ?? 10000, logger);
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '0.0.0.0', () => {
+      const { port } = server.address() as AddressInfo;
+      const host = options.host && options.host !== '0.0.0.0' ? options.host : 'localhost';
+      resolve({ server, url: `http://${host}:${port}`, shutdown });
+    });
+  });
+}
@@ -0,0 +1,274 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AuditLog, AuditRecord } from './auditLog';
+import { createApiMiddleware } from './index';
+import { silentLogger, startMiddleware, startStubUpstream, TestServer } from './test/utils';
+
+type StubUpstream = Awaited<ReturnType<typeof startStubUpstream>>;
+
+const MAC = 'AA:BB:CC:DD:EE:FF';
+const provisionBody = { mac: MAC, account: 'ACC-1', isp: 'ISP', configfile: 'viavi.cfg' };
+
+const record = (overrides: Partial<AuditRecord> = {}): AuditRecord => ({
+  timestamp: '2026-03-01T12:00:00.000Z',
+  ...provisionBody,
+  upstreamStatus: 200,
+  outcome: 'success',
+  durationMs: 12,
+  ...overrides,
+});
+
+describe('AuditLog', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'viavi-audit-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends JSON lines and queries them newest first', async () => {
+    const auditLog = new AuditLog({ dir, logger: silentLogger });
+    await auditLog.append(record({ timestamp: '2026-03-01T00:00:00.000Z' }));
+    await auditLog.append(record({ timestamp: '2026-03-02T00:00:00.000Z', mac: '00:11:22:33:44:55' }));
+
+    const lines = (await readFile(path.join(dir, 'audit.jsonl'), 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]).mac).toBe(MAC);
+
+    const { records } = await auditLog.query();
+    expect(records.map((r) => r.timestamp)).toEqual([
+      '2026-03-02T00:00:00.000Z',
+      '2026-03-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('filters by MAC and inclusive date range', async () => {
+    const auditLog = new AuditLog({ dir, logger: silentLogger });
+    for (const day of ['01', '02', '03', '04']) {
+      await auditLog.append(record({ timestamp: `2026-03-${day}T08:00:00.000Z` }));
+    }
+    await auditLog.append(record({ timestamp: '2026-03-02T09:00:00.000Z', mac: '00:11:22:33:44:55' }));
+
+    const { records } = await auditLog.query({
+      mac: MAC,
+      from: new Date('2026-03-02T08:00:00.000Z'),
+      to: new Date('2026-03-03T08:00:00.000Z'),
+    });
+
+    expect(records.map((r) => r.timestamp)).toEqual([
+      '2026-03-03T08:00:00.000Z',
+      '2026-03-02T08:00:00.000Z',
+    ]);
+  });
+
+  it('rotates by size, keeps maxFiles generations and still queries across them', async () => {
+    const auditLog = new AuditLog({ dir, maxFileBytes: 300, maxFiles: 2, logger: silentLogger });
+    for (let i = 0; i < 8; i++) {
+      await auditLog.append(record({ timestamp: new Date(Date.UTC(2026, 2, 1, i)).toISOString() }));
+    }
+
+    const files = await readdir(dir);
+    expect(files).toContain('audit.jsonl');
+    expect(files.filter((name) => name.startsWith('audit-'))).toHaveLength(2);
+
+    const { records } = await auditLog.query();
+    expect(records[0].timestamp).toBe('2026-03-01T07:00:00.000Z');
+    expect(records.length).toBeLessThan(8);
+  });
+
+  it('serializes concurrent appends', async () => {
+    const auditLog = new AuditLog({ dir, maxFileBytes: 500, logger: silentLogger });
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        auditLog.append(record({ timestamp: new Date(Date.UTC(2026, 2, 1, 0, i)).toISOString() }))
+      )
+    );
+
+    expect((await auditLog.query()).total).toBe(20);
+  });
+
+  it('filters by technician, configfile and outcome, and pages with offset', async () => {
+    const auditLog = new AuditLog({ dir, logger: silentLogger });
+    const pat = { sub: 'tech-1', name: 'Pat Field' };
+    const sam = { sub: 'tech-2', name: 'Sam Rivers' };
+    for (let i = 0; i < 5; i++) {
+      await auditLog.append(
+        record({ timestamp: new Date(Date.UTC(2026, 2, 1, i)).toISOString(), user: pat })
+      );
+    }
+    await auditLog.append(record({ user: sam, configfile: 'other.cfg', outcome: 'failure' }));
+
+    expect((await auditLog.query({ technician: 'pat' })).total).toBe(5);
+    expect((await auditLog.query({ technician: 'tech-2' })).total).toBe(1);
+    expect((await auditLog.query({ configfile: 'other.cfg' })).records[0].user).toEqual(sam);
+    expect((await auditLog.query({ outcome: 'failure' })).total).toBe(1);
+
+    const page = await auditLog.query({ technician: 'Pat', offset: 2, limit: 2 });
+    expect(page.total).toBe(5);
+    expect(page.records.map((r) => r.timestamp)).toEqual([
+      '2026-03-01T02:00:00.000Z',
+      '2026-03-01T01:00:00.000Z',
+    ]);
+  });
+
+  it('remembers the latest search result as the previous record', () => {
+    const auditLog = new AuditLog({ dir, searchMemoryTtl: 1000, logger: silentLogger });
+
+    expect(auditLog.previousRecordFor(MAC)).toBeUndefined();
+    auditLog.noteSearch(MAC, []);
+    expect(auditLog.previousRecordFor(MAC)).toBeNull();
+    auditLog.noteSearch(MAC, [{ mac: MAC, account: 'OLD' }]);
+    expect(auditLog.previousRecordFor(MAC)).toEqual({ mac: MAC, account: 'OLD' });
+  });
+});
+
+describe('audit trail through the API middleware', () => {
+  let dir: string;
+  let upstream: StubUpstream;
+  let app: TestServer;
+  let auditLog: AuditLog;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'viavi-audit-'));
+    auditLog = new AuditLog({ dir, logger: silentLogger });
+    upstream = await startStubUpstream((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(req.url?.startsWith('/searchbymac') ? JSON.stringify([{ ...provisionBody, account: 'OLD' }]) : 'true');
+    });
+    app = await startMiddleware(createApiMiddleware({ ldapApiUrl: upstream.url, auditLog, logger: silentLogger }));
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await upstream.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const provision = () =>
+    fetch(`${app.url}/api/ldap/addhsd`, {
+      method: 'POST',
+      headers: { 'X-Forwarded-For': '10.1.2.3, 172.16.0.1', 'X-Request-ID': 'req-audit-1' },
+      body: JSON.stringify(provisionBody),
+    });
+
+  it('records addhsd calls with the preceding search result', async () => {
+    await fetch(`${app.url}/api/ldap/searchbymac/${encodeURIComponent(MAC)}`);
+    await provision();
+
+    const {
+      records: [entry],
+    } = await auditLog.query();
+    expect(entry).toMatchObject({
+      ...provisionBody,
+      clientIp: '10.1.2.3',
+      requestId: 'req-audit-1',
+      upstreamStatus: 200,
+      outcome: 'success',
+      previousRecord: { account: 'OLD' },
+    });
+    expect(entry.classifiedError).toBeUndefined();
+    expect(entry.user).toBeUndefined();
+    expect(entry.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('normalizes aliased search results and wrapped provision results', async () => {
+    await app.close();
+    await upstream.close();
+    upstream = await startStubUpstream((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify(
+          req.url?.startsWith('/searchbymac')
+            ? { macaddress: MAC, account_number: 'OLD', serialnumber: 'VIAVI1' }
+            : { success: true }
+        )
+      );
+    });
+    app = await startMiddleware(createApiMiddleware({ ldapApiUrl: upstream.url, auditLog, logger: silentLogger }));
+
+    await fetch(`${app.url}/api/ldap/searchbymac/${encodeURIComponent(MAC)}`);
+    await provision();
+
+    const {
+      records: [entry],
+    } = await auditLog.query();
+    expect(entry.outcome).toBe('success');
+    expect(entry.previousRecord).toEqual({
+      mac: MAC,
+      account: 'OLD',
+      configfile: '',
+      isp: '',
+      customFields: { serialnumber: 'VIAVI1' },
+    });
+  });
+
+  it('takes the previous record of a later provision from the earlier one', async () => {
+    await fetch(`${app.url}/api/ldap/searchbymac/${encodeURIComponent(MAC)}`);
+    await provision();
+    await provision();
+    await fetch(`${app.url}/api/ldap/deletehsd/${encodeURIComponent(MAC)}`, { method: 'DELETE' });
+    await provision();
+
+    const { records } = await auditLog.query();
+    expect(records.map((record) => record.previousRecord)).toEqual([
+      null,
+      expect.objectContaining(provisionBody),
+      expect.objectContaining({ account: 'OLD' }),
+    ]);
+  });
+
+  it('records provisions that never reached the LDAP API', async () => {
+    await upstream.close();
+    await provision();
+
+    const {
+      records: [entry],
+    } = await auditLog.query();
+    expect(entry.upstreamStatus).toBeNull();
+    expect(entry.outcome).toBe('failure');
+    expect(entry.error).toBeTruthy();
+    expect(entry.classifiedError).toMatchObject({ category: 'server', technicalDetail: 'Proxy error' });
+    expect(entry.previousRecord).toBeUndefined();
+  });
+
+  it('does not record searches, deprovisions or rejected requests', async () => {
+    await fetch(`${app.url}/api/ldap/searchbymac/${encodeURIComponent(MAC)}`);
+    await fetch(`${app.url}/api/ldap/deletehsd/${encodeURIComponent(MAC)}`, { method: 'DELETE' });
+    await fetch(`${app.url}/api/ldap/addhsd`, { method: 'POST', body: '{}' });
+
+    expect((await auditLog.query()).total).toBe(0);
+  });
+
+  it('serves /api/audit filtered by MAC and date', async () => {
+    await provision();
+    await auditLog.append(record({ mac: '00:11:22:33:44:55' }));
+
+    const today = new Date().toISOString().slice(0, 10);
+    const response = await fetch(`${app.url}/api/audit?mac=aabb.ccdd.eeff&from=${today}&to=${today}`);
+    const { records, total } = (await response.json()) as { records: AuditRecord[]; total: number };
+
+    expect(response.status).toBe(200);
+    expect(total).toBe(1);
+    expect(records).toHaveLength(1);
+    expect(records[0].mac).toBe(MAC);
+  });
+
+  it.each([
+    ['mac=123', /Invalid MAC/],
+    ['from=yesterday', /Invalid from date/],
+    ['limit=0', /limit/],
+    ['offset=-1', /offset/],
+    ['outcome=maybe', /outcome/],
+  ])('rejects /api/audit?%s with 400', async (query, message) => {
+    const response = await fetch(`${app.url}/api/audit?${query}`);
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as { error: string }).error).toMatch(message);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Durable audit trail of provisioning calls. Records are appended as JSON
+ * lines to `audit.jsonl` in the configured directory (a persistent volume in
+ * OpenShift); the file is rotated by size and old generations are pruned.
+ */
+
+import { appendFile, mkdir, readdir, readFile, rename, stat, unlink } from 'fs/promises';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { sendJson, ServerLogger } from './http';
+import { normalizeMac, validateMacFormat } from '../src/utils/macUtils';
+import type { ClassifiedError } from '../src/utils/errorUtils';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditRecord {
+  timestamp: string;
+  /** Signed-in technician, absent when sign-in is disabled */
+  user?: { sub: string; name: string };
+  sessionId?: string;
+  clientIp?: string;
+  /** Correlation ID shared with the browser's and the proxy's log lines */
+  requestId?: string;
+  mac: string;
+  account: string;
+  isp: string;
+  configfile: string;
+  /**
+   * First record returned by the most recent search for this MAC through
+   * the proxy: null if that search found nothing, absent if there was none
+   */
+  previousRecord?: unknown;
+  /** Upstream HTTP status, or null if the LDAP API could not be reached */
+  upstreamStatus: number | null;
+  /** Success means the LDAP API answered 2xx with `true`, as the client judges it */
+  outcome: AuditOutcome;
+  durationMs: number;
+  error?: string;
+  /** How the client would have classified the failure */
+  classifiedError?: ClassifiedError;
+}
+
+export interface AuditQuery {
+  mac?: string;
+  /** Case-insensitive match on part of the technician's name, or their exact `sub` */
+  technician?: string;
+  configfile?: string;
+  outcome?: AuditOutcome;
+  /** Inclusive lower bound on `timestamp` */
+  from?: Date;
+  /** Inclusive upper bound on `timestamp` */
+  to?: Date;
+  /** Matching records to skip, for paging */
+  offset?: number;
+  limit?: number;
+}
+
+export interface AuditPage {
+  records: AuditRecord[];
+  /** Matching records before `offset` and `limit` were applied */
+  total: number;
+}
+
+export interface AuditLogOptions {
+  dir: string;
+  /** Rotate `audit.jsonl` once it would grow past this size */
+  maxFileBytes?: number;
+  /** Rotated files to keep in addition to the current one */
+  maxFiles?: number;
+  /** How long a search result is remembered as the "previous record" */
+  searchMemoryTtl?: number;
+  logger?: ServerLogger;
+}
+
+const CURRENT_FILE = 'audit.jsonl';
+const ROTATED_FILE = /^audit-(\d+)\.jsonl$/;
+const SEARCH_MEMORY_LIMIT = 1000;
+
+export class AuditLog {
+  private readonly dir: string;
+  private readonly maxFileBytes: number;
+  private readonly maxFiles: number;
+  private readonly searchMemoryTtl: number;
+  private readonly logger: ServerLogger;
+  /** Appends are chained so records are never interleaved or lost mid-rotation */
+  private writes: Promise<void> = Promise.resolve();
+  private readonly searches = new Map<string, { record: unknown; at: number }>();
+
+  constructor(options: AuditLogOptions) {
+    this.dir = options.dir;
+    this.maxFileBytes = options.maxFileBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 10;
+    this.searchMemoryTtl = options.searchMemoryTtl ?? 60 * 60 * 1000;
+    this.logger = options.logger ?? console;
+  }
+
+  /**
+   * Remember the outcome of a search, or the record a provision or
+   * deprovision left, so a following provision of the same MAC can record
+   * what was there before
+   */
+  noteSearch(mac: string, results: unknown) {
+    this.searches.delete(mac);
+    this.searches.set(mac, {
+      record: Array.isArray(results) ? results[0] ?? null : results ?? null,
+      at: Date.now(),
+    });
+    // Map iteration order is insertion order, so the first key is the oldest
+    if (this.searches.size > SEARCH_MEMORY_LIMIT) {
+      this.searches.delete(this.searches.keys().next().value as string);
+    }
+  }
+
+  /**
+   * The remembered search result for `mac`, or undefined if it was not
+   * searched recently
+   */
+  previousRecordFor(mac: string): unknown {
+    const entry = this.searches.get(mac);
+    if (!entry || Date.now() - entry.at > this.searchMemoryTtl) return undefined;
+    return entry.record;
+  }
+
+  append(record: AuditRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    const write = this.writes.then(async () => {
+      await mkdir(this.dir, { recursive: true });
+      await this.rotateIfNeeded(Buffer.byteLength(line));
+      await appendFile(path.join(this.dir, CURRENT_FILE), line, 'utf-8');
+    });
+    // Keep the chain alive after a failed write; the caller still sees the error
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Records matching the filter, newest first
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditPage> {
+    await this.writes;
+    const { mac, configfile, outcome, from, to, offset = 0, limit = 100 } = filter;
+    const technician = filter.technician?.toLowerCase();
+    const matches: AuditRecord[] = [];
+
+    for (const file of await this.files()) {
+      let contents: string;
+      try {
+        contents = await readFile(path.join(this.dir, file), 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw error;
+      }
+
+      for (const line of contents.split('\n')) {
+        if (!line) continue;
+        let record: AuditRecord;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          this.logger.error(`[${new Date().toISOString()}] [AUDIT] Skipping unreadable line in ${file}`);
+          continue;
+        }
+        const time = Date.parse(record.timestamp);
+        if (mac && record.mac !== mac) continue;
+        if (configfile && record.configfile !== configfile) continue;
+        if (outcome && record.outcome !== outcome) continue;
+        if (
+          technician &&
+          record.user?.sub !== filter.technician &&
+          !record.user?.name.toLowerCase().includes(technician)
+        ) {
+          continue;
+        }
+        if (from && time < from.getTime()) continue;
+        if (to && time > to.getTime()) continue;
+        matches.push(record);
+      }
+    }
+
+    matches.sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+    return { records: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  /** Current file first, then rotated files newest first */
+  private async files(): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const rotated = entries
+      .filter((name) => ROTATED_FILE.test(name))
+      .sort((a, b) => Number(ROTATED_FILE.exec(b)![1]) - Number(ROTATED_FILE.exec(a)![1]));
+    return [CURRENT_FILE, ...rotated];
+  }
+
+  private async rotateIfNeeded(incomingBytes: number) {
+    const current = path.join(this.dir, CURRENT_FILE);
+    let size: number;
+    try {
+      size = (await stat(current)).size;
+    } catch {
+      return;
+    }
+    if (size === 0 || size + incomingBytes <= this.maxFileBytes) return;
+
+    const [, ...rotated] = await this.files();
+    const newest = rotated[0] ? Number(ROTATED_FILE.exec(rotated[0])![1]) : 0;
+    // Timestamp suffix, bumped if two rotations land in the same millisecond
+    const rotatedName = `audit-${Math.max(Date.now(), newest + 1)}.jsonl`;
+    await rename(current, path.join(this.dir, rotatedName));
+    this.logger.log(`[${new Date().toISOString()}] [AUDIT] Rotated ${CURRENT_FILE} to ${rotatedName}`);
+
+    for (const stale of [rotatedName, ...rotated].slice(this.maxFiles)) {
+      await unlink(path.join(this.dir, stale));
+    }
+  }
+}
+
+/**
+ * Client address, preferring the first X-Forwarded-For hop set by the
+ * OpenShift router
+ */
+export function clientIp(req: IncomingMessage): string | undefined {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket.remoteAddress;
+}
+
+/**
+ * GET /api/audit?mac=&technician=&configfile=&outcome=&from=&to=&offset=&limit=
+ * -> { records, total }. Dates are ISO 8601; `mac` accepts any separator style.
+ */
+export function createAuditEndpoint(auditLog: AuditLog) {
+  return async function handleAudit(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const params = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const filter: AuditQuery = {};
+
+    const mac = params.get('mac');
+    if (mac) {
+      filter.mac = normalizeMac(mac);
+      if (!validateMacFormat(filter.mac)) {
+        sendJson(res, 400, { error: `Invalid MAC address: ${mac}` });
+        return;
+      }
+    }
+
+    for (const key of ['from', 'to'] as const) {
+      const value = params.get(key);
+      if (!value) continue;
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        sendJson(res, 400, { error: `Invalid ${key} date: ${value}` });
+        return;
+      }
+      // A bare date as the upper bound covers that whole (UTC) day
+      if (key === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999);
+      }
+      filter[key] = date;
+    }
+
+    filter.technician = params.get('technician') || undefined;
+    filter.configfile = params.get('configfile') || undefined;
+
+    const outcome = params.get('outcome');
+    if (outcome) {
+      if (outcome !== 'success' && outcome !== 'failure') {
+        sendJson(res, 400, { error: 'outcome must be success or failure' });
+        return;
+      }
+      filter.outcome = outcome;
+    }
+
+    const offset = params.get('offset');
+    if (offset) {
+      filter.offset = Number(offset);
+      if (!Number.isInteger(filter.offset) || filter.offset < 0) {
+        sendJson(res, 400, { error: 'offset must be a non-negative integer' });
+        return;
+      }
+    }
+
+    const limit = params.get('limit');
+    if (limit) {
+      filter.limit = Number(limit);
+      if (!Number.isInteger(filter.limit) || filter.limit < 1 || filter.limit > 1000) {
+        sendJson(res, 400, { error: 'limit must be an integer between 1 and 1000' });
+        return;
+      }
+    }
+
+    sendJson(res, 200, await auditLog.query(filter), { 'Cache-Control': 'no-store' });
+  };
+}
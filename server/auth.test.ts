@@ -0,0 +1,358 @@
+// @vitest-environment node
+/**
+ * End-to-end sign-in tests against a local mock OIDC issuer.
+ */
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { startAppServer, RunningServer } from './app';
+import { AuthOptions, authOptionsFromEnv, SESSION_COOKIE, Technician } from './auth';
+import { AuditLog } from './auditLog';
+import { ConfigStore } from './configStore';
+import { startMockIssuer } from './test/mockIssuer';
+import { silentLogger, startStubUpstream } from './test/utils';
+import { NOT_SENT_HEADER } from '../src/utils/retry';
+
+type MockIssuer = Awaited<ReturnType<typeof startMockIssuer>>;
+type StubUpstream = Awaited<ReturnType<typeof startStubUpstream>>;
+
+const MAC_PATH = '/api/ldap/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF';
+
+/** First `name=value` pair of each Set-Cookie header */
+function cookiesFrom(response: Response): Record<string, string> {
+  return Object.fromEntries(
+    response.headers.getSetCookie().map((header) => header.split(';')[0].split(/=(.*)/s).slice(0, 2))
+  );
+}
+
+describe('technician authentication', () => {
+  let distDir: string;
+  let issuer: MockIssuer;
+  let upstream: StubUpstream;
+  let app: RunningServer;
+  /** What the stub upstream answers to searchbymac */
+  let searchResponse = { status: 200, body: '[]' };
+
+  beforeAll(async () => {
+    distDir = await mkdtemp(path.join(tmpdir(), 'viavi-dist-'));
+    await writeFile(path.join(distDir, 'index.html'), '<!doctype html><div id="root"></div>');
+    await writeFile(path.join(distDir, 'manifest.webmanifest'), '{"name":"MAC Provisioning"}');
+    issuer = await startMockIssuer({
+      clientId: 'viavi',
+      clientSecret: 'client-secret',
+      user: { sub: 'tech-42', name: 'Pat Field', email: 'pat@example.com', groups: ['field-techs'] },
+    });
+    upstream = await startStubUpstream((req, res) => {
+      const found = req.url?.startsWith('/searchbymac/') ? searchResponse : null;
+      res.writeHead(found?.status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(found?.body ?? '[]');
+    });
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+    await upstream.close();
+    await rm(distDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await app?.shutdown();
+    searchResponse = { status: 200, body: '[]' };
+  });
+
+  const start = (auth: Partial<AuthOptions> = {}, auditLog?: AuditLog, configStore?: ConfigStore, metricsToken?: string) =>
+    startAppServer({
+      distDir,
+      ldapApiUrl: upstream.url,
+      host: '127.0.0.1',
+      logger: silentLogger,
+      auditLog,
+      configStore,
+      metricsToken,
+      auth: {
+        issuerUrl: issuer.url,
+        clientId: 'viavi',
+        clientSecret: 'client-secret',
+        sessionSecret: 'test-session-secret',
+        ...auth,
+      },
+    });
+
+  /** Walk the authorization-code flow and return the final redirect */
+  async function signIn(returnTo = '/') {
+    const login = await fetch(`${app.url}/auth/login?returnTo=${encodeURIComponent(returnTo)}`, {
+      redirect: 'manual',
+    });
+    const loginCookie = cookiesFrom(login).vmp_login;
+    const authorize = await fetch(login.headers.get('Location')!, { redirect: 'manual' });
+    return fetch(authorize.headers.get('Location')!, {
+      redirect: 'manual',
+      headers: { Cookie: `vmp_login=${loginCookie}` },
+    });
+  }
+
+  it('redirects page loads without a session to sign-in', async () => {
+    app = await start();
+    const response = await fetch(`${app.url}/bulk?x=1`, { redirect: 'manual' });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('/auth/login?returnTo=%2Fbulk%3Fx%3D1');
+  });
+
+  it('answers API calls without a session with 401', async () => {
+    app = await start();
+    const requestsBefore = upstream.requests.length;
+
+    const response = await fetch(`${app.url}${MAC_PATH}`);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Authentication required' });
+    expect(upstream.requests).toHaveLength(requestsBefore);
+  });
+
+  it('leaves health probes reachable without a session', async () => {
+    app = await start();
+    expect((await fetch(`${app.url}/healthz`)).status).toBe(200);
+  });
+
+  it('serves metrics without a session only to a scrape that presents the metrics token', async () => {
+    app = await start({}, undefined, undefined, 'scrape-token');
+    const scrape = (token?: string) =>
+      fetch(`${app.url}/metrics`, { redirect: 'manual', headers: token ? { Authorization: `Bearer ${token}` } : {} });
+
+    expect((await scrape()).status).toBe(302);
+    expect((await scrape('wrong-token')).status).toBe(302);
+    const response = await scrape('scrape-token');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('ldap_proxy_requests_total');
+
+    await app.shutdown();
+    app = await start();
+    expect((await scrape('scrape-token')).status).toBe(302);
+  });
+
+  it('leaves the web app manifest reachable without a session', async () => {
+    app = await start();
+    const response = await fetch(`${app.url}/manifest.webmanifest`, { redirect: 'manual' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('application/manifest+json');
+  });
+
+  it('signs in, returns to the requested page and unlocks the API', async () => {
+    app = await start();
+
+    const callback = await signIn('/bulk');
+    expect(callback.status).toBe(302);
+    expect(callback.headers.get('Location')).toBe('/bulk');
+    expect(callback.headers.getSetCookie().find((c) => c.startsWith(`${SESSION_COOKIE}=`))).toMatch(
+      /HttpOnly; SameSite=Lax/
+    );
+
+    const cookie = `${SESSION_COOKIE}=${cookiesFrom(callback)[SESSION_COOKIE]}`;
+    const me = await fetch(`${app.url}/auth/me`, { headers: { Cookie: cookie } });
+    expect((await me.json()) as Technician).toEqual({
+      sub: 'tech-42',
+      name: 'Pat Field',
+      email: 'pat@example.com',
+      groups: ['field-techs'],
+      admin: false,
+      canUpdate: true,
+    });
+
+    const api = await fetch(`${app.url}${MAC_PATH}`, { headers: { Cookie: cookie } });
+    expect(api.status).toBe(200);
+  });
+
+  it('attributes audited provisions to the signed-in technician', async () => {
+    const auditLog = new AuditLog({ dir: path.join(distDir, 'audit'), logger: silentLogger });
+    app = await start({}, auditLog);
+    const callback = await signIn();
+    const cookie = `${SESSION_COOKIE}=${cookiesFrom(callback)[SESSION_COOKIE]}`;
+
+    await fetch(`${app.url}/api/ldap/addhsd`, {
+      method: 'POST',
+      headers: { Cookie: cookie },
+      body: JSON.stringify({ mac: 'AA:BB:CC:DD:EE:FF', account: 'a', isp: 'i', configfile: 'c' }),
+    });
+
+    const {
+      records: [entry],
+    } = await auditLog.query();
+    expect(entry.user).toEqual({ sub: 'tech-42', name: 'Pat Field' });
+    expect(entry.sessionId).toMatch(/^[\w-]{16}$/);
+  });
+
+  it('lets only technicians in the admin groups edit the config', async () => {
+    const configStore = new ConfigStore({ dir: path.join(distDir, 'config-store'), bundledDir: distDir, logger: silentLogger });
+    app = await start({ adminGroups: ['config-admins'] }, undefined, configStore);
+    let cookie = `${SESSION_COOKIE}=${cookiesFrom(await signIn())[SESSION_COOKIE]}`;
+
+    expect((await fetch(`${app.url}/api/admin/config`, { headers: { Cookie: cookie } })).status).toBe(403);
+
+    await app.shutdown();
+    app = await start({ adminGroups: ['field-techs'] }, undefined, configStore);
+    cookie = `${SESSION_COOKIE}=${cookiesFrom(await signIn())[SESSION_COOKIE]}`;
+
+    const me = (await (await fetch(`${app.url}/auth/me`, { headers: { Cookie: cookie } })).json()) as { admin: boolean };
+    expect(me.admin).toBe(true);
+    expect((await fetch(`${app.url}/api/admin/config`, { headers: { Cookie: cookie } })).status).toBe(200);
+  });
+
+  it('refuses changes to an already-provisioned meter from technicians outside the update groups', async () => {
+    app = await start({ updateGroups: ['meter-updaters'] });
+    const cookie = `${SESSION_COOKIE}=${cookiesFrom(await signIn())[SESSION_COOKIE]}`;
+    const provision = (configfile: string) =>
+      fetch(`${app.url}/api/ldap/addhsd`, {
+        method: 'POST',
+        headers: { Cookie: cookie },
+        body: JSON.stringify({ mac: 'AA:BB:CC:DD:EE:FF', account: 'a', isp: 'i', configfile }),
+      });
+    const addhsdCalls = () => upstream.requests.filter((request) => request.url === '/addhsd').length;
+    searchResponse = {
+      status: 200,
+      body: JSON.stringify([{ mac: 'AA:BB:CC:DD:EE:FF', account: 'a', isp: 'i', configfile: 'c' }]),
+    };
+    const callsBefore = addhsdCalls();
+
+    const me = (await (await fetch(`${app.url}/auth/me`, { headers: { Cookie: cookie } })).json()) as Technician;
+    expect(me).toMatchObject({ canUpdate: false });
+
+    // Found by the proxy's own search, without one from the browser
+    const refused = await provision('c-new');
+    expect(refused.status).toBe(403);
+    expect(((await refused.json()) as { error: string }).error).toContain('(configfile)');
+    expect(addhsdCalls()).toBe(callsBefore);
+
+    // Reapplying what is already there changes nothing
+    expect((await provision('c')).status).toBe(200);
+    expect(addhsdCalls()).toBe(callsBefore + 1);
+
+    // A MAC the backend does not have is a first provision
+    searchResponse = { status: 200, body: '[]' };
+    expect((await provision('c-new')).status).toBe(200);
+  });
+
+  it('refuses deprovisions from technicians outside the update groups', async () => {
+    app = await start({ updateGroups: ['meter-updaters'] });
+    const cookie = `${SESSION_COOKIE}=${cookiesFrom(await signIn())[SESSION_COOKIE]}`;
+    const requestsBefore = upstream.requests.length;
+
+    const response = await fetch(`${app.url}/api/ldap/deletehsd/AA%3ABB%3ACC%3ADD%3AEE%3AFF`, {
+      method: 'DELETE',
+      headers: { Cookie: cookie },
+    });
+    expect(response.status).toBe(403);
+    expect(((await response.json()) as { error: string }).error).toMatch(/not permitted to deprovision/);
+    expect(upstream.requests).toHaveLength(requestsBefore);
+
+    await app.shutdown();
+    app = await start({ updateGroups: ['field-techs'] });
+    const updater = `${SESSION_COOKIE}=${cookiesFrom(await signIn())[SESSION_COOKIE]}`;
+    const allowed = await fetch(`${app.url}/api/ldap/deletehsd/AA%3ABB%3ACC%3ADD%3AEE%3AFF`, {
+      method: 'DELETE',
+      headers: { Cookie: updater },
+    });
+    expect(allowed.status).toBe(200);
+  });
+
+  it('refuses provisions from technicians outside the update groups when the MAC cannot be looked up', async () => {
+    app = await start({ updateGroups: ['meter-updaters'] });
+    const cookie = `${SESSION_COOKIE}=${cookiesFrom(await signIn())[SESSION_COOKIE]}`;
+    const provision = () =>
+      fetch(`${app.url}/api/ldap/addhsd`, {
+        method: 'POST',
+        headers: { Cookie: cookie },
+        body: JSON.stringify({ mac: 'AA:BB:CC:DD:EE:FF', account: 'a', isp: 'i', configfile: 'c' }),
+      });
+    const requestsBefore = upstream.requests.length;
+
+    searchResponse = { status: 500, body: '{"error":"LDAP unavailable"}' };
+    let response = await provision();
+    expect(response.status).toBe(503);
+    expect(response.headers.get(NOT_SENT_HEADER)).toBe('true');
+
+    searchResponse = { status: 200, body: '{"unexpected": true}' };
+    response = await provision();
+    expect(response.status).toBe(503);
+    expect(upstream.requests.slice(requestsBefore).map((request) => request.url)).toEqual([
+      '/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF',
+      '/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF',
+    ]);
+  });
+
+  it('rejects tampered session cookies', async () => {
+    app = await start();
+    const callback = await signIn();
+    const [body, mac] = cookiesFrom(callback)[SESSION_COOKIE].split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url').toString()), groups: ['admins'] })
+    ).toString('base64url');
+
+    const response = await fetch(`${app.url}/auth/me`, {
+      headers: { Cookie: `${SESSION_COOKIE}=${forged}.${mac}` },
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a callback whose state does not match the login cookie', async () => {
+    app = await start();
+    const login = await fetch(`${app.url}/auth/login`, { redirect: 'manual' });
+    const loginCookie = cookiesFrom(login).vmp_login;
+
+    const response = await fetch(`${app.url}/auth/callback?code=abc&state=forged`, {
+      headers: { Cookie: `vmp_login=${loginCookie}` },
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('does not follow returnTo values that leave the app', async () => {
+    app = await start();
+    const callback = await signIn('//evil.example.com/');
+    expect(callback.headers.get('Location')).toBe('/');
+  });
+
+  it('answers 403 to technicians outside the allowed groups', async () => {
+    app = await start({ allowedGroups: ['provisioning-admins'] });
+    const callback = await signIn();
+
+    expect(callback.status).toBe(403);
+    expect(cookiesFrom(callback)[SESSION_COOKIE]).toBeUndefined();
+  });
+
+  it('clears the session and signs out at the issuer', async () => {
+    app = await start();
+    const response = await fetch(`${app.url}/auth/logout`, { redirect: 'manual' });
+
+    expect(response.headers.get('Location')).toBe(`${issuer.url}/logout?client_id=viavi`);
+    expect(cookiesFrom(response)[SESSION_COOKIE]).toBe('');
+  });
+});
+
+describe('authOptionsFromEnv', () => {
+  it('returns null when no issuer is configured', () => {
+    expect(authOptionsFromEnv({})).toBeNull();
+  });
+
+  it('rejects partial configuration', () => {
+    expect(() => authOptionsFromEnv({ OIDC_ISSUER_URL: 'https://sso', OIDC_CLIENT_ID: 'x' })).toThrow(
+      'OIDC_CLIENT_SECRET, SESSION_SECRET are missing'
+    );
+  });
+
+  it('parses the allowed, admin and update group lists', () => {
+    const options = authOptionsFromEnv({
+      OIDC_ISSUER_URL: 'https://sso',
+      OIDC_CLIENT_ID: 'x',
+      OIDC_CLIENT_SECRET: 'y',
+      SESSION_SECRET: 'z',
+      OIDC_ALLOWED_GROUPS: 'techs, admins,',
+      OIDC_ADMIN_GROUPS: 'admins',
+      OIDC_UPDATE_GROUPS: 'updaters',
+    });
+    expect(options?.allowedGroups).toEqual(['techs', 'admins']);
+    expect(options?.adminGroups).toEqual(['admins']);
+    expect(options?.updateGroups).toEqual(['updaters']);
+    expect(options?.redirectUri).toBeUndefined();
+  });
+});
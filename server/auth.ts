@@ -0,0 +1,417 @@
+/**
+ * Technician sign-in: an OIDC authorization-code flow (with PKCE) against a
+ * configurable issuer, and a signed session cookie that gates the SPA and
+ * the API routes.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { hasBearerToken, matchPrefix, Middleware, parseCookies, sendJson, ServerLogger } from './http';
+
+export interface AuthOptions {
+  /** OIDC issuer base URL; `/.well-known/openid-configuration` is read from it */
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  /** Key used to sign session cookies */
+  sessionSecret: string;
+  /**
+   * Absolute callback URL registered with the issuer. Derived from the
+   * request (honouring X-Forwarded-Proto) when omitted.
+   */
+  redirectUri?: string;
+  /** Session lifetime in milliseconds */
+  sessionTtl?: number;
+  scopes?: string;
+  /** When set, only technicians in at least one of these groups are allowed */
+  allowedGroups?: string[];
+  /** Technicians in any of these groups may edit the runtime config; none may when unset */
+  adminGroups?: string[];
+  /**
+   * Technicians in any of these groups, and administrators, may change the
+   * configuration of an already-provisioned meter; every technician may when unset
+   */
+  updateGroups?: string[];
+  /** Lets a scrape that presents this bearer token reach /metrics without a session */
+  metricsToken?: string;
+  fetch?: typeof fetch;
+  logger?: ServerLogger;
+}
+
+/** Identity stored in the session cookie and returned by /auth/me */
+export interface Technician {
+  sub: string;
+  name: string;
+  email?: string;
+  groups: string[];
+}
+
+interface Session extends Technician {
+  /** Random id of this sign-in, recorded in the audit log */
+  sid: string;
+  /** Expiry, in epoch milliseconds */
+  exp: number;
+}
+
+/** Who made a request, as seen by handlers behind the auth middleware */
+export interface RequestIdentity {
+  technician: Technician;
+  sessionId: string;
+  /** In one of the configured admin groups */
+  admin: boolean;
+  /** May change the configuration of an already-provisioned meter */
+  canUpdate: boolean;
+}
+
+const identities = new WeakMap<IncomingMessage, RequestIdentity>();
+
+/**
+ * Identity attached to `req` by the auth middleware, or undefined when the
+ * request was not authenticated (sign-in disabled or a public path)
+ */
+export function requestIdentity(req: IncomingMessage): RequestIdentity | undefined {
+  return identities.get(req);
+}
+
+interface LoginState {
+  state: string;
+  verifier: string;
+  returnTo: string;
+  exp: number;
+}
+
+interface IssuerMetadata {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+export const SESSION_COOKIE = 'vmp_session';
+const LOGIN_COOKIE = 'vmp_login';
+const LOGIN_TTL = 10 * 60 * 1000;
+
+/**
+ * Paths that stay reachable without a session: probes, the auth flow, and the
+ * web app manifest and its icons, which browsers fetch without cookies.
+ * /metrics is not among them; Prometheus presents `metricsToken` instead.
+ */
+const PUBLIC_PATHS = ['/auth', '/healthz', '/readyz', '/manifest.webmanifest', '/icons'];
+
+const base64url = (data: Buffer | string) => Buffer.from(data).toString('base64url');
+
+function sign(payload: object, secret: string): string {
+  const body = base64url(JSON.stringify(payload));
+  const mac = createHmac('sha256', secret).update(body).digest('base64url');
+  return `${body}.${mac}`;
+}
+
+/**
+ * Verify a value produced by `sign`. Returns null for tampered, malformed or
+ * expired values.
+ */
+function verify<T extends { exp: number }>(value: string | undefined, secret: string): T | null {
+  if (!value) return null;
+  const [body, mac] = value.split('.');
+  if (!body || !mac) return null;
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(body).digest('base64url'));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')) as T;
+    return typeof payload.exp === 'number' && payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function isSecureRequest(req: IncomingMessage): boolean {
+  const proto = req.headers['x-forwarded-proto'];
+  return (Array.isArray(proto) ? proto[0] : proto)?.split(',')[0].trim() === 'https';
+}
+
+function cookie(name: string, value: string, req: IncomingMessage, maxAgeMs: number): string {
+  const attributes = [
+    `${name}=${value}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${Math.floor(maxAgeMs / 1000)}`,
+  ];
+  if (isSecureRequest(req)) attributes.push('Secure');
+  return attributes.join('; ');
+}
+
+/**
+ * Only same-origin relative paths are followed after sign-in, so the
+ * callback cannot be used as an open redirect.
+ */
+function safeReturnTo(value: string | null | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\')
+    ? value
+    : '/';
+}
+
+function redirect(res: ServerResponse, location: string, cookies: string[] = []) {
+  if (cookies.length > 0) res.setHeader('Set-Cookie', cookies);
+  res.writeHead(302, { Location: location, 'Cache-Control': 'no-store' });
+  res.end();
+}
+
+/**
+ * Create the auth middleware. It serves /auth/login, /auth/callback,
+ * /auth/me and /auth/logout, and answers every other request that lacks a
+ * valid session: API calls get 401 JSON, page loads are redirected to the
+ * issuer. Technicians outside `allowedGroups` get 403.
+ */
+export function createAuth(options: AuthOptions): Middleware {
+  const {
+    issuerUrl,
+    clientId,
+    clientSecret,
+    sessionSecret,
+    sessionTtl = 8 * 60 * 60 * 1000,
+    scopes = 'openid profile email',
+    allowedGroups,
+    adminGroups = [],
+    updateGroups,
+    metricsToken,
+    fetch: fetchImpl = fetch,
+    logger = console,
+  } = options;
+
+  let metadata: Promise<IssuerMetadata> | null = null;
+  const discover = (): Promise<IssuerMetadata> => {
+    metadata ??= fetchImpl(`${issuerUrl.replace(/\/$/, '')}/.well-known/openid-configuration`)
+      .then((response) => {
+        if (!response.ok) throw new Error(`OIDC discovery failed: ${response.status}`);
+        return response.json() as Promise<IssuerMetadata>;
+      })
+      .catch((error) => {
+        // Retry discovery on the next request rather than caching the failure
+        metadata = null;
+        throw error;
+      });
+    return metadata;
+  };
+
+  const redirectUriFor = (req: IncomingMessage) =>
+    options.redirectUri ??
+    `${isSecureRequest(req) ? 'https' : 'http'}://${req.headers.host}/auth/callback`;
+
+  const isAllowed = (technician: Technician) =>
+    !allowedGroups?.length || technician.groups.some((group) => allowedGroups.includes(group));
+
+  const isAdmin = (technician: Technician) => technician.groups.some((group) => adminGroups.includes(group));
+
+  const canUpdate = (technician: Technician) =>
+    !updateGroups?.length || isAdmin(technician) || technician.groups.some((group) => updateGroups.includes(group));
+
+  const log = (message: string) => logger.log(`[${new Date().toISOString()}] [AUTH] ${message}`);
+
+  async function handleLogin(req: IncomingMessage, res: ServerResponse, query: URLSearchParams) {
+    const issuer = await discover();
+    const login: LoginState = {
+      state: base64url(randomBytes(16)),
+      verifier: base64url(randomBytes(32)),
+      returnTo: safeReturnTo(query.get('returnTo')),
+      exp: Date.now() + LOGIN_TTL,
+    };
+
+    const authorizeUrl = new URL(issuer.authorization_endpoint);
+    authorizeUrl.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: redirectUriFor(req),
+      scope: scopes,
+      state: login.state,
+      code_challenge: base64url(createHash('sha256').update(login.verifier).digest()),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    redirect(res, authorizeUrl.toString(), [
+      cookie(LOGIN_COOKIE, sign(login, sessionSecret), req, LOGIN_TTL),
+    ]);
+  }
+
+  async function handleCallback(req: IncomingMessage, res: ServerResponse, query: URLSearchParams) {
+    const login = verify<LoginState>(parseCookies(req)[LOGIN_COOKIE], sessionSecret);
+    const code = query.get('code');
+
+    if (query.get('error')) {
+      sendJson(res, 401, { error: `Sign-in failed: ${query.get('error')}` });
+      return;
+    }
+    if (!login || !code || query.get('state') !== login.state) {
+      sendJson(res, 400, { error: 'Sign-in request expired or invalid; start again from the app' });
+      return;
+    }
+
+    const issuer = await discover();
+    const tokenResponse = await fetchImpl(issuer.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUriFor(req),
+        client_id: clientId,
+        client_secret: clientSecret,
+        code_verifier: login.verifier,
+      }).toString(),
+    });
+    if (!tokenResponse.ok) {
+      log(`Token exchange failed: ${tokenResponse.status}`);
+      sendJson(res, 401, { error: 'Sign-in failed: the issuer rejected the authorization code' });
+      return;
+    }
+    const { access_token: accessToken } = (await tokenResponse.json()) as { access_token?: string };
+
+    // The token came straight from the issuer over the back channel, so the
+    // userinfo endpoint is the source of the technician's identity
+    const userinfoResponse = await fetchImpl(issuer.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+    });
+    if (!userinfoResponse.ok) {
+      log(`Userinfo request failed: ${userinfoResponse.status}`);
+      sendJson(res, 401, { error: 'Sign-in failed: could not read the technician profile' });
+      return;
+    }
+    const claims = (await userinfoResponse.json()) as Record<string, unknown>;
+    const technician: Technician = {
+      sub: String(claims.sub),
+      name: String(claims.name ?? claims.preferred_username ?? claims.email ?? claims.sub),
+      email: typeof claims.email === 'string' ? claims.email : undefined,
+      groups: Array.isArray(claims.groups) ? claims.groups.map(String) : [],
+    };
+
+    if (!isAllowed(technician)) {
+      log(`Denied ${technician.sub}: not in an allowed group`);
+      sendJson(res, 403, { error: 'Your account is not permitted to use the provisioning tool' });
+      return;
+    }
+
+    log(`Signed in ${technician.sub}`);
+    const session: Session = {
+      ...technician,
+      sid: base64url(randomBytes(12)),
+      exp: Date.now() + sessionTtl,
+    };
+    redirect(res, login.returnTo, [
+      cookie(SESSION_COOKIE, sign(session, sessionSecret), req, sessionTtl),
+      cookie(LOGIN_COOKIE, '', req, 0),
+    ]);
+  }
+
+  async function handleLogout(req: IncomingMessage, res: ServerResponse) {
+    const clear = [cookie(SESSION_COOKIE, '', req, 0)];
+    const issuer = await discover().catch(() => null);
+    if (issuer?.end_session_endpoint) {
+      const logoutUrl = new URL(issuer.end_session_endpoint);
+      logoutUrl.searchParams.set('client_id', clientId);
+      redirect(res, logoutUrl.toString(), clear);
+      return;
+    }
+    redirect(res, '/', clear);
+  }
+
+  return (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const session = verify<Session>(parseCookies(req)[SESSION_COOKIE], sessionSecret);
+    const authPath = matchPrefix(req.url, '/auth');
+
+    if (authPath !== null && req.method === 'GET') {
+      const route = authPath.split('?')[0];
+      if (route === '/login') {
+        handleLogin(req, res, url.searchParams).catch(next);
+        return;
+      }
+      if (route === '/callback') {
+        handleCallback(req, res, url.searchParams).catch(next);
+        return;
+      }
+      if (route === '/logout') {
+        handleLogout(req, res).catch(next);
+        return;
+      }
+      if (route === '/me') {
+        if (!session) {
+          sendJson(res, 401, { error: 'Not signed in' });
+          return;
+        }
+        const { sub, name, email, groups } = session;
+        sendJson(
+          res,
+          200,
+          { sub, name, email, groups, admin: isAdmin(session), canUpdate: canUpdate(session) },
+          { 'Cache-Control': 'no-store' }
+        );
+        return;
+      }
+    }
+
+    if (PUBLIC_PATHS.some((prefix) => matchPrefix(req.url, prefix) !== null)) {
+      next();
+      return;
+    }
+
+    if (metricsToken && matchPrefix(req.url, '/metrics') !== null && hasBearerToken(req, metricsToken)) {
+      next();
+      return;
+    }
+
+    const isApi = matchPrefix(req.url, '/api') !== null;
+    if (!session) {
+      if (isApi || req.method !== 'GET') {
+        sendJson(res, 401, { error: 'Authentication required' });
+        return;
+      }
+      redirect(res, `/auth/login?returnTo=${encodeURIComponent(url.pathname + url.search)}`);
+      return;
+    }
+
+    if (!isAllowed(session)) {
+      sendJson(res, 403, { error: 'Your account is not permitted to use the provisioning tool' });
+      return;
+    }
+
+    const { sid, sub, name, email, groups } = session;
+    identities.set(req, {
+      technician: { sub, name, email, groups },
+      sessionId: sid,
+      admin: isAdmin(session),
+      canUpdate: canUpdate(session),
+    });
+    next();
+  };
+}
+
+/**
+ * Read auth settings from OIDC_* / SESSION_SECRET environment variables.
+ * Returns null when no issuer is configured; throws if the configuration is
+ * only partly present.
+ */
+export function authOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AuthOptions | null {
+  if (!env.OIDC_ISSUER_URL) return null;
+
+  const missing = ['OIDC_CLIENT_ID', 'OIDC_CLIENT_SECRET', 'SESSION_SECRET'].filter((name) => !env[name]);
+  if (missing.length > 0) {
+    throw new Error(`OIDC_ISSUER_URL is set but ${missing.join(', ')} ${missing.length > 1 ? 'are' : 'is'} missing`);
+  }
+
+  return {
+    issuerUrl: env.OIDC_ISSUER_URL,
+    clientId: env.OIDC_CLIENT_ID!,
+    clientSecret: env.OIDC_CLIENT_SECRET!,
+    sessionSecret: env.SESSION_SECRET!,
+    redirectUri: env.OIDC_REDIRECT_URI || undefined,
+    allowedGroups: env.OIDC_ALLOWED_GROUPS?.split(',').map((group) => group.trim()).filter(Boolean),
+    adminGroups: env.OIDC_ADMIN_GROUPS?.split(',').map((group) => group.trim()).filter(Boolean),
+    updateGroups: env.OIDC_UPDATE_GROUPS?.split(',').map((group) => group.trim()).filter(Boolean),
+  };
+}
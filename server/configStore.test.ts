@@ -0,0 +1,140 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ConfigChange, ConfigConflictError, ConfigStore, ConfigValidationError, StoredConfig } from './configStore';
+import { createApiMiddleware } from './index';
+import { silentLogger, startMiddleware, TestServer } from './test/utils';
+
+const bundledOuis = { version: '2026-10-01', entries: [{ vendor: 'VIAVI', prefix: '000711' }] };
+const editedOuis = { entries: [{ vendor: 'VIAVI', prefix: '000711', note: 'Original meters' }] };
+
+describe('ConfigStore', () => {
+  let dir: string;
+  let store: ConfigStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'viavi-config-'));
+    await mkdir(path.join(dir, 'bundled'));
+    await writeFile(path.join(dir, 'bundled', 'approved-ouis.json'), JSON.stringify(bundledOuis));
+    store = new ConfigStore({ dir: path.join(dir, 'store'), bundledDir: path.join(dir, 'bundled'), logger: silentLogger });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('saves an edit with a new version and records who changed what', async () => {
+    expect(await store.read('approved-ouis.json')).toMatchObject({ version: '2026-10-01', source: 'bundled' });
+
+    const { stored, change } = await store.update('approved-ouis.json', {
+      config: editedOuis,
+      baseVersion: '2026-10-01',
+      comment: 'Label the original block',
+      user: { sub: 'admin-1', name: 'Alex Admin' },
+    });
+
+    const today = new Date().toISOString().slice(0, 10);
+    expect(stored).toMatchObject({ version: today, source: 'store' });
+    expect(JSON.parse(await readFile(path.join(dir, 'store', 'approved-ouis.json'), 'utf-8'))).toEqual({
+      version: today,
+      ...editedOuis,
+    });
+    expect(change).toMatchObject({
+      user: { sub: 'admin-1', name: 'Alex Admin' },
+      previousVersion: '2026-10-01',
+      version: today,
+      comment: 'Label the original block',
+      changes: ['Changed 000711 (MA-L): note (none) → Original meters'],
+    });
+    expect(await store.history()).toEqual([change]);
+
+    const second = await store.update('approved-ouis.json', { config: bundledOuis, baseVersion: today });
+    expect(second.stored.version).toBe(`${today}.2`);
+    expect((await store.history('approved-ouis.json')).map((c) => c.version)).toEqual([`${today}.2`, today]);
+    expect(await store.history('provision-defaults.json')).toEqual([]);
+  });
+
+  it('refuses invalid contents and edits of an outdated version', async () => {
+    await expect(
+      store.update('approved-ouis.json', { config: { entries: [{ vendor: 'VIAVI', prefix: '0007' }] }, baseVersion: '2026-10-01' })
+    ).rejects.toThrow(ConfigValidationError);
+    await expect(store.update('approved-ouis.json', { config: editedOuis, baseVersion: '2026-09-01' })).rejects.toThrow(
+      ConfigConflictError
+    );
+    expect(await store.history()).toEqual([]);
+  });
+});
+
+describe('config admin through the API middleware', () => {
+  let dir: string;
+  let app: TestServer;
+
+  const start = async (configAdminWithoutSignIn: boolean) => {
+    const configStore = new ConfigStore({ dir: path.join(dir, 'store'), bundledDir: dir, logger: silentLogger });
+    app = await startMiddleware(
+      createApiMiddleware({ ldapApiUrl: 'http://127.0.0.1:9', configStore, configAdminWithoutSignIn, logger: silentLogger })
+    );
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'viavi-config-'));
+    await writeFile(path.join(dir, 'approved-ouis.json'), JSON.stringify(bundledOuis));
+    await start(true);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const save = (body: unknown) =>
+    fetch(`${app.url}/api/admin/config/approved-ouis.json`, { method: 'PUT', body: JSON.stringify(body) });
+
+  it('serves the saved edit in place of the bundled file', async () => {
+    expect((await fetch(`${app.url}/config/approved-ouis.json`)).status).toBe(404);
+
+    const saved = await save({ config: editedOuis, baseVersion: '2026-10-01', comment: 'Annotate' });
+    expect(saved.status).toBe(200);
+    const { file, change } = (await saved.json()) as { file: StoredConfig; change: ConfigChange };
+
+    const served = await fetch(`${app.url}/config/approved-ouis.json?v=1`);
+    expect(served.status).toBe(200);
+    expect(await served.json()).toEqual(file.config);
+
+    const history = (await (await fetch(`${app.url}/api/admin/config/history?file=approved-ouis.json`)).json()) as {
+      changes: ConfigChange[];
+    };
+    expect(history.changes).toEqual([change]);
+
+    const { files } = (await (await fetch(`${app.url}/api/admin/config`)).json()) as { files: StoredConfig[] };
+    expect(files.map((f) => [f.file, f.source])).toEqual([
+      ['approved-ouis.json', 'store'],
+      ['provision-defaults.json', 'bundled'],
+    ]);
+  });
+
+  it('answers invalid edits with 400 and outdated ones with 409 and the current file', async () => {
+    const invalid = await save({ config: { entries: [{ prefix: '000711' }] }, baseVersion: '2026-10-01' });
+    expect(invalid.status).toBe(400);
+    expect(((await invalid.json()) as { error: string }).error).toMatch(/entries\.0\.vendor/);
+
+    const outdated = await save({ config: editedOuis, baseVersion: '2026-09-01' });
+    expect(outdated.status).toBe(409);
+    expect(((await outdated.json()) as { file: StoredConfig }).file).toMatchObject({ version: '2026-10-01', source: 'bundled' });
+
+    expect((await fetch(`${app.url}/api/admin/config/other.json`, { method: 'PUT', body: '{}' })).status).toBe(404);
+  });
+
+  it('refuses saves without sign-in unless they are allowed explicitly', async () => {
+    await app.close();
+    await start(false);
+
+    const refused = await save({ config: editedOuis, baseVersion: '2026-10-01' });
+    expect(refused.status).toBe(403);
+    expect(((await refused.json()) as { error: string }).error).toMatch(/CONFIG_ADMIN_WITHOUT_SIGN_IN/);
+    expect((await fetch(`${app.url}/config/approved-ouis.json`)).status).toBe(404);
+    expect((await fetch(`${app.url}/api/admin/config`)).status).toBe(200);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Runtime-editable config files. Administrators' edits of approved-ouis.json
+ * and provision-defaults.json are validated, saved to the configured
+ * directory (a persistent volume in OpenShift) and served in place of the
+ * copies bundled in dist/config, so they take effect without a rebuild.
+ * Every save bumps the file's `version`, which tells installed apps to
+ * replace their cached copy, and is recorded in `config-history.jsonl`.
+ */
+
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { PayloadTooLargeError, readBody, sendJson, ServerLogger } from './http';
+import { requestIdentity } from './auth';
+import {
+  describeConfigChanges,
+  EDITABLE_CONFIG_FILES,
+  EditableConfigFile,
+  isEditableConfigFile,
+  nextConfigVersion,
+  parseConfigFile,
+} from '../src/utils/configFiles';
+
+export interface ConfigChange {
+  timestamp: string;
+  /** Administrator who saved the file, absent when sign-in is disabled */
+  user?: { sub: string; name: string };
+  file: EditableConfigFile;
+  previousVersion?: string;
+  version: string;
+  comment?: string;
+  /** One line per change, e.g. "Added 0028302 (MA-M): VIAVI ONX-630" */
+  changes: string[];
+}
+
+export interface StoredConfig {
+  file: EditableConfigFile;
+  /** File contents as served to the app */
+  config: unknown;
+  version?: string;
+  /** `store`: an administrator's saved edit. `bundled`: the copy built into dist/config. */
+  source: 'store' | 'bundled';
+}
+
+export interface ConfigUpdate {
+  config: unknown;
+  /** Version the edit was based on; the save is refused if the file has moved on */
+  baseVersion?: string;
+  comment?: string;
+  user?: ConfigChange['user'];
+}
+
+/** Raised by `ConfigStore.update` when the new contents are invalid */
+export class ConfigValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/** Raised by `ConfigStore.update` when someone else saved the file first */
+export class ConfigConflictError extends Error {
+  constructor(readonly current: StoredConfig) {
+    super(
+      `${current.file} was changed by someone else (now version ${current.version ?? 'unversioned'}); ` +
+        'reload it and make your edits again'
+    );
+    this.name = 'ConfigConflictError';
+  }
+}
+
+export interface ConfigStoreOptions {
+  /** Writable directory for saved files and the change history */
+  dir: string;
+  /** Directory with the bundled copies (dist/config) */
+  bundledDir: string;
+  logger?: ServerLogger;
+}
+
+const HISTORY_FILE = 'config-history.jsonl';
+
+const versionOf = (config: unknown): string | undefined => {
+  const version = (config as { version?: unknown } | null)?.version;
+  return typeof version === 'string' ? version : undefined;
+};
+
+async function readJson(filePath: string): Promise<unknown | undefined> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+export class ConfigStore {
+  private readonly dir: string;
+  private readonly bundledDir: string;
+  private readonly logger: ServerLogger;
+  /** Saves are chained so two edits never interleave their check and write */
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(options: ConfigStoreOptions) {
+    this.dir = options.dir;
+    this.bundledDir = options.bundledDir;
+    this.logger = options.logger ?? console;
+  }
+
+  /** The file as the app currently gets it */
+  async read(file: EditableConfigFile): Promise<StoredConfig> {
+    const saved = await readJson(path.join(this.dir, file));
+    if (saved !== undefined) {
+      return { file, config: saved, version: versionOf(saved), source: 'store' };
+    }
+    const bundled = await readJson(path.join(this.bundledDir, file));
+    return { file, config: bundled ?? null, version: versionOf(bundled), source: 'bundled' };
+  }
+
+  /** The saved edit of a file, or undefined if it has none */
+  async readSaved(file: EditableConfigFile): Promise<unknown | undefined> {
+    await this.writes;
+    return readJson(path.join(this.dir, file));
+  }
+
+  /**
+   * Validate and save new contents with the next version, and record the
+   * change. Rejects with `ConfigValidationError` or `ConfigConflictError`.
+   */
+  update(file: EditableConfigFile, update: ConfigUpdate): Promise<{ stored: StoredConfig; change: ConfigChange }> {
+    const save = this.writes.then(() => this.save(file, update));
+    // Keep the chain alive after a failed save; the caller still sees the error
+    this.writes = save.catch(() => {});
+    return save;
+  }
+
+  private async save(file: EditableConfigFile, { config, baseVersion, comment, user }: ConfigUpdate) {
+    const current = await this.read(file);
+    if (current.version !== baseVersion) {
+      throw new ConfigConflictError(current);
+    }
+
+    let next;
+    try {
+      next = parseConfigFile(file, config);
+    } catch (error) {
+      throw new ConfigValidationError((error as Error).message);
+    }
+
+    let changes: string[];
+    try {
+      changes = describeConfigChanges(file, parseConfigFile(file, current.config), next);
+    } catch {
+      // The file being replaced does not validate, so there is nothing to compare with
+      changes = ['Replaced a file that did not validate'];
+    }
+
+    const version = nextConfigVersion(current.version);
+    const contents = { ...next, version };
+    await mkdir(this.dir, { recursive: true });
+    // Write then rename, so the file being served is never half-written
+    const target = path.join(this.dir, file);
+    await writeFile(`${target}.tmp`, `${JSON.stringify(contents, null, 2)}\n`, 'utf-8');
+    await rename(`${target}.tmp`, target);
+
+    const change: ConfigChange = {
+      timestamp: new Date().toISOString(),
+      user,
+      file,
+      previousVersion: current.version,
+      version,
+      comment: comment || undefined,
+      changes,
+    };
+    await appendFile(path.join(this.dir, HISTORY_FILE), `${JSON.stringify(change)}\n`, 'utf-8');
+    this.logger.log(
+      `[${new Date().toISOString()}] [CONFIG] ${user?.sub ?? 'anonymous'} saved ${file} version ${version}: ${changes.length} change(s)`
+    );
+
+    return { stored: { file, config: contents, version, source: 'store' as const }, change };
+  }
+
+  /** Recorded changes, newest first, optionally for one file */
+  async history(file?: EditableConfigFile): Promise<ConfigChange[]> {
+    await this.writes;
+    let contents: string;
+    try {
+      contents = await readFile(path.join(this.dir, HISTORY_FILE), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const changes: ConfigChange[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line) continue;
+      try {
+        const change = JSON.parse(line) as ConfigChange;
+        if (!file || change.file === file) changes.push(change);
+      } catch {
+        this.logger.error(`[${new Date().toISOString()}] [CONFIG] Skipping unreadable line in ${HISTORY_FILE}`);
+      }
+    }
+    return changes.reverse();
+  }
+}
+
+/** Largest config file accepted by PUT /api/admin/config/:file */
+const MAX_CONFIG_BYTES = 1024 * 1024;
+
+export interface ConfigAdminEndpoints {
+  /** GET /config/<file>: the saved edit, or `next` to serve the bundled copy */
+  serveConfigFile: (req: IncomingMessage, res: ServerResponse, file: string) => Promise<boolean>;
+  /**
+   * GET /api/admin/config -> { files }
+   * PUT /api/admin/config/<file> { config, baseVersion, comment } -> { file, change }
+   * GET /api/admin/config/history?file= -> { changes }
+   */
+  handleAdmin: (req: IncomingMessage, res: ServerResponse, route: string) => Promise<void>;
+}
+
+export interface ConfigAdminOptions {
+  /**
+   * Accept saves when sign-in is disabled. Off by default, so a server
+   * without sign-in does not let anyone who can reach it change the config.
+   */
+  allowWithoutSignIn?: boolean;
+}
+
+export function createConfigAdminEndpoints(
+  store: ConfigStore,
+  { allowWithoutSignIn = false }: ConfigAdminOptions = {}
+): ConfigAdminEndpoints {
+  async function serveConfigFile(_req: IncomingMessage, res: ServerResponse, file: string): Promise<boolean> {
+    if (!isEditableConfigFile(file)) return false;
+    const saved = await store.readSaved(file);
+    if (saved === undefined) return false;
+    // Revalidated on every load, like the bundled copies (see staticFiles.ts)
+    sendJson(res, 200, saved, { 'Cache-Control': 'no-cache' });
+    return true;
+  }
+
+  async function handleAdmin(req: IncomingMessage, res: ServerResponse, route: string): Promise<void> {
+    const identity = requestIdentity(req);
+    if (identity && !identity.admin) {
+      sendJson(res, 403, { error: 'Only configuration administrators can view or change the configuration' });
+      return;
+    }
+
+    const url = new URL(route || '/', 'http://localhost');
+    const noStore = { 'Cache-Control': 'no-store' };
+
+    if (url.pathname === '/' && req.method === 'GET') {
+      const files = await Promise.all(EDITABLE_CONFIG_FILES.map((file) => store.read(file)));
+      sendJson(res, 200, { files }, noStore);
+      return;
+    }
+
+    if (url.pathname === '/history' && req.method === 'GET') {
+      const file = url.searchParams.get('file') || null;
+      if (file !== null && !isEditableConfigFile(file)) {
+        sendJson(res, 400, { error: `Unknown config file: ${file}` });
+        return;
+      }
+      sendJson(res, 200, { changes: await store.history(file ?? undefined) }, noStore);
+      return;
+    }
+
+    const file = url.pathname.slice(1);
+    if (!isEditableConfigFile(file)) {
+      sendJson(res, 404, { error: `Unknown config file: ${file}` });
+      return;
+    }
+    if (req.method !== 'PUT') {
+      sendJson(res, 405, { error: 'Method not allowed' }, { Allow: 'PUT' });
+      return;
+    }
+    if (!identity && !allowWithoutSignIn) {
+      sendJson(res, 403, {
+        error: 'Sign-in is disabled, so the configuration cannot be changed (set CONFIG_ADMIN_WITHOUT_SIGN_IN=true to allow it)',
+      });
+      return;
+    }
+
+    let body: { config?: unknown; baseVersion?: unknown; comment?: unknown };
+    try {
+      body = JSON.parse(await readBody(req, MAX_CONFIG_BYTES));
+    } catch (error) {
+      if (error instanceof PayloadTooLargeError) {
+        sendJson(res, 413, { error: error.message });
+        return;
+      }
+      sendJson(res, 400, { error: 'Request body must be JSON' });
+      return;
+    }
+
+    try {
+      const { stored, change } = await store.update(file, {
+        config: body.config,
+        baseVersion: typeof body.baseVersion === 'string' ? body.baseVersion : undefined,
+        comment: typeof body.comment === 'string' ? body.comment.trim().slice(0, 500) : undefined,
+        user: identity && { sub: identity.technician.sub, name: identity.technician.name },
+      });
+      sendJson(res, 200, { file: stored, change }, noStore);
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        sendJson(res, 400, { error: error.message });
+        return;
+      }
+      if (error instanceof ConfigConflictError) {
+        sendJson(res, 409, { error: error.message, file: error.current });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  return { serveConfigFile, handleAdmin };
+}
@@ -0,0 +1,134 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createApiMiddleware } from './index';
+import type { ReadinessReport } from './health';
+import { silentLogger, startMiddleware, startStubUpstream, TestServer } from './test/utils';
+
+describe('health endpoints', () => {
+  let configDir: string;
+  let app: TestServer;
+
+  beforeAll(async () => {
+    configDir = await mkdtemp(path.join(tmpdir(), 'viavi-config-'));
+    await writeFile(path.join(configDir, 'approved-ouis.json'), '{"approved_ouis":["000711"]}');
+    await writeFile(path.join(configDir, 'provision-defaults.json'), '{"account":"a"}');
+  });
+
+  afterAll(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  it('/healthz reports liveness without touching the backend', async () => {
+    app = await startMiddleware(
+      createApiMiddleware({ ldapApiUrl: 'http://127.0.0.1:1', configDir, logger: silentLogger })
+    );
+
+    const response = await fetch(`${app.url}/healthz`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'ok' });
+  });
+
+  it('/readyz is ready when the backend answers and config files load', async () => {
+    const upstream = await startStubUpstream((_req, res) => {
+      res.writeHead(404);
+      res.end();
+    });
+    app = await startMiddleware(
+      createApiMiddleware({ ldapApiUrl: upstream.url, configDir, logger: silentLogger })
+    );
+
+    const response = await fetch(`${app.url}/readyz`);
+    const report = (await response.json()) as ReadinessReport;
+
+    expect(response.status).toBe(200);
+    expect(report.status).toBe('ok');
+    expect(Object.keys(report.checks)).toEqual([
+      'ldapApi',
+      'approved-ouis.json',
+      'provision-defaults.json',
+    ]);
+    await upstream.close();
+  });
+
+  it('/readyz fails with 503 when the backend is unreachable', async () => {
+    app = await startMiddleware(
+      createApiMiddleware({ ldapApiUrl: 'http://127.0.0.1:1', configDir, logger: silentLogger })
+    );
+
+    const response = await fetch(`${app.url}/readyz`);
+    const report = (await response.json()) as ReadinessReport;
+
+    expect(response.status).toBe(503);
+    expect(report.status).toBe('fail');
+    expect(report.checks.ldapApi.status).toBe('fail');
+    expect(report.checks.ldapApi.error).toBeTruthy();
+    expect(report.checks['approved-ouis.json'].status).toBe('ok');
+  });
+
+  it('/readyz times out a hanging backend quickly', async () => {
+    const upstream = await startStubUpstream(() => {
+      // Never respond
+    });
+    app = await startMiddleware(
+      createApiMiddleware({
+        ldapApiUrl: upstream.url,
+        configDir,
+        upstreamCheckTimeout: 50,
+        logger: silentLogger,
+      })
+    );
+
+    const startedAt = Date.now();
+    const response = await fetch(`${app.url}/readyz`);
+
+    expect(response.status).toBe(503);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    await upstream.close();
+  });
+
+  it('/readyz caches the backend check', async () => {
+    const upstream = await startStubUpstream((_req, res) => {
+      res.writeHead(200);
+      res.end();
+    });
+    app = await startMiddleware(
+      createApiMiddleware({ ldapApiUrl: upstream.url, configDir, logger: silentLogger })
+    );
+
+    await fetch(`${app.url}/readyz`);
+    const report = (await (await fetch(`${app.url}/readyz`)).json()) as ReadinessReport;
+
+    expect(upstream.requests).toHaveLength(1);
+    expect(report.checks.ldapApi.cached).toBe(true);
+    await upstream.close();
+  });
+
+  it('/readyz fails when a config file is missing or malformed', async () => {
+    const brokenDir = await mkdtemp(path.join(tmpdir(), 'viavi-config-'));
+    await writeFile(path.join(brokenDir, 'approved-ouis.json'), '{not json');
+    const upstream = await startStubUpstream((_req, res) => {
+      res.writeHead(200);
+      res.end();
+    });
+    app = await startMiddleware(
+      createApiMiddleware({ ldapApiUrl: upstream.url, configDir: brokenDir, logger: silentLogger })
+    );
+
+    const response = await fetch(`${app.url}/readyz`);
+    const report = (await response.json()) as ReadinessReport;
+
+    expect(response.status).toBe(503);
+    expect(report.checks['approved-ouis.json'].status).toBe('fail');
+    expect(report.checks['provision-defaults.json'].error).toMatch(/ENOENT/);
+    await upstream.close();
+    await rm(brokenDir, { recursive: true, force: true });
+  });
+});
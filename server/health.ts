@@ -0,0 +1,135 @@
+/**
+ * Liveness and readiness endpoints for OpenShift probes.
+ *
+ * /healthz only reports that the process is serving requests. /readyz also
+ * checks that the LDAP API is reachable and that the config files the app
+ * depends on can be loaded, so a pod with a bad LDAP_API_URL is taken out of
+ * the route instead of answering with proxy 502s.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { sendJson } from './http';
+
+export type CheckStatus = 'ok' | 'fail';
+
+export interface CheckResult {
+  status: CheckStatus;
+  /** Time the check took, in milliseconds */
+  durationMs: number;
+  checkedAt: string;
+  /** Whether this result was served from the cache */
+  cached?: boolean;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: CheckStatus;
+  checks: Record<string, CheckResult>;
+}
+
+export interface HealthOptions {
+  ldapApiUrl: string;
+  /** Directory containing approved-ouis.json and provision-defaults.json */
+  configDir?: string;
+  /** Timeout for the upstream reachability check */
+  upstreamCheckTimeout?: number;
+  /** How long an upstream check result is reused */
+  upstreamCheckCacheTtl?: number;
+  fetch?: typeof fetch;
+}
+
+export const REQUIRED_CONFIG_FILES = ['approved-ouis.json', 'provision-defaults.json'];
+
+async function timed(check: () => Promise<void>): Promise<CheckResult> {
+  const started = Date.now();
+  try {
+    await check();
+    return { status: 'ok', durationMs: Date.now() - started, checkedAt: new Date().toISOString() };
+  } catch (error) {
+    return {
+      status: 'fail',
+      durationMs: Date.now() - started,
+      checkedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export function createHealthEndpoints(options: HealthOptions) {
+  const {
+    ldapApiUrl,
+    configDir,
+    upstreamCheckTimeout = 2000,
+    upstreamCheckCacheTtl = 10000,
+    fetch: fetchImpl = fetch,
+  } = options;
+  const startedAt = Date.now();
+
+  let upstreamCache: { result: CheckResult; expires: number } | null = null;
+  let upstreamInFlight: Promise<CheckResult> | null = null;
+
+  /**
+   * Any HTTP response means the backend is reachable; only connection
+   * failures and timeouts fail the check.
+   */
+  const checkUpstream = async (): Promise<CheckResult> => {
+    if (upstreamCache && upstreamCache.expires > Date.now()) {
+      return { ...upstreamCache.result, cached: true };
+    }
+    if (!upstreamInFlight) {
+      upstreamInFlight = timed(async () => {
+        const response = await fetchImpl(ldapApiUrl, {
+          method: 'GET',
+          signal: AbortSignal.timeout(upstreamCheckTimeout),
+        });
+        await response.body?.cancel();
+      }).then((result) => {
+        upstreamCache = { result, expires: Date.now() + upstreamCheckCacheTtl };
+        upstreamInFlight = null;
+        return result;
+      });
+    }
+    return upstreamInFlight;
+  };
+
+  const checkConfigFile = (fileName: string) =>
+    timed(async () => {
+      if (!configDir) {
+        throw new Error('Config directory not configured');
+      }
+      JSON.parse(await readFile(path.join(configDir, fileName), 'utf-8'));
+    });
+
+  const getReadiness = async (): Promise<ReadinessReport> => {
+    const [ldapApi, ...configResults] = await Promise.all([
+      checkUpstream(),
+      ...REQUIRED_CONFIG_FILES.map(checkConfigFile),
+    ]);
+
+    const checks: Record<string, CheckResult> = { ldapApi };
+    REQUIRED_CONFIG_FILES.forEach((fileName, index) => {
+      checks[fileName] = configResults[index];
+    });
+
+    const status = Object.values(checks).every((check) => check.status === 'ok') ? 'ok' : 'fail';
+    return { status, checks };
+  };
+
+  const handleHealthz = (_req: IncomingMessage, res: ServerResponse) => {
+    sendJson(
+      res,
+      200,
+      { status: 'ok', uptimeSeconds: Math.round((Date.now() - startedAt) / 1000) },
+      { 'Cache-Control': 'no-store' }
+    );
+  };
+
+  const handleReadyz = async (_req: IncomingMessage, res: ServerResponse) => {
+    const report = await getReadiness();
+    sendJson(res, report.status === 'ok' ? 200 : 503, report, { 'Cache-Control': 'no-store' });
+  };
+
+  return { handleHealthz, handleReadyz, getReadiness };
+}
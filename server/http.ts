@@ -0,0 +1,120 @@
+/**
+ * Small helpers shared by the server route handlers.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export type NextFunction = (error?: unknown) => void;
+
+/**
+ * Connect-style middleware, compatible with Vite's `server.middlewares.use`
+ * and with a plain `http.createServer` request listener.
+ */
+export type Middleware = (req: IncomingMessage, res: ServerResponse, next: NextFunction) => void;
+
+export interface ServerLogger {
+  log: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+/**
+ * Raised by `readBody` when the body exceeds its size limit
+ */
+export class PayloadTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Collect the full request body as a UTF-8 string. With `maxBytes`, rejects
+ * with `PayloadTooLargeError` as soon as the body grows past the limit.
+ */
+export function readBody(req: IncomingMessage, maxBytes = Infinity): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const declaredLength = Number(req.headers?.['content-length']);
+    if (declaredLength > maxBytes) {
+      req.resume();
+      reject(new PayloadTooLargeError(maxBytes));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    req.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new PayloadTooLargeError(maxBytes));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parse the Cookie header into a name -> value map
+ */
+export function parseCookies(req: IncomingMessage): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const index = part.indexOf('=');
+    if (index <= 0) continue;
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+export function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Log-line tag for a request's correlation ID, e.g. `[req:3f2a...]`
+ */
+export function requestTag(requestId: string): string {
+  return `[req:${requestId}]`;
+}
+
+/**
+ * Returns the path below `prefix` if the request URL is under it, else null.
+ * `/api/ldap/searchbymac/x` with prefix `/api/ldap` yields `/searchbymac/x`.
+ */
+export function matchPrefix(url: string | undefined, prefix: string): string | null {
+  const path = url || '';
+  if (path === prefix) return '';
+  if (path.startsWith(`${prefix}/`) || path.startsWith(`${prefix}?`)) {
+    return path.slice(prefix.length);
+  }
+  return null;
+}
+
+/**
+ * Whether the request carries `Authorization: Bearer <token>`, compared in
+ * constant time
+ */
+export function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return false;
+  const given = Buffer.from(header.slice('Bearer '.length));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { createApiMiddleware } from './index';
+import { startMiddleware, TestServer } from './test/utils';
+
+describe('createApiMiddleware', () => {
+  let app: TestServer;
+  const logged: string[] = [];
+  const logger = {
+    log: (line: unknown) => { logged.push(String(line)); },
+    error: (line: unknown) => { logged.push(String(line)); },
+  };
+
+  afterEach(async () => {
+    logged.length = 0;
+    await app?.close();
+  });
+
+  it('writes /api/log entries to the server log', async () => {
+    app = await startMiddleware(createApiMiddleware({ ldapApiUrl: 'http://unused', logger }));
+
+    const response = await fetch(`${app.url}/api/log`, {
+      method: 'POST',
+      body: JSON.stringify({ level: 'warn', message: '[API] Slow response', data: { ms: 900 } }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(logged[0]).toMatch(/\[WARN\] \[API\] Slow response \{"ms":900\}$/);
+  });
+
+  it('tags entries with their request ID', async () => {
+    app = await startMiddleware(createApiMiddleware({ ldapApiUrl: 'http://unused', logger }));
+
+    await fetch(`${app.url}/api/log`, {
+      method: 'POST',
+      body: JSON.stringify({ level: 'info', message: '[API] Fetching', requestId: 'abc-123' }),
+    });
+    await fetch(`${app.url}/api/log`, {
+      method: 'POST',
+      body: JSON.stringify({ level: 'info', message: '[API] Fetching', requestId: 'forged]\n[ERROR' }),
+    });
+
+    expect(logged[0]).toMatch(/\[INFO\] \[req:abc-123\] \[API\] Fetching $/);
+    expect(logged[1]).toMatch(/\[INFO\] \[API\] Fetching $/);
+  });
+
+  it('logs non-JSON bodies verbatim', async () => {
+    app = await startMiddleware(createApiMiddleware({ ldapApiUrl: 'http://unused', logger }));
+
+    await fetch(`${app.url}/api/log`, { method: 'POST', body: 'plain text' });
+
+    expect(logged[0]).toBe('[LOG] plain text');
+  });
+
+  it('passes other requests to the next handler', async () => {
+    app = await startMiddleware(createApiMiddleware({ ldapApiUrl: 'http://unused', logger }));
+
+    expect((await fetch(`${app.url}/`)).status).toBe(404);
+    expect((await fetch(`${app.url}/api/log`)).status).toBe(404);
+    expect((await fetch(`${app.url}/api/ldapx`)).status).toBe(404);
+    expect((await fetch(`${app.url}/api/config`)).status).toBe(404);
+  });
+
+  it('serves the runtime config uncached at /api/config', async () => {
+    const runtimeConfig = { apiBaseUrl: '', useStubApi: true, retryProvision: false, region: 'west' };
+    app = await startMiddleware(createApiMiddleware({ ldapApiUrl: 'http://unused', logger, runtimeConfig }));
+
+    const response = await fetch(`${app.url}/api/config`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(await response.json()).toEqual(runtimeConfig);
+  });
+});
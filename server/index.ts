@@ -0,0 +1,128 @@
+/**
+ * Server-side API routes for the provisioning app. The same middleware is
+ * mounted by the Vite preview plugin and can be used with a plain Node server.
+ */
+
+import { hasBearerToken, matchPrefix, Middleware, sendJson, ServerLogger } from './http';
+import { createLdapProxy } from './ldapProxy';
+import { createLogEndpoint } from './logEndpoint';
+import { createHealthEndpoints } from './health';
+import { MetricsRegistry } from './metrics';
+import { AuditLog, createAuditEndpoint } from './auditLog';
+import { createRuntimeConfigEndpoint } from './runtimeConfig';
+import { ConfigStore, createConfigAdminEndpoints } from './configStore';
+import type { RuntimeConfig } from '../src/utils/runtimeConfig';
+
+export interface ApiServerOptions {
+  /** Backend base URL for the /api/ldap proxy */
+  ldapApiUrl: string;
+  /** Abort upstream LDAP requests after this many milliseconds */
+  upstreamTimeout?: number;
+  /** Largest request body accepted by the /api/ldap proxy */
+  maxBodyBytes?: number;
+  /** Directory with the runtime config files checked by /readyz */
+  configDir?: string;
+  /** Timeout for the /readyz upstream reachability check */
+  upstreamCheckTimeout?: number;
+  /** How long a /readyz upstream check result is reused */
+  upstreamCheckCacheTtl?: number;
+  fetch?: typeof fetch;
+  logger?: ServerLogger;
+  /** Shared metrics registry; a new one is created if omitted */
+  metrics?: MetricsRegistry;
+  /** Bearer token /metrics requires, e.g. from Prometheus; without it /metrics is guarded like the app */
+  metricsToken?: string;
+  /** Audit store for addhsd calls; /api/audit is only served when set */
+  auditLog?: AuditLog;
+  /** Settings for the browser app; /api/config is only served when set */
+  runtimeConfig?: RuntimeConfig;
+  /** Store for administrators' config edits; /api/admin/config is only served when set */
+  configStore?: ConfigStore;
+  /** Accept config saves at /api/admin/config when sign-in is disabled */
+  configAdminWithoutSignIn?: boolean;
+}
+
+/**
+ * Create the API middleware. Requests outside /api/ldap, /api/log,
+ * /api/audit, /api/config, /api/admin/config, /healthz, /readyz and /metrics
+ * are passed to `next` untouched, as are config files without a saved edit.
+ */
+export function createApiMiddleware(options: ApiServerOptions): Middleware {
+  const logger = options.logger ?? console;
+  const metrics = options.metrics ?? new MetricsRegistry();
+  const proxyRequest = createLdapProxy({ ...options, logger, metrics });
+  const handleLog = createLogEndpoint(logger, metrics);
+  const health = createHealthEndpoints(options);
+  const handleAudit = options.auditLog && createAuditEndpoint(options.auditLog);
+  const handleRuntimeConfig = options.runtimeConfig && createRuntimeConfigEndpoint(options.runtimeConfig);
+  const configAdmin =
+    options.configStore &&
+    createConfigAdminEndpoints(options.configStore, { allowWithoutSignIn: options.configAdminWithoutSignIn });
+
+  return (req, res, next) => {
+    const ldapPath = matchPrefix(req.url, '/api/ldap');
+    if (ldapPath !== null) {
+      proxyRequest(req, res, ldapPath).catch(next);
+      return;
+    }
+
+    if (matchPrefix(req.url, '/api/log') !== null && req.method === 'POST') {
+      handleLog(req, res).catch(next);
+      return;
+    }
+
+    if (handleAudit && matchPrefix(req.url, '/api/audit') !== null && req.method === 'GET') {
+      handleAudit(req, res).catch(next);
+      return;
+    }
+
+    const adminPath = configAdmin ? matchPrefix(req.url, '/api/admin/config') : null;
+    if (configAdmin && adminPath !== null) {
+      configAdmin.handleAdmin(req, res, adminPath).catch(next);
+      return;
+    }
+
+    const configPath = configAdmin ? matchPrefix(req.url?.split('?')[0], '/config') : null;
+    if (configAdmin && configPath && req.method === 'GET') {
+      configAdmin
+        .serveConfigFile(req, res, configPath.slice(1))
+        .then((served) => {
+          if (!served) next();
+        })
+        .catch(next);
+      return;
+    }
+
+    if (handleRuntimeConfig && matchPrefix(req.url, '/api/config') !== null && req.method === 'GET') {
+      handleRuntimeConfig(req, res);
+      return;
+    }
+
+    if (matchPrefix(req.url, '/healthz') !== null && req.method === 'GET') {
+      health.handleHealthz(req, res);
+      return;
+    }
+
+    if (matchPrefix(req.url, '/readyz') !== null && req.method === 'GET') {
+      health.handleReadyz(req, res).catch(next);
+      return;
+    }
+
+    if (matchPrefix(req.url, '/metrics') !== null && req.method === 'GET') {
+      if (options.metricsToken && !hasBearerToken(req, options.metricsToken)) {
+        sendJson(res, 401, { error: 'Metrics token required' }, { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(metrics.render());
+      return;
+    }
+
+    next();
+  };
+}
+
+export type { Middleware, NextFunction, ServerLogger } from './http';
+export { MetricsRegistry } from './metrics';
+export { AuditLog } from './auditLog';
+export { ConfigStore } from './configStore';
@@ -0,0 +1,317 @@
+// @vitest-environment node
+/**
+ * Integration tests for the /api/ldap proxy, run over real HTTP against a
+ * local stub upstream.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { ServerResponse } from 'http';
+import { createApiMiddleware } from './index';
+import { silentLogger, startMiddleware, startStubUpstream, TestServer } from './test/utils';
+
+type StubUpstream = Awaited<ReturnType<typeof startStubUpstream>>;
+
+const MAC = 'AA%3ABB%3ACC%3ADD%3AEE%3AFF';
+const provisionBody = {
+  mac: 'AA:BB:CC:DD:EE:FF',
+  account: 'ACC-1',
+  configfile: 'viavi.cfg',
+  isp: 'ISP',
+};
+
+describe('LDAP proxy', () => {
+  let upstream: StubUpstream;
+  let app: TestServer;
+  let respond: (res: ServerResponse) => void;
+
+  beforeEach(async () => {
+    respond = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    };
+    upstream = await startStubUpstream((_req, res) => respond(res));
+    app = await startMiddleware(
+      createApiMiddleware({ ldapApiUrl: upstream.url, logger: silentLogger })
+    );
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await upstream.close();
+  });
+
+  describe('Forwarding', () => {
+    it('does not add a wildcard CORS header', async () => {
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/00%3A11%3A22%3A33%3A44%3A55`);
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    });
+
+    it('forwards requests to the configured backend URL with JSON headers', async () => {
+      await fetch(`${app.url}/api/ldap/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF`);
+
+      expect(upstream.requests).toHaveLength(1);
+      expect(upstream.requests[0].method).toBe('GET');
+      expect(upstream.requests[0].url).toBe('/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF');
+      expect(upstream.requests[0].headers['content-type']).toBe('application/json');
+      expect(upstream.requests[0].headers['accept']).toBe('application/json');
+    });
+  });
+
+  describe('Request IDs', () => {
+    it('forwards the browser\'s request ID to the backend and echoes it', async () => {
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`, {
+        headers: { 'X-Request-ID': 'browser-id-1' },
+      });
+
+      expect(upstream.requests[0].headers['x-request-id']).toBe('browser-id-1');
+      expect(response.headers.get('X-Request-ID')).toBe('browser-id-1');
+    });
+
+    it.each([['none', {}], ['an invalid', { 'X-Request-ID': 'two words' }]])(
+      'assigns a request ID when the browser sent %s',
+      async (_label, headers: Record<string, string>) => {
+        const response = await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`, { headers });
+
+        const requestId = response.headers.get('X-Request-ID');
+        expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+        expect(upstream.requests[0].headers['x-request-id']).toBe(requestId);
+      }
+    );
+
+    it('tags every proxy log line with the request ID', async () => {
+      const logged: string[] = [];
+      const logger = {
+        log: (line: unknown) => { logged.push(String(line)); },
+        error: (line: unknown) => { logged.push(String(line)); },
+      };
+      await app.close();
+      app = await startMiddleware(createApiMiddleware({ ldapApiUrl: upstream.url, logger }));
+
+      await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`, { headers: { 'X-Request-ID': 'browser-id-2' } });
+      await fetch(`${app.url}/api/ldap/docs`, { headers: { 'X-Request-ID': 'browser-id-3' } });
+
+      expect(logged).toHaveLength(3);
+      expect(logged.slice(0, 2).every((line) => line.includes('[req:browser-id-2]'))).toBe(true);
+      expect(logged[2]).toMatch(/\[req:browser-id-3\] Rejected GET \/docs/);
+    });
+  });
+
+  describe('GET Requests', () => {
+    it('proxies searchbymac responses', async () => {
+      const mockData = {
+        macaddress: 'AA:BB:CC:DD:EE:FF',
+        serialnumber: 'VIAVI123456',
+        status: 'active',
+      };
+      respond = (res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(mockData));
+      };
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF`);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual(mockData);
+    });
+
+    it('handles 404 responses from backend', async () => {
+      respond = (res) => {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end('{"error": "MAC address not found"}');
+      };
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/00%3A00%3A00%3A00%3A00%3A00`);
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST Requests', () => {
+    it('forwards POST body to backend', async () => {
+      const requestBody = JSON.stringify(provisionBody);
+
+      const response = await fetch(`${app.url}/api/ldap/addhsd`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestBody,
+      });
+
+      expect(response.status).toBe(200);
+      expect(upstream.requests[0].method).toBe('POST');
+      expect(upstream.requests[0].url).toBe('/addhsd');
+      expect(upstream.requests[0].body).toBe(requestBody);
+    });
+
+    it.each([
+      ['invalid JSON', '{not json', /valid JSON/],
+      ['a missing field', JSON.stringify({ ...provisionBody, isp: undefined }), /isp/],
+      ['an unknown field', JSON.stringify({ ...provisionBody, extra: 1 }), /extra/],
+      ['a malformed MAC', JSON.stringify({ ...provisionBody, mac: 'aabbccddeeff' }), /mac/],
+    ])('rejects a body with %s with 400', async (_label, body, message) => {
+      const response = await fetch(`${app.url}/api/ldap/addhsd`, { method: 'POST', body });
+
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as { error: string }).error).toMatch(message);
+      expect(upstream.requests).toHaveLength(0);
+    });
+
+    it('rejects bodies over the size cap with 413', async () => {
+      await app.close();
+      app = await startMiddleware(
+        createApiMiddleware({ ldapApiUrl: upstream.url, maxBodyBytes: 64, logger: silentLogger })
+      );
+
+      const response = await fetch(`${app.url}/api/ldap/addhsd`, {
+        method: 'POST',
+        body: JSON.stringify({ ...provisionBody, account: 'x'.repeat(100) }),
+      });
+
+      expect(response.status).toBe(413);
+      expect(upstream.requests).toHaveLength(0);
+    });
+  });
+
+  describe('DELETE Requests', () => {
+    it('forwards deletehsd for a valid MAC', async () => {
+      const response = await fetch(`${app.url}/api/ldap/deletehsd/${MAC}`, { method: 'DELETE' });
+
+      expect(response.status).toBe(200);
+      expect(upstream.requests[0].method).toBe('DELETE');
+      expect(upstream.requests[0].url).toBe(`/deletehsd/${MAC}`);
+    });
+  });
+
+  describe('Route Allowlist', () => {
+    it.each(['/api/ldap', '/api/ldap/docs', '/api/ldap/update', '/api/ldap/searchbymac'])(
+      'rejects %s with 403',
+      async (path) => {
+        const response = await fetch(`${app.url}${path}`);
+
+        expect(response.status).toBe(403);
+        expect(((await response.json()) as { error: string }).error).toMatch(/Route not allowed/);
+        expect(upstream.requests).toHaveLength(0);
+      }
+    );
+
+    it('rejects the wrong method for a known route with 405 and an Allow header', async () => {
+      const response = await fetch(`${app.url}/api/ldap/addhsd`, {
+        method: 'PUT',
+        body: JSON.stringify(provisionBody),
+      });
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get('Allow')).toBe('POST');
+      expect(upstream.requests).toHaveLength(0);
+    });
+
+    it.each(['AABBCCDDEEFF', 'aa%3Abb%3Acc%3Add%3Aee%3Aff', 'not-a-mac'])(
+      'rejects malformed MAC path parameter %s with 400',
+      async (mac) => {
+        const response = await fetch(`${app.url}/api/ldap/searchbymac/${mac}`);
+
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as { error: string }).error).toMatch(/Invalid MAC address/);
+        expect(upstream.requests).toHaveLength(0);
+      }
+    );
+  });
+
+  describe('Error Handling', () => {
+    it('returns 502 when the backend is unreachable', async () => {
+      await upstream.close();
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`);
+
+      expect(response.status).toBe(502);
+      const body = (await response.json()) as { error: string; message: string; target: string };
+      expect(body.error).toBe('Proxy error');
+      expect(body.message).toBeTruthy();
+      expect(body.target).toBe(`${upstream.url}/searchbymac/${MAC}`);
+      expect(response.headers.get('X-Upstream-Not-Sent')).toBe('true');
+    });
+
+    it('returns 502 when the backend exceeds the upstream timeout', async () => {
+      await app.close();
+      app = await startMiddleware(
+        createApiMiddleware({ ldapApiUrl: upstream.url, upstreamTimeout: 50, logger: silentLogger })
+      );
+      respond = (res) => {
+        setTimeout(() => {
+          res.writeHead(200);
+          res.end('{}');
+        }, 500);
+      };
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`);
+      expect(response.status).toBe(502);
+      // The backend may have acted on a request that timed out
+      expect(response.headers.get('X-Upstream-Not-Sent')).toBeNull();
+    });
+
+    it('reports non-Error failures as unknown proxy errors', async () => {
+      await app.close();
+      const throwingFetch = (() => Promise.reject('Some non-Error object')) as typeof fetch;
+      app = await startMiddleware(
+        createApiMiddleware({ ldapApiUrl: upstream.url, fetch: throwingFetch, logger: silentLogger })
+      );
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`);
+
+      expect(response.status).toBe(502);
+      expect(((await response.json()) as { message: string }).message).toBe('Unknown proxy error');
+    });
+  });
+
+  describe('Backend Error Forwarding', () => {
+    it.each([400, 500, 503])('forwards %i from backend', async (status) => {
+      respond = (res) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end('{"error": "backend error"}');
+      };
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`);
+
+      expect(response.status).toBe(status);
+    });
+
+    it('forwards Retry-After from the backend', async () => {
+      respond = (res) => {
+        res.writeHead(503, { 'Content-Type': 'application/json', 'Retry-After': '2' });
+        res.end('{"error": "busy"}');
+      };
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`);
+
+      expect(response.status).toBe(503);
+      expect(response.headers.get('Retry-After')).toBe('2');
+    });
+  });
+
+  describe('Content-Type Handling', () => {
+    it('preserves Content-Type from backend response', async () => {
+      respond = (res) => {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('<html>test</html>');
+      };
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`);
+      expect(response.headers.get('Content-Type')).toBe('text/html');
+    });
+
+    it('defaults to application/json when Content-Type is missing', async () => {
+      respond = (res) => {
+        res.removeHeader('Content-Type');
+        res.writeHead(200);
+        res.end('{}');
+      };
+
+      const response = await fetch(`${app.url}/api/ldap/searchbymac/${MAC}`);
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+    });
+  });
+
+  describe('URL Path Handling', () => {
+    it('drops query parameters', async () => {
+      await fetch(`${app.url}/api/ldap/searchbymac/${MAC}?format=json&include=metadata`);
+      expect(upstream.requests[0].url).toBe(`/searchbymac/${MAC}`);
+    });
+  });
+});
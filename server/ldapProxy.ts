@@ -0,0 +1,291 @@
+/**
+ * Proxy for /api/ldap/* -> LDAP API backend. Avoids CORS by serving the
+ * backend through the same origin as the app. Only the operations in
+ * `LDAP_ROUTES` are forwarded.
+ *
+ * Each request keeps the browser's `X-Request-ID` (or gets a new one), which
+ * is sent on to the backend, echoed in the response and written into every
+ * log line and audit record for the request.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { PayloadTooLargeError, readBody, requestTag, sendJson, ServerLogger } from './http';
+import { matchLdapRoute, MAX_BODY_BYTES, validateRouteBody } from './ldapRoutes';
+import { MetricsRegistry, routeLabel } from './metrics';
+import { AuditLog, clientIp } from './auditLog';
+import { requestIdentity } from './auth';
+import { createErrorFromResponse } from '../src/utils/errorUtils';
+import { changedFields, MeterValues } from '../src/utils/meterUpdate';
+import { NOT_SENT_HEADER } from '../src/utils/retry';
+import { parseProvisionResponse, parseSearchResponse, SearchRecord } from '../src/services/ldapSchemas';
+import { createRequestId, isValidRequestId, REQUEST_ID_HEADER } from '../src/utils/requestId';
+
+/**
+ * Connection-phase failures: the backend never received the request, so the
+ * client may safely repeat even a non-idempotent call
+ */
+const CONNECT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+function isConnectError(error: unknown): boolean {
+  const code = (error as { cause?: { code?: unknown } } | undefined)?.cause?.code;
+  return typeof code === 'string' && CONNECT_ERROR_CODES.has(code);
+}
+
+/**
+ * Whether an addhsd response body reports success, judged by the same
+ * schema the client uses
+ */
+function provisionSucceeded(body: string): boolean {
+  try {
+    const parsed = parseProvisionResponse(JSON.parse(body));
+    return parsed.ok && parsed.value;
+  } catch {
+    return false;
+  }
+}
+
+export interface LdapProxyOptions {
+  /** Backend base URL, e.g. http://ldapapi.ldap-api.svc.cluster.local:8080 */
+  ldapApiUrl: string;
+  /** Abort the upstream request after this many milliseconds */
+  upstreamTimeout?: number;
+  /** Reject request bodies larger than this with 413 */
+  maxBodyBytes?: number;
+  fetch?: typeof fetch;
+  logger?: ServerLogger;
+  metrics?: MetricsRegistry;
+  /**
+   * Record every addhsd call, and remember searches, and the record left by
+   * provisions and deprovisions, as the previous record
+   */
+  auditLog?: AuditLog;
+}
+
+/**
+ * Create a handler that forwards a request to the backend. `path` is the
+ * part of the URL below /api/ldap (including any query string); requests
+ * that do not match an allowlisted route are answered without contacting
+ * the backend.
+ */
+export function createLdapProxy(options: LdapProxyOptions) {
+  const {
+    ldapApiUrl,
+    upstreamTimeout = 30000,
+    maxBodyBytes = MAX_BODY_BYTES,
+    fetch: fetchImpl = fetch,
+    logger = console,
+    metrics,
+    auditLog,
+  } = options;
+
+  /**
+   * The backend's record for `mac`, or null when it has none. Throws when the
+   * backend cannot be reached or does not answer with search results.
+   */
+  async function searchRecord(mac: string, headers: Record<string, string>): Promise<SearchRecord | null> {
+    const response = await fetchImpl(`${ldapApiUrl}/searchbymac/${encodeURIComponent(mac)}`, {
+      headers: { 'Accept': 'application/json', ...headers },
+      signal: AbortSignal.timeout(upstreamTimeout),
+    });
+    if (!response.ok) {
+      throw new Error(`searchbymac answered ${response.status}`);
+    }
+    const parsed = parseSearchResponse(JSON.parse(await response.text()));
+    if (!parsed.ok) {
+      throw new Error(`Unexpected searchbymac response: ${parsed.issues}`);
+    }
+    return parsed.value[0] ?? null;
+  }
+
+  return async function proxyRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    path: string
+  ): Promise<void> {
+    const timestamp = new Date().toISOString();
+    const startedAt = performance.now();
+    const route = routeLabel(path);
+    const method = req.method || 'GET';
+    const incomingId = req.headers[REQUEST_ID_HEADER.toLowerCase()];
+    const requestId = isValidRequestId(incomingId) ? incomingId : createRequestId();
+    const prefix = `[${timestamp}] [PROXY] ${requestTag(requestId)}`;
+    const idHeader = { [REQUEST_ID_HEADER]: requestId };
+
+    const reject = (status: number, error: string, headers?: Record<string, string>) => {
+      logger.log(`${prefix} Rejected ${method} ${path}: ${status} ${error}`);
+      metrics?.proxyRejected.inc({ route, status: String(status) });
+      sendJson(res, status, { error }, { ...headers, ...idHeader });
+    };
+
+    const match = matchLdapRoute(method, path);
+    if (!match.ok) {
+      reject(match.status, match.error, match.headers);
+      return;
+    }
+
+    // Collect and validate the request body for routes that take one
+    let requestBody: string | undefined;
+    if (match.route.bodySchema) {
+      try {
+        requestBody = await readBody(req, maxBodyBytes);
+      } catch (error) {
+        if (error instanceof PayloadTooLargeError) {
+          reject(413, error.message);
+          return;
+        }
+        throw error;
+      }
+      const bodyError = validateRouteBody(match.route, requestBody);
+      if (bodyError) {
+        reject(400, bodyError);
+        return;
+      }
+    }
+
+    // Technicians outside the update groups may not change the values of an
+    // already-provisioned MAC. Deprovisioning is refused outright, since a
+    // fresh provision could follow it. The proxy searches for the MAC itself
+    // before forwarding their addhsd, and refuses the call when it cannot tell.
+    const identity = requestIdentity(req);
+    if (route === 'deletehsd' && identity && !identity.canUpdate) {
+      reject(403, 'Your account is not permitted to deprovision a meter');
+      return;
+    }
+    if (route === 'addhsd' && requestBody && identity && !identity.canUpdate) {
+      const request = JSON.parse(requestBody) as MeterValues & { mac: string };
+      let current: SearchRecord | null;
+      try {
+        current = await searchRecord(request.mac, idHeader);
+      } catch (error) {
+        const errMsg = error instanceof Error ? error.message : 'Unknown search error';
+        logger.error(`${prefix} Update check for ${request.mac} failed: ${errMsg}`);
+        reject(503, `Could not check whether ${request.mac} is already provisioned; nothing was changed`, {
+          [NOT_SENT_HEADER]: 'true',
+        });
+        return;
+      }
+      auditLog?.noteSearch(request.mac, current ? [current] : []);
+      const changed = changedFields(current, request);
+      if (changed.length > 0) {
+        reject(403, `Your account is not permitted to change an already-provisioned meter (${changed.join(', ')})`);
+        return;
+      }
+    }
+
+    const targetUrl = `${ldapApiUrl}${match.pathname}`;
+    logger.log(`${prefix} ${method} ${path} -> ${targetUrl}`);
+
+    const recordOutcome = (status: number) => {
+      metrics?.proxyRequests.inc({ route, method, status: String(status) });
+      metrics?.proxyDuration.observe({ route }, (performance.now() - startedAt) / 1000);
+    };
+
+    // Written before the response is sent so a provision is never reported
+    // to the technician without its audit record; a failed write is logged
+    // rather than failing the provision, which has already happened upstream.
+    // Outcome and classification are judged from the response the browser
+    // receives, the same way provisioningApi.addHsd does.
+    const recordAudit = async (
+      upstreamStatus: number | null,
+      responseStatus: number,
+      responseBody: string,
+      error?: string
+    ) => {
+      if (!auditLog || route !== 'addhsd' || !requestBody) return;
+      const ok = responseStatus >= 200 && responseStatus < 300;
+      const classifiedError = ok
+        ? undefined
+        : await createErrorFromResponse(new Response(responseBody, { status: responseStatus }), {
+            type: 'provision',
+            requestId,
+          });
+      const { mac, account, isp, configfile } = JSON.parse(requestBody) as Record<string, string>;
+      const previousRecord = auditLog.previousRecordFor(mac);
+      const outcome = ok && provisionSucceeded(responseBody) ? 'success' : 'failure';
+      if (outcome === 'success') {
+        // What a following provision of the MAC, such as a revert, replaces
+        auditLog.noteSearch(mac, { ...((previousRecord ?? {}) as object), mac, account, isp, configfile });
+      }
+      await auditLog
+        .append({
+          timestamp,
+          user: identity && { sub: identity.technician.sub, name: identity.technician.name },
+          sessionId: identity?.sessionId,
+          clientIp: clientIp(req),
+          requestId,
+          mac,
+          account,
+          isp,
+          configfile,
+          previousRecord,
+          upstreamStatus,
+          outcome,
+          durationMs: Math.round(performance.now() - startedAt),
+          error,
+          classifiedError,
+        })
+        .catch((writeError) => {
+          logger.error(`[${timestamp}] [AUDIT] ${requestTag(requestId)} Failed to record addhsd for ${mac}:`, writeError);
+        });
+    };
+
+    try {
+      const response = await fetchImpl(targetUrl, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          ...idHeader,
+        },
+        body: requestBody,
+        signal: AbortSignal.timeout(upstreamTimeout),
+      });
+
+      const data = await response.text();
+      logger.log(`${prefix} Response: ${response.status} (${data.length} bytes)`);
+      recordOutcome(response.status);
+      await recordAudit(response.status, response.status, data, response.ok ? undefined : data.slice(0, 500));
+      if (auditLog && route === 'searchbymac' && match.mac && response.ok) {
+        try {
+          const results = JSON.parse(data);
+          const parsed = parseSearchResponse(results);
+          auditLog.noteSearch(match.mac, parsed.ok ? parsed.value : results);
+        } catch {
+          // Unparseable search results are simply not remembered
+        }
+      }
+      if (auditLog && route === 'deletehsd' && match.mac && response.ok) {
+        auditLog.noteSearch(match.mac, []);
+      }
+
+      // Forward response headers and body; Retry-After lets the client back off
+      const headers: Record<string, string> = {
+        'Content-Type': response.headers.get('Content-Type') || 'application/json',
+        ...idHeader,
+      };
+      const retryAfter = response.headers.get('Retry-After');
+      if (retryAfter) headers['Retry-After'] = retryAfter;
+      res.writeHead(response.status, headers);
+      res.end(data);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : 'Unknown proxy error';
+      logger.error(`${prefix} Error: ${errMsg}`);
+      recordOutcome(502);
+      metrics?.proxyErrors.inc({ route });
+      const body = {
+        error: 'Proxy error',
+        message: errMsg,
+        target: targetUrl,
+      };
+      await recordAudit(null, 502, JSON.stringify(body), errMsg);
+      sendJson(res, 502, body, isConnectError(error) ? { ...idHeader, [NOT_SENT_HEADER]: 'true' } : idHeader);
+    }
+  };
+}
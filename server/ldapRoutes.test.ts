@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { LDAP_ROUTES, matchLdapRoute, validateRouteBody } from './ldapRoutes';
+
+const addhsd = LDAP_ROUTES.find((route) => route.method === 'POST')!;
+
+describe('matchLdapRoute', () => {
+  it('matches allowlisted routes with a valid MAC', () => {
+    const match = matchLdapRoute('GET', '/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF');
+    expect(match).toMatchObject({ ok: true, pathname: '/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF' });
+    expect(matchLdapRoute('DELETE', '/deletehsd/AA:BB:CC:DD:EE:FF').ok).toBe(true);
+    expect(matchLdapRoute('POST', '/addhsd').ok).toBe(true);
+  });
+
+  it('strips the query string from the forwarded path', () => {
+    const match = matchLdapRoute('POST', '/addhsd?debug=1');
+    expect(match.ok && match.pathname).toBe('/addhsd');
+  });
+
+  it('returns 403 for paths outside the route table', () => {
+    expect(matchLdapRoute('GET', '')).toMatchObject({ ok: false, status: 403, error: 'Route not allowed: /' });
+    expect(matchLdapRoute('GET', '/searchbymac/AA:BB/extra')).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it('returns 405 with the allowed methods for a known path', () => {
+    expect(matchLdapRoute('GET', '/addhsd')).toEqual({
+      ok: false,
+      status: 405,
+      error: 'Method GET not allowed for /addhsd',
+      headers: { Allow: 'POST' },
+    });
+  });
+
+  it('applies validateMacFormat rules to the MAC path parameter', () => {
+    expect(matchLdapRoute('GET', '/searchbymac/aa:bb:cc:dd:ee:ff')).toMatchObject({ ok: false, status: 400 });
+    expect(matchLdapRoute('GET', '/searchbymac/AABBCCDDEEFF')).toMatchObject({ ok: false, status: 400 });
+    expect(matchLdapRoute('GET', '/searchbymac/%E0%A4%A')).toMatchObject({ ok: false, status: 400 });
+  });
+});
+
+describe('validateRouteBody', () => {
+  const body = { mac: 'AA:BB:CC:DD:EE:FF', account: 'a', configfile: 'c', isp: 'i' };
+
+  it('accepts a complete ProvisionRequest', () => {
+    expect(validateRouteBody(addhsd, JSON.stringify(body))).toBeNull();
+  });
+
+  it('names the offending field', () => {
+    expect(validateRouteBody(addhsd, JSON.stringify({ ...body, account: '' }))).toMatch(/^Invalid request body: account:/);
+  });
+
+  it('skips routes without a body schema', () => {
+    const search = LDAP_ROUTES.find((route) => route.method === 'GET')!;
+    expect(validateRouteBody(search, 'anything')).toBeNull();
+  });
+});
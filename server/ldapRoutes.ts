@@ -0,0 +1,111 @@
+/**
+ * Allowlist of LDAP API operations the proxy will forward. Anything not in
+ * this table is rejected before it reaches the backend.
+ */
+
+import { z } from 'zod';
+import { validateMacFormat } from '../src/utils/macUtils';
+
+/** Largest request body the proxy will read */
+export const MAX_BODY_BYTES = 16 * 1024;
+
+const macSchema = z.string().refine(validateMacFormat, {
+  message: 'MAC must be uppercase and colon-separated (AA:BB:CC:DD:EE:FF)',
+});
+
+/** Body of POST /addhsd, mirroring `ProvisionRequest` */
+export const provisionRequestSchema = z
+  .object({
+    mac: macSchema,
+    account: z.string().min(1),
+    configfile: z.string().min(1),
+    isp: z.string().min(1),
+  })
+  .strict();
+
+export interface LdapRoute {
+  method: 'GET' | 'POST' | 'DELETE';
+  /** Matches the path below /api/ldap; a capture group holds the MAC */
+  pattern: RegExp;
+  /** Schema for the JSON body, for routes that take one */
+  bodySchema?: z.ZodTypeAny;
+}
+
+export const LDAP_ROUTES: LdapRoute[] = [
+  { method: 'GET', pattern: /^\/searchbymac\/([^/]+)$/ },
+  { method: 'POST', pattern: /^\/addhsd$/, bodySchema: provisionRequestSchema },
+  { method: 'DELETE', pattern: /^\/deletehsd\/([^/]+)$/ },
+];
+
+export type RouteMatch =
+  | {
+      ok: true;
+      route: LdapRoute;
+      pathname: string;
+      /** Decoded MAC path parameter, for routes that take one */
+      mac?: string;
+    }
+  | { ok: false; status: number; error: string; headers?: Record<string, string> };
+
+/**
+ * Resolve a request against the route table and validate its MAC path
+ * parameter. Query strings are dropped; no LDAP route takes one.
+ */
+export function matchLdapRoute(method: string, path: string): RouteMatch {
+  const pathname = path.split('?')[0];
+  const candidates = LDAP_ROUTES.filter((route) => route.pattern.test(pathname));
+
+  if (candidates.length === 0) {
+    return { ok: false, status: 403, error: `Route not allowed: ${pathname || '/'}` };
+  }
+
+  const route = candidates.find((candidate) => candidate.method === method);
+  if (!route) {
+    const allowed = candidates.map((candidate) => candidate.method).join(', ');
+    return {
+      ok: false,
+      status: 405,
+      error: `Method ${method} not allowed for ${pathname}`,
+      headers: { Allow: allowed },
+    };
+  }
+
+  const rawMac = route.pattern.exec(pathname)?.[1];
+  let mac: string | undefined;
+  if (rawMac !== undefined) {
+    try {
+      mac = decodeURIComponent(rawMac);
+    } catch {
+      mac = rawMac;
+    }
+    const result = macSchema.safeParse(mac);
+    if (!result.success) {
+      return { ok: false, status: 400, error: `Invalid MAC address: ${result.error.issues[0].message}` };
+    }
+  }
+
+  return { ok: true, route, pathname, mac };
+}
+
+/**
+ * Validate a JSON request body against the route's schema. Returns an error
+ * message, or null if the body is acceptable.
+ */
+export function validateRouteBody(route: LdapRoute, body: string): string | null {
+  if (!route.bodySchema) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return 'Request body must be valid JSON';
+  }
+
+  const result = route.bodySchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join('.') || 'body';
+    return `Invalid request body: ${field}: ${issue.message}`;
+  }
+  return null;
+}
@@ -0,0 +1,39 @@
+/**
+ * Frontend logging endpoint. Browser log entries posted by `serverLogger`
+ * are written to stdout so they end up in the pod logs, tagged with the
+ * entry's request ID when it has one.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { readBody, requestTag, sendJson, ServerLogger } from './http';
+import type { MetricsRegistry } from './metrics';
+import { isValidRequestId } from '../src/utils/requestId';
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+
+export interface LogEntry {
+  level?: string;
+  message?: string;
+  data?: unknown;
+  requestId?: unknown;
+}
+
+export function createLogEndpoint(logger: ServerLogger = console, metrics?: MetricsRegistry) {
+  return async function handleLog(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = await readBody(req);
+    try {
+      const log = JSON.parse(body) as LogEntry;
+      const timestamp = new Date().toISOString();
+      const level = (log.level || 'info').toUpperCase();
+      const data = log.data ? JSON.stringify(log.data) : '';
+      const tag = isValidRequestId(log.requestId) ? `${requestTag(log.requestId)} ` : '';
+      logger.log(`[${timestamp}] [${level}] ${tag}${log.message || ''} ${data}`);
+      const levelLabel = level.toLowerCase();
+      metrics?.logEntries.inc({ level: LOG_LEVELS.includes(levelLabel) ? levelLabel : 'other' });
+    } catch {
+      logger.log(`[LOG] ${body}`);
+      metrics?.logEntries.inc({ level: 'unparsed' });
+    }
+    sendJson(res, 200, { success: true });
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Production entry point. Built with `npm run build:server` and started with
+ * `npm start` (or `node dist-server/main.js` in the container).
+ */
+
+import path from 'path';
+import { startAppServer } from './app';
+import { authOptionsFromEnv } from './auth';
+import { AuditLog } from './auditLog';
+import { ConfigStore } from './configStore';
+import { runtimeConfigFromEnv } from '../src/utils/runtimeConfig';
+
+// LDAP API backend URL for CORS proxy - configurable via env var for OpenShift
+const LDAP_API_URL = process.env.LDAP_API_URL || 'https://ldap-api.apps.prod-ocp4.corp.cableone.net';
+const PORT = Number(process.env.PORT) || 8080;
+const HOST = process.env.HOST || '0.0.0.0';
+const DIST_DIR = process.env.DIST_DIR || path.resolve(process.cwd(), 'dist');
+const SHUTDOWN_TIMEOUT = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 10000;
+const AUTH = authOptionsFromEnv();
+const AUDIT_LOG_DIR = process.env.AUDIT_LOG_DIR;
+const CONFIG_STORE_DIR = process.env.CONFIG_STORE_DIR;
+// Served to the browser app at /api/config; invalid values stop startup
+const RUNTIME_CONFIG = runtimeConfigFromEnv(process.env);
+
+// Fail closed: running without sign-in must be an explicit choice
+if (!AUTH && process.env.AUTH_DISABLED !== 'true') {
+  console.error(`[${new Date().toISOString()}] [SERVER] OIDC_ISSUER_URL is not set; set AUTH_DISABLED=true to run without technician sign-in`);
+  process.exit(1);
+}
+
+const { url, shutdown } = await startAppServer({
+  ldapApiUrl: LDAP_API_URL,
+  distDir: DIST_DIR,
+  port: PORT,
+  host: HOST,
+  shutdownTimeout: SHUTDOWN_TIMEOUT,
+  auth: AUTH ?? undefined,
+  runtimeConfig: RUNTIME_CONFIG,
+  auditLog: AUDIT_LOG_DIR
+    ? new AuditLog({
+        dir: AUDIT_LOG_DIR,
+        maxFileBytes: Number(process.env.AUDIT_LOG_MAX_BYTES) || undefined,
+        maxFiles: Number(process.env.AUDIT_LOG_MAX_FILES) || undefined,
+      })
+    : undefined,
+  configStore: CONFIG_STORE_DIR
+    ? new ConfigStore({ dir: CONFIG_STORE_DIR, bundledDir: path.join(DIST_DIR, 'config') })
+    : undefined,
+  configAdminWithoutSignIn: process.env.CONFIG_ADMIN_WITHOUT_SIGN_IN === 'true',
+  metricsToken: process.env.METRICS_TOKEN || undefined,
+});
+
+console.log(`[${new Date().toISOString()}] [SERVER] Listening on ${url} (dist: ${DIST_DIR}, LDAP API: ${LDAP_API_URL}, auth: ${AUTH ? AUTH.issuerUrl : 'disabled'}, audit log: ${AUDIT_LOG_DIR ?? 'disabled'}, config store: ${CONFIG_STORE_DIR ?? 'disabled'}, stub API: ${RUNTIME_CONFIG.useStubApi}, region: ${RUNTIME_CONFIG.region ?? 'none'})`);
+
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, () => {
+    console.log(`[${new Date().toISOString()}] [SERVER] Received ${signal}`);
+    shutdown().then(() => process.exit(0));
+  });
+}
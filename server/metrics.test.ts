@@ -0,0 +1,140 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { createApiMiddleware } from './index';
+import { Counter, Histogram, MetricsRegistry, routeLabel } from './metrics';
+import { silentLogger, startMiddleware, startStubUpstream, TestServer } from './test/utils';
+
+describe('metrics', () => {
+  describe('routeLabel', () => {
+    it('labels known LDAP API routes and collapses the rest', () => {
+      expect(routeLabel('/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF')).toBe('searchbymac');
+      expect(routeLabel('/addhsd')).toBe('addhsd');
+      expect(routeLabel('/addhsd?x=1')).toBe('addhsd');
+      expect(routeLabel('/docs')).toBe('other');
+      expect(routeLabel('')).toBe('other');
+    });
+  });
+
+  describe('exposition format', () => {
+    it('renders counters with labels', () => {
+      const counter = new Counter('things_total', 'Things.');
+      counter.inc({ kind: 'a' });
+      counter.inc({ kind: 'a' });
+      counter.inc({ kind: 'b"q' });
+
+      expect(counter.render()).toBe(
+        [
+          '# HELP things_total Things.',
+          '# TYPE things_total counter',
+          'things_total{kind="a"} 2',
+          'things_total{kind="b\\"q"} 1',
+        ].join('\n')
+      );
+    });
+
+    it('renders cumulative histogram buckets', () => {
+      const histogram = new Histogram('latency_seconds', 'Latency.', [0.1, 1]);
+      histogram.observe({ route: 'x' }, 0.05);
+      histogram.observe({ route: 'x' }, 0.5);
+      histogram.observe({ route: 'x' }, 5);
+
+      const output = histogram.render();
+      expect(output).toContain('latency_seconds_bucket{route="x",le="0.1"} 1');
+      expect(output).toContain('latency_seconds_bucket{route="x",le="1"} 2');
+      expect(output).toContain('latency_seconds_bucket{route="x",le="+Inf"} 3');
+      expect(output).toContain('latency_seconds_count{route="x"} 3');
+    });
+  });
+
+  describe('/metrics endpoint', () => {
+    let app: TestServer;
+
+    afterEach(async () => {
+      await app?.close();
+    });
+
+    it('counts proxied requests by route and upstream status', async () => {
+      const upstream = await startStubUpstream((req, res) => {
+        res.writeHead(req.url === '/addhsd' ? 500 : 200, { 'Content-Type': 'application/json' });
+        res.end('true');
+      });
+      const metrics = new MetricsRegistry();
+      app = await startMiddleware(
+        createApiMiddleware({ ldapApiUrl: upstream.url, metrics, logger: silentLogger })
+      );
+
+      await fetch(`${app.url}/api/ldap/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF`);
+      await fetch(`${app.url}/api/ldap/searchbymac/00%3A11%3A22%3A33%3A44%3A55`);
+      await fetch(`${app.url}/api/ldap/addhsd`, {
+        method: 'POST',
+        body: JSON.stringify({ mac: 'AA:BB:CC:DD:EE:FF', account: 'a', configfile: 'c', isp: 'i' }),
+      });
+
+      expect(metrics.proxyRequests.get({ route: 'searchbymac', method: 'GET', status: '200' })).toBe(2);
+      expect(metrics.proxyRequests.get({ route: 'addhsd', method: 'POST', status: '500' })).toBe(1);
+
+      const response = await fetch(`${app.url}/metrics`);
+      const body = await response.text();
+      expect(response.headers.get('Content-Type')).toContain('text/plain; version=0.0.4');
+      expect(body).toContain('ldap_proxy_requests_total{route="searchbymac",method="GET",status="200"} 2');
+      expect(body).toContain('ldap_proxy_request_duration_seconds_count{route="addhsd"} 1');
+      await upstream.close();
+    });
+
+    it('requires the metrics token when one is set', async () => {
+      app = await startMiddleware(
+        createApiMiddleware({ ldapApiUrl: 'http://127.0.0.1:1', metricsToken: 'scrape-token', logger: silentLogger })
+      );
+
+      const refused = await fetch(`${app.url}/metrics`);
+      expect(refused.status).toBe(401);
+      expect(refused.headers.get('WWW-Authenticate')).toBe('Bearer');
+      expect(
+        (await fetch(`${app.url}/metrics`, { headers: { Authorization: 'Bearer scrape-token' } })).status
+      ).toBe(200);
+    });
+
+    it('counts proxy 502s separately', async () => {
+      const metrics = new MetricsRegistry();
+      app = await startMiddleware(
+        createApiMiddleware({ ldapApiUrl: 'http://127.0.0.1:1', metrics, logger: silentLogger })
+      );
+
+      await fetch(`${app.url}/api/ldap/searchbymac/AA%3ABB%3ACC%3ADD%3AEE%3AFF`);
+
+      expect(metrics.proxyErrors.get({ route: 'searchbymac' })).toBe(1);
+      expect(metrics.proxyRequests.get({ route: 'searchbymac', method: 'GET', status: '502' })).toBe(1);
+    });
+
+    it('counts requests refused by the allowlist', async () => {
+      const metrics = new MetricsRegistry();
+      app = await startMiddleware(
+        createApiMiddleware({ ldapApiUrl: 'http://127.0.0.1:1', metrics, logger: silentLogger })
+      );
+
+      await fetch(`${app.url}/api/ldap/docs`);
+      await fetch(`${app.url}/api/ldap/searchbymac/not-a-mac`);
+
+      expect(metrics.proxyRejected.get({ route: 'other', status: '403' })).toBe(1);
+      expect(metrics.proxyRejected.get({ route: 'searchbymac', status: '400' })).toBe(1);
+      expect(metrics.proxyRequests.get({ route: 'searchbymac', method: 'GET', status: '400' })).toBe(0);
+    });
+
+    it('counts /api/log entries by level', async () => {
+      const metrics = new MetricsRegistry();
+      app = await startMiddleware(
+        createApiMiddleware({ ldapApiUrl: 'http://unused', metrics, logger: silentLogger })
+      );
+
+      const post = (body: string) => fetch(`${app.url}/api/log`, { method: 'POST', body });
+      await post(JSON.stringify({ level: 'error', message: 'a' }));
+      await post(JSON.stringify({ level: 'error', message: 'b' }));
+      await post(JSON.stringify({ message: 'no level' }));
+      await post('not json');
+
+      expect(metrics.logEntries.get({ level: 'error' })).toBe(2);
+      expect(metrics.logEntries.get({ level: 'info' })).toBe(1);
+      expect(metrics.logEntries.get({ level: 'unparsed' })).toBe(1);
+    });
+  });
+});
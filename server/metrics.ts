@@ -0,0 +1,136 @@
+/**
+ * Minimal Prometheus metrics for proxy traffic and frontend log volume,
+ * exposed in the text exposition format on /metrics.
+ */
+
+type Labels = Record<string, string>;
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort());
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+interface Metric {
+  render(): string;
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index] += 1;
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.series.set(key, entry);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/** LDAP API operations we label separately; anything else is `other` */
+const KNOWN_ROUTES = ['searchbymac', 'addhsd', 'deletehsd'];
+
+/**
+ * Route label for a path below /api/ldap, e.g. `/searchbymac/AA%3ABB` -> `searchbymac`.
+ * Keeps label cardinality bounded regardless of the MACs requested.
+ */
+export function routeLabel(path: string): string {
+  const segment = path.split(/[/?]/).find(Boolean)?.toLowerCase() ?? '';
+  return KNOWN_ROUTES.includes(segment) ? segment : 'other';
+}
+
+export class MetricsRegistry {
+  readonly proxyRequests = new Counter(
+    'ldap_proxy_requests_total',
+    'Requests forwarded to the LDAP API, by route, method and upstream status code.'
+  );
+  readonly proxyDuration = new Histogram(
+    'ldap_proxy_request_duration_seconds',
+    'Latency of LDAP API requests through the proxy, by route.',
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+  );
+  readonly proxyErrors = new Counter(
+    'ldap_proxy_errors_total',
+    'Proxy requests that failed to reach the LDAP API and returned 502, by route.'
+  );
+  readonly proxyRejected = new Counter(
+    'ldap_proxy_rejected_total',
+    'Proxy requests refused by the route allowlist or validation, by route and status code.'
+  );
+  readonly logEntries = new Counter(
+    'frontend_log_entries_total',
+    'Entries received on /api/log, by level.'
+  );
+
+  private readonly metrics: Metric[] = [
+    this.proxyRequests,
+    this.proxyDuration,
+    this.proxyErrors,
+    this.proxyRejected,
+    this.logEntries,
+  ];
+
+  render(): string {
+    return `${this.metrics.map((metric) => metric.render()).join('\n')}\n`;
+  }
+}
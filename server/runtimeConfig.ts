@@ -0,0 +1,16 @@
+/**
+ * Runtime configuration endpoint. Serves the deployment settings built from
+ * the server's environment at startup, which the browser app loads before it
+ * renders (see src/services/runtimeConfig.ts).
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { sendJson } from './http';
+import type { RuntimeConfig } from '../src/utils/runtimeConfig';
+
+export function createRuntimeConfigEndpoint(config: RuntimeConfig) {
+  return function handleRuntimeConfig(_req: IncomingMessage, res: ServerResponse): void {
+    // Always fetched fresh, so a redeploy with new settings takes effect on the next load
+    sendJson(res, 200, config, { 'Cache-Control': 'no-store' });
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Static file serving for the built SPA in dist/, with cache headers suited to
+ * Vite's hashed asset names and an index.html fallback for client-side routes.
+ */
+
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import path from 'path';
+import type { Middleware } from './http';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.ico': 'image/x-icon',
+  '.webp': 'image/webp',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+};
+
+/** Hashed build output never changes under the same name */
+const IMMUTABLE_CACHE = 'public, max-age=31536000, immutable';
+/** Everything else (index.html, config JSON, favicon) must be revalidated */
+const REVALIDATE_CACHE = 'no-cache';
+
+export interface StaticFilesOptions {
+  /** Directory containing the Vite build output */
+  root: string;
+  /** File served for unknown paths so client-side routes work on reload */
+  fallback?: string;
+}
+
+async function findFile(filePath: string) {
+  try {
+    const stats = await stat(filePath);
+    return stats.isFile() ? stats : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createStaticFiles(options: StaticFilesOptions): Middleware {
+  const root = path.resolve(options.root);
+  const fallback = options.fallback ?? 'index.html';
+
+  return (req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      next();
+      return;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Bad request');
+      return;
+    }
+
+    const filePath = path.join(root, pathname);
+    if (filePath !== root && !filePath.startsWith(`${root}${path.sep}`)) {
+      res.writeHead(403, { 'Content-Type': 'text/plain' });
+      res.end('Forbidden');
+      return;
+    }
+
+    const serve = async () => {
+      let resolved = filePath;
+      let stats = await findFile(resolved);
+
+      // SPA fallback for client-side routes, but not for missing assets
+      if (!stats && !path.extname(pathname)) {
+        resolved = path.join(root, fallback);
+        stats = await findFile(resolved);
+      }
+
+      if (!stats) {
+        next();
+        return;
+      }
+
+      const isHashedAsset = pathname.startsWith('/assets/');
+      res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(resolved)] || 'application/octet-stream',
+        'Content-Length': stats.size,
+        'Cache-Control': isHashedAsset ? IMMUTABLE_CACHE : REVALIDATE_CACHE,
+        'Last-Modified': stats.mtime.toUTCString(),
+      });
+
+      if (req.method === 'HEAD') {
+        res.end();
+        return;
+      }
+      createReadStream(resolved).on('error', next).pipe(res);
+    };
+
+    serve().catch(next);
+  };
+}
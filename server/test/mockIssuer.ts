@@ -0,0 +1,105 @@
+/**
+ * Minimal OIDC issuer for tests: discovery, an authorize endpoint that signs
+ * the configured user in immediately, token exchange with PKCE checks, and
+ * userinfo.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { readBody } from '../http';
+import { startServer } from './utils';
+
+export interface MockIssuerUser {
+  sub: string;
+  name?: string;
+  email?: string;
+  groups?: string[];
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+}
+
+export async function startMockIssuer(options: { clientId: string; clientSecret: string; user: MockIssuerUser }) {
+  const codes = new Map<string, PendingCode>();
+  const tokens = new Map<string, MockIssuerUser>();
+  let user = options.user;
+  let baseUrl = '';
+
+  const server = await startServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', baseUrl);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      json(200, {
+        issuer: baseUrl,
+        authorization_endpoint: `${baseUrl}/authorize`,
+        token_endpoint: `${baseUrl}/token`,
+        userinfo_endpoint: `${baseUrl}/userinfo`,
+        end_session_endpoint: `${baseUrl}/logout`,
+      });
+      return;
+    }
+
+    if (url.pathname === '/authorize') {
+      const redirectUri = url.searchParams.get('redirect_uri') ?? '';
+      const code = randomBytes(8).toString('hex');
+      codes.set(code, {
+        clientId: url.searchParams.get('client_id') ?? '',
+        redirectUri,
+        codeChallenge: url.searchParams.get('code_challenge') ?? '',
+      });
+      const callback = new URL(redirectUri);
+      callback.searchParams.set('code', code);
+      callback.searchParams.set('state', url.searchParams.get('state') ?? '');
+      res.writeHead(302, { Location: callback.toString() });
+      res.end();
+      return;
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      const form = new URLSearchParams(await readBody(req));
+      const pending = codes.get(form.get('code') ?? '');
+      codes.delete(form.get('code') ?? '');
+      const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+      if (
+        !pending ||
+        form.get('client_id') !== options.clientId ||
+        form.get('client_secret') !== options.clientSecret ||
+        form.get('redirect_uri') !== pending.redirectUri ||
+        challenge !== pending.codeChallenge
+      ) {
+        json(400, { error: 'invalid_grant' });
+        return;
+      }
+      const accessToken = randomBytes(16).toString('hex');
+      tokens.set(accessToken, user);
+      json(200, { access_token: accessToken, token_type: 'Bearer', expires_in: 300 });
+      return;
+    }
+
+    if (url.pathname === '/userinfo') {
+      const token = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+      const claims = tokens.get(token);
+      if (!claims) {
+        json(401, { error: 'invalid_token' });
+        return;
+      }
+      json(200, claims);
+      return;
+    }
+
+    json(404, { error: 'not_found' });
+  });
+  baseUrl = server.url;
+
+  return {
+    ...server,
+    /** Change who the next sign-in authenticates as */
+    setUser: (next: MockIssuerUser) => { user = next; },
+  };
+}
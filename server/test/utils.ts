@@ -0,0 +1,72 @@
+/**
+ * Helpers for exercising server handlers over real HTTP in tests.
+ */
+
+import http, { IncomingMessage, RequestListener, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { Middleware } from '../http';
+
+export interface TestServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start an HTTP server on a random local port
+ */
+export function startServer(listener: RequestListener): Promise<TestServer> {
+  const server = http.createServer(listener);
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () =>
+          new Promise<void>((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+/**
+ * Mount a middleware on a server, answering 404 for anything it passes on
+ */
+export function startMiddleware(middleware: Middleware): Promise<TestServer> {
+  return startServer((req, res) => {
+    middleware(req, res, (error?: unknown) => {
+      res.writeHead(error ? 500 : 404, { 'Content-Type': 'text/plain' });
+      res.end(error ? 'Middleware error' : 'Not handled');
+    });
+  });
+}
+
+export interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+export type StubRoute = (req: RecordedRequest, res: ServerResponse) => void;
+
+/**
+ * Start a stub upstream that records every request and answers with `route`
+ */
+export async function startStubUpstream(route: StubRoute) {
+  const requests: RecordedRequest[] = [];
+  const server = await startServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+    req.on('end', () => {
+      const recorded = { method: req.method, url: req.url, headers: req.headers, body };
+      requests.push(recorded);
+      route(recorded, res);
+    });
+  });
+  return { ...server, requests };
+}
+
+export const silentLogger = { log: () => {}, error: () => {} };
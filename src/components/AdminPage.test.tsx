@@ -0,0 +1,101 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AdminPage } from './AdminPage';
+import type { AdminConfigFile, ConfigChange } from '@/services/configAdminApi';
+
+vi.mock('@/services/configAdminApi', () => ({
+  fetchAdminConfig: vi.fn(),
+  fetchConfigHistory: vi.fn(),
+  saveAdminConfig: vi.fn(),
+}));
+
+import { fetchAdminConfig, fetchConfigHistory, saveAdminConfig } from '@/services/configAdminApi';
+
+const ouis: AdminConfigFile = {
+  file: 'approved-ouis.json',
+  config: { version: '2026-10-01', entries: [{ vendor: 'VIAVI', prefix: '000711' }] },
+  version: '2026-10-01',
+  source: 'bundled',
+};
+
+const profiles: AdminConfigFile = {
+  file: 'provision-defaults.json',
+  config: {
+    version: '2026-10-01',
+    defaultProfile: 'standard',
+    profiles: [{ id: 'standard', name: 'Standard', account: 'acct', isp: 'isp', configfile: 'r-2000-1000' }],
+    rules: [],
+  },
+  version: '2026-10-01',
+  source: 'bundled',
+};
+
+const change: ConfigChange = {
+  timestamp: '2026-10-19T09:00:00.000Z',
+  user: { sub: 'admin-1', name: 'Alex Admin' },
+  file: 'approved-ouis.json',
+  previousVersion: '2026-10-01',
+  version: '2026-10-19',
+  comment: 'New meter line',
+  changes: ['Added 0028302 (MA-M): VIAVI ONX-630'],
+};
+
+describe('AdminPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // TechnicianMenu: sign-in not enforced
+    global.fetch = vi.fn(async () => new Response('<!doctype html>', { status: 200 }));
+    vi.mocked(fetchAdminConfig).mockResolvedValue([ouis, profiles]);
+    vi.mocked(fetchConfigHistory).mockResolvedValue([]);
+  });
+
+  it('adds an OUI, previews the change and saves it against the loaded version', async () => {
+    vi.mocked(saveAdminConfig).mockResolvedValue({
+      file: { ...ouis, version: '2026-10-19', source: 'store' },
+      change,
+    });
+    const user = userEvent.setup();
+    render(<AdminPage />, { wrapper: MemoryRouter });
+
+    expect(await screen.findByText('000711 (MA-L)')).toBeInTheDocument();
+    expect(screen.getByText('No unsaved changes.')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Prefix'), '00:28:30:2');
+    await user.type(screen.getByLabelText('Vendor'), 'VIAVI');
+    await user.type(screen.getByLabelText('Model'), 'ONX-630');
+    await user.click(screen.getByRole('button', { name: 'Add OUI' }));
+
+    expect(screen.getByText('Added 0028302 (MA-M): VIAVI ONX-630')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Comment'), 'New meter line');
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() =>
+      expect(saveAdminConfig).toHaveBeenCalledWith('approved-ouis.json', {
+        config: {
+          entries: [
+            { vendor: 'VIAVI', prefix: '000711' },
+            { vendor: 'VIAVI', model: 'ONX-630', prefix: '0028302' },
+          ],
+        },
+        baseVersion: '2026-10-01',
+        comment: 'New meter line',
+      })
+    );
+    expect(await screen.findByText('2026-10-19')).toBeInTheDocument();
+  });
+
+  it('explains why a new OUI is refused', async () => {
+    const user = userEvent.setup();
+    render(<AdminPage />, { wrapper: MemoryRouter });
+    await screen.findByText('000711 (MA-L)');
+
+    await user.type(screen.getByLabelText('Prefix'), '0007');
+    await user.type(screen.getByLabelText('Vendor'), 'VIAVI');
+    await user.click(screen.getByRole('button', { name: 'Add OUI' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('prefix: must be 6, 7 or 9 hex digits');
+  });
+});
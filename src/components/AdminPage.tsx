@@ -0,0 +1,505 @@
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ErrorDisplay } from './ErrorDisplay';
+import { TechnicianMenu } from './TechnicianMenu';
+import {
+  AdminConfigFile,
+  ConfigChange,
+  fetchAdminConfig,
+  fetchConfigHistory,
+  saveAdminConfig,
+} from '@/services/configAdminApi';
+import { describeConfigChanges, EditableConfigFile, parseConfigFile } from '@/utils/configFiles';
+import { describeBlock, OuiRegistryEntry, parseOuiRegistry } from '@/utils/ouiRegistry';
+import { classifyError, ClassifiedError } from '@/utils/errorUtils';
+import { Loader2, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import viaviLogo from '@/assets/viavi-logo.png';
+
+const FILE_TITLES: Record<EditableConfigFile, string> = {
+  'approved-ouis.json': 'Approved OUIs',
+  'provision-defaults.json': 'Provisioning Profiles',
+};
+
+const toClassified = (err: unknown) =>
+  (err as { classifiedError?: ClassifiedError }).classifiedError ?? classifyError(err as Error, { type: 'admin' });
+
+/** The file's contents without `version`, which the server sets on save */
+function withoutVersion(config: unknown): Record<string, unknown> {
+  const { version: _version, ...rest } = (config ?? {}) as Record<string, unknown>;
+  return rest;
+}
+
+function FileVersion({ stored }: { stored: AdminConfigFile }) {
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      Version <code className="font-mono">{stored.version ?? 'unversioned'}</code>
+      <Badge variant="outline">{stored.source === 'store' ? 'Edited here' : 'Bundled with the app'}</Badge>
+    </div>
+  );
+}
+
+interface SaveChangesProps {
+  stored: AdminConfigFile;
+  /** The edited contents, or why they cannot be saved */
+  draft: { config: unknown } | { error: string };
+  onSaved: (file: AdminConfigFile, change: ConfigChange) => void;
+}
+
+/**
+ * What the edit changes, validated as the server will validate it, with a
+ * comment for the history and the save button
+ */
+function SaveChanges({ stored, draft, onSaved }: SaveChangesProps) {
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<ClassifiedError | null>(null);
+
+  const preview = useMemo(() => {
+    if ('error' in draft) return { error: draft.error };
+    let next;
+    try {
+      next = parseConfigFile(stored.file, draft.config);
+    } catch (err) {
+      return { error: (err as Error).message };
+    }
+    try {
+      return { changes: describeConfigChanges(stored.file, parseConfigFile(stored.file, stored.config), next) };
+    } catch {
+      return { changes: ['Replaces a file that does not validate'] };
+    }
+  }, [stored, draft]);
+
+  const handleSave = async () => {
+    if (!('config' in draft)) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await saveAdminConfig(stored.file, {
+        config: draft.config,
+        baseVersion: stored.version,
+        comment: comment.trim() || undefined,
+      });
+      setComment('');
+      onSaved(result.file, result.change);
+    } catch (err) {
+      setError(toClassified(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const changes = preview.changes ?? [];
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      {preview.error ? (
+        <p className="text-sm text-destructive" role="alert">
+          {preview.error}
+        </p>
+      ) : changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No unsaved changes.</p>
+      ) : (
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium">Unsaved changes</h3>
+          <ul className="list-disc pl-5 text-sm font-mono">
+            {changes.map((change) => (
+              <li key={change}>{change}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor={`${stored.file}-comment`}>Comment</Label>
+          <Input
+            id={`${stored.file}-comment`}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Why this change is needed"
+            maxLength={500}
+          />
+        </div>
+        <Button onClick={handleSave} disabled={isSaving || !!preview.error || changes.length === 0} className="gap-2">
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Save
+        </Button>
+      </div>
+
+      {error && <ErrorDisplay error={error} compact />}
+    </div>
+  );
+}
+
+const EMPTY_ENTRY = { prefix: '', vendor: '', model: '', configfile: '', note: '' };
+
+interface EditorProps {
+  stored: AdminConfigFile;
+  onSaved: SaveChangesProps['onSaved'];
+}
+
+function OuiEditor({ stored, onSaved }: EditorProps) {
+  const [entries, setEntries] = useState<OuiRegistryEntry[]>(() => {
+    try {
+      return parseOuiRegistry(stored.config).entries;
+    } catch {
+      return [];
+    }
+  });
+  const [newEntry, setNewEntry] = useState(EMPTY_ENTRY);
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const draft = useMemo(
+    () => ({
+      config: {
+        ...withoutVersion(stored.config),
+        // Entries replace the flat list of earlier versions
+        approved_ouis: undefined,
+        entries: entries.map((entry) => ({ ...entry, note: entry.note?.trim() || undefined })),
+      },
+    }),
+    [stored, entries]
+  );
+
+  const updateNewEntry = (changes: Partial<typeof EMPTY_ENTRY>) => setNewEntry((prev) => ({ ...prev, ...changes }));
+
+  const handleAdd = (event: FormEvent) => {
+    event.preventDefault();
+    let entry: OuiRegistryEntry;
+    try {
+      [entry] = parseOuiRegistry({
+        entries: [
+          {
+            prefix: newEntry.prefix.trim(),
+            vendor: newEntry.vendor.trim(),
+            model: newEntry.model.trim() || undefined,
+            configfile: newEntry.configfile.trim() || undefined,
+            note: newEntry.note.trim() || undefined,
+          },
+        ],
+      }).entries;
+    } catch (err) {
+      setAddError((err as Error).message.replace('Invalid approved-ouis config: ', '').replace(/entries\.0\./g, ''));
+      return;
+    }
+    if (entries.some((existing) => describeBlock(existing) === describeBlock(entry))) {
+      setAddError(`${describeBlock(entry)} is already approved`);
+      return;
+    }
+    setEntries((prev) => [...prev, entry]);
+    setNewEntry(EMPTY_ENTRY);
+    setAddError(null);
+  };
+
+  const updateNote = (index: number, note: string) =>
+    setEntries((prev) => prev.map((entry, i) => (i === index ? { ...entry, note } : entry)));
+
+  const removeEntry = (index: number) => setEntries((prev) => prev.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Block</TableHead>
+            <TableHead>Vendor / Model</TableHead>
+            <TableHead>Config File</TableHead>
+            <TableHead>Note</TableHead>
+            <TableHead className="w-12" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground">
+                No OUIs are approved.
+              </TableCell>
+            </TableRow>
+          ) : (
+            entries.map((entry, index) => (
+              <TableRow key={describeBlock(entry)}>
+                <TableCell className="font-mono text-sm whitespace-nowrap">{describeBlock(entry)}</TableCell>
+                <TableCell>{entry.model ? `${entry.vendor} ${entry.model}` : entry.vendor}</TableCell>
+                <TableCell className="font-mono text-sm">{entry.configfile ?? '—'}</TableCell>
+                <TableCell>
+                  <Input
+                    aria-label={`Note for ${describeBlock(entry)}`}
+                    value={entry.note ?? ''}
+                    onChange={(e) => updateNote(index, e.target.value)}
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${describeBlock(entry)}`}
+                    onClick={() => removeEntry(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <form onSubmit={handleAdd} className="grid gap-3 md:grid-cols-6 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="oui-prefix">Prefix</Label>
+          <Input
+            id="oui-prefix"
+            value={newEntry.prefix}
+            onChange={(e) => updateNewEntry({ prefix: e.target.value })}
+            placeholder="00:28:30:2"
+            className="font-mono"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="oui-vendor">Vendor</Label>
+          <Input id="oui-vendor" value={newEntry.vendor} onChange={(e) => updateNewEntry({ vendor: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="oui-model">Model</Label>
+          <Input id="oui-model" value={newEntry.model} onChange={(e) => updateNewEntry({ model: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="oui-configfile">Config File</Label>
+          <Input
+            id="oui-configfile"
+            value={newEntry.configfile}
+            onChange={(e) => updateNewEntry({ configfile: e.target.value })}
+            className="font-mono"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="oui-note">Note</Label>
+          <Input id="oui-note" value={newEntry.note} onChange={(e) => updateNewEntry({ note: e.target.value })} />
+        </div>
+        <Button type="submit" variant="outline" className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add OUI
+        </Button>
+      </form>
+      {addError && (
+        <p className="text-sm text-destructive" role="alert">
+          {addError}
+        </p>
+      )}
+
+      <SaveChanges stored={stored} draft={draft} onSaved={onSaved} />
+    </div>
+  );
+}
+
+function ProfilesEditor({ stored, onSaved }: EditorProps) {
+  const [text, setText] = useState(() => JSON.stringify(withoutVersion(stored.config), null, 2));
+
+  const draft = useMemo(() => {
+    try {
+      return { config: JSON.parse(text) as unknown };
+    } catch (err) {
+      return { error: `Not valid JSON: ${(err as Error).message}` };
+    }
+  }, [text]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="profiles-json">Profiles, default profile and selection rules</Label>
+        <Textarea
+          id="profiles-json"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="font-mono text-sm min-h-[24rem]"
+          spellCheck={false}
+        />
+        <p className="text-xs text-muted-foreground">
+          Rules are tried in order; the first whose OUI, model and region all match picks the profile.
+        </p>
+      </div>
+
+      <SaveChanges stored={stored} draft={draft} onSaved={onSaved} />
+    </div>
+  );
+}
+
+function ChangeHistory({ changes }: { changes: ConfigChange[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Time</TableHead>
+          <TableHead>File</TableHead>
+          <TableHead>Version</TableHead>
+          <TableHead>Administrator</TableHead>
+          <TableHead>Changes</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={5} className="text-center text-muted-foreground">
+              The configuration has not been edited here yet.
+            </TableCell>
+          </TableRow>
+        ) : (
+          changes.map((change) => (
+            <TableRow key={`${change.file}-${change.version}`}>
+              <TableCell className="whitespace-nowrap align-top">{new Date(change.timestamp).toLocaleString()}</TableCell>
+              <TableCell className="align-top">{FILE_TITLES[change.file] ?? change.file}</TableCell>
+              <TableCell className="font-mono text-sm align-top whitespace-nowrap">{change.version}</TableCell>
+              <TableCell className="align-top">{change.user?.name ?? '—'}</TableCell>
+              <TableCell className="align-top">
+                {change.comment && <p className="text-sm italic">{change.comment}</p>}
+                <ul className="list-disc pl-5 text-sm font-mono">
+                  {change.changes.map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Runtime config admin: approved OUIs, provisioning profiles and the
+ * history of edits. Saved edits are served in place of the bundled files.
+ */
+export function AdminPage() {
+  const [files, setFiles] = useState<AdminConfigFile[]>([]);
+  const [history, setHistory] = useState<ConfigChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<ClassifiedError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    Promise.all([fetchAdminConfig(), fetchConfigHistory()])
+      .then(([loadedFiles, changes]) => {
+        if (cancelled) return;
+        setFiles(loadedFiles);
+        setHistory(changes);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(toClassified(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const handleSaved = (saved: AdminConfigFile, change: ConfigChange) => {
+    setFiles((prev) => prev.map((file) => (file.file === saved.file ? saved : file)));
+    setHistory((prev) => [change, ...prev]);
+  };
+
+  const stored = (file: EditableConfigFile) => files.find((candidate) => candidate.file === file);
+  const ouis = stored('approved-ouis.json');
+  const profiles = stored('provision-defaults.json');
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <img src={viaviLogo} alt="Viavi Logo" className="h-12 w-12 rounded-lg" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Configuration Admin</h1>
+              <p className="text-muted-foreground">
+                Approved OUIs and provisioning profiles, applied without a redeploy.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <TechnicianMenu />
+            <Button variant="outline" className="gap-2" onClick={() => setReloadKey((key) => key + 1)}>
+              <RefreshCw className="h-4 w-4" />
+              Reload
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/">Single MAC</Link>
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <ErrorDisplay
+            error={error}
+            onRetry={error.isRetryable ? () => setReloadKey((key) => key + 1) : undefined}
+          />
+        )}
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground">
+            <Loader2 className="inline h-4 w-4 animate-spin mr-2" />
+            Loading configuration...
+          </p>
+        ) : (
+          !error && (
+            <Tabs defaultValue="ouis">
+              <TabsList>
+                <TabsTrigger value="ouis">Approved OUIs</TabsTrigger>
+                <TabsTrigger value="profiles">Provisioning Profiles</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+
+              {[
+                { value: 'ouis', file: ouis, Editor: OuiEditor },
+                { value: 'profiles', file: profiles, Editor: ProfilesEditor },
+              ].map(
+                ({ value, file, Editor }) =>
+                  file && (
+                    <TabsContent key={value} value={value}>
+                      <Card>
+                        <CardHeader>
+                          <CardTitle className="flex items-center gap-2">
+                            <div className="w-2 h-2 bg-primary rounded-full" />
+                            {FILE_TITLES[file.file]}
+                          </CardTitle>
+                          <FileVersion stored={file} />
+                        </CardHeader>
+                        <CardContent>
+                          {/* Remounted on save and reload, so the edit starts from the new contents */}
+                          <Editor key={`${reloadKey}-${file.version}`} stored={file} onSaved={handleSaved} />
+                        </CardContent>
+                      </Card>
+                    </TabsContent>
+                  )
+              )}
+
+              <TabsContent value="history">
+                <Card>
+                  <CardContent className="pt-6">
+                    <ChangeHistory changes={history} />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ErrorDisplay } from './ErrorDisplay';
+import type { AuditRecord } from '@/services/auditApi';
+import { CheckCircle, History, X } from 'lucide-react';
+
+interface AuditRecordDialogProps {
+  record: AuditRecord | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const COMPARED_FIELDS = ['account', 'isp', 'configfile'] as const;
+
+export function AuditOutcomeBadge({ record }: { record: AuditRecord }) {
+  return record.outcome === 'success' ? (
+    <Badge className="gap-1 bg-success text-success-foreground">
+      <CheckCircle className="h-3 w-3" />
+      Provisioned
+    </Badge>
+  ) : (
+    <Badge variant="destructive" className="gap-1">
+      <X className="h-3 w-3" />
+      Failed
+    </Badge>
+  );
+}
+
+/**
+ * Drill-down for one audit record: who and where, the record before and
+ * after the provision, and the error classified at the time.
+ */
+export function AuditRecordDialog({ record, onOpenChange }: AuditRecordDialogProps) {
+  return (
+    <Dialog open={record !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        {record && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                <code className="font-mono">{record.mac}</code>
+                <AuditOutcomeBadge record={record} />
+              </DialogTitle>
+              <DialogDescription>
+                {new Date(record.timestamp).toLocaleString()} by {record.user?.name ?? 'unknown technician'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Technician ID</dt>
+              <dd className="font-mono">{record.user?.sub ?? '—'}</dd>
+              <dt className="text-muted-foreground">Session</dt>
+              <dd className="font-mono">{record.sessionId ?? '—'}</dd>
+              <dt className="text-muted-foreground">Client IP</dt>
+              <dd className="font-mono">{record.clientIp ?? '—'}</dd>
+              <dt className="text-muted-foreground">Request ID</dt>
+              <dd className="font-mono break-all">{record.requestId ?? '—'}</dd>
+              <dt className="text-muted-foreground">LDAP API status</dt>
+              <dd>{record.upstreamStatus ?? 'unreachable'}</dd>
+              <dt className="text-muted-foreground">Duration</dt>
+              <dd>{record.durationMs} ms</dd>
+            </dl>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Record before and after</h3>
+              {record.previousRecord === undefined && (
+                <p className="text-xs text-muted-foreground">
+                  No search preceded this provision, so the earlier record is not known.
+                </p>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {COMPARED_FIELDS.map((field) => {
+                    const before =
+                      record.previousRecord === undefined
+                        ? '?'
+                        : record.previousRecord?.[field] ?? '—';
+                    const changed = record.previousRecord !== undefined && before !== record[field];
+                    return (
+                      <TableRow key={field}>
+                        <TableCell className="font-medium">{field}</TableCell>
+                        <TableCell className="font-mono text-sm">{before}</TableCell>
+                        <TableCell className={`font-mono text-sm ${changed ? 'text-primary font-semibold' : ''}`}>
+                          {record[field]}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {record.previousRecord === null && (
+                <p className="text-xs text-muted-foreground">The MAC was not provisioned before.</p>
+              )}
+            </div>
+
+            {record.classifiedError && <ErrorDisplay error={record.classifiedError} />}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
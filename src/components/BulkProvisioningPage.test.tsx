@@ -0,0 +1,135 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BulkProvisioningPage } from './BulkProvisioningPage';
+
+vi.mock('@/services/provisioningApi', () => ({
+  provisioningApi: {
+    searchByMac: vi.fn(async () => []),
+    addHsd: vi.fn(async () => ({ success: true }))
+  }
+}));
+
+import { provisioningApi } from '@/services/provisioningApi';
+
+const createFetchMock = (
+  approvedOuis: string[] = ['A1B2C3'],
+  profileConfig: object = { account: 'acct', isp: 'isp', configfile: 'cfg0' }
+) => {
+  return vi.fn(async (input: RequestInfo | URL) => {
+    const inputStr = typeof input === 'string' ? input : input.toString();
+    if (inputStr.endsWith('approved-ouis.json')) {
+      return Promise.resolve({ ok: true, json: () => Promise.resolve({ approved_ouis: approvedOuis }) } as Response);
+    }
+    if (inputStr.endsWith('provision-defaults.json')) {
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(profileConfig) } as Response);
+    }
+    return Promise.reject(new Error('Unknown fetch'));
+  });
+};
+
+const pasteAndCheck = async (user: ReturnType<typeof userEvent.setup>, text: string) => {
+  const textarea = screen.getByLabelText(/Paste MAC addresses/);
+  await user.click(textarea);
+  await user.paste(text);
+  await user.click(screen.getByText('Check MACs'));
+};
+
+describe('BulkProvisioningPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = createFetchMock();
+  });
+
+  it('checks each MAC and rejects unapproved OUIs without calling the API', async () => {
+    const user = userEvent.setup();
+    render(<BulkProvisioningPage />, { wrapper: MemoryRouter });
+
+    await pasteAndCheck(user, 'A1B2C3000001\nFFFFFF000002');
+
+    await waitFor(() => expect(screen.getByText('Available')).toBeInTheDocument());
+    expect(screen.getByText('This is not a known Viavi meter: OUI FFFFFF is not in the approved registry.')).toBeInTheDocument();
+    expect(vi.mocked(provisioningApi.searchByMac)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(provisioningApi.searchByMac)).toHaveBeenCalledWith('A1:B2:C3:00:00:01', expect.anything());
+  });
+
+  it('skips existing MACs by default and summarizes the batch', async () => {
+    vi.mocked(provisioningApi.searchByMac).mockImplementation(async (mac: string) =>
+      mac.endsWith('02') ? [{ mac, account: 'existing', configfile: 'cfg1', isp: 'isp' }] : []
+    );
+    vi.mocked(provisioningApi.addHsd).mockImplementation(async (request) =>
+      request.mac.endsWith('03')
+        ? {
+            success: false,
+            error: {
+              category: 'server',
+              title: 'Server Error',
+              message: 'Backend unavailable',
+              likelyCause: '',
+              suggestion: '',
+              isRetryable: true,
+            },
+          }
+        : { success: true }
+    );
+
+    const user = userEvent.setup();
+    render(<BulkProvisioningPage />, { wrapper: MemoryRouter });
+
+    await pasteAndCheck(user, 'A1B2C3000001\nA1B2C3000002\nA1B2C3000003');
+
+    await waitFor(() => expect(screen.getByText('Provision Selected (2)')).toBeInTheDocument());
+    await user.click(screen.getByText('Provision Selected (2)'));
+
+    await waitFor(() => expect(screen.getByText('Batch Summary')).toBeInTheDocument());
+    const provisioned = vi.mocked(provisioningApi.addHsd).mock.calls.map(([request]) => request.mac);
+    expect(provisioned.sort()).toEqual(['A1:B2:C3:00:00:01', 'A1:B2:C3:00:00:03']);
+    expect(screen.getByText(/provisioned,/).textContent).toBe('1 provisioned, 1 failed, 1 skipped');
+  });
+
+  it('includes existing MACs when skipping is turned off', async () => {
+    vi.mocked(provisioningApi.searchByMac).mockImplementation(async (mac: string) => [
+      { mac, account: 'existing', configfile: 'cfg1', isp: 'isp' },
+    ]);
+
+    const user = userEvent.setup();
+    render(<BulkProvisioningPage />, { wrapper: MemoryRouter });
+
+    await pasteAndCheck(user, 'A1B2C3000001');
+
+    await waitFor(() => expect(screen.getByText('Provision Selected (0)')).toBeInTheDocument());
+    await user.click(screen.getByLabelText('Skip MACs that already exist'));
+    expect(screen.getByText('Provision Selected (1)')).toBeInTheDocument();
+  });
+
+  it('provisions each MAC with the profile its rules select', async () => {
+    vi.mocked(provisioningApi.searchByMac).mockImplementation(async () => []);
+    global.fetch = createFetchMock(['A1B2C3', '000711'], {
+      defaultProfile: 'standard',
+      profiles: [
+        { id: 'standard', name: 'Standard', account: 'acct', isp: 'isp', configfile: 'cfg0' },
+        { id: 'west', name: 'West', account: 'acct-w', isp: 'isp-w', configfile: 'cfg-w' },
+      ],
+      rules: [{ profile: 'west', oui: '000711', region: 'west' }],
+    });
+
+    const user = userEvent.setup();
+    render(<BulkProvisioningPage region="west" />, { wrapper: MemoryRouter });
+
+    await pasteAndCheck(user, 'A1B2C3000001\n000711000002');
+
+    await waitFor(() => expect(screen.getByText('Provision Selected (2)')).toBeInTheDocument());
+    expect(screen.getByText('West')).toBeInTheDocument();
+    await user.click(screen.getByText('Provision Selected (2)'));
+
+    await waitFor(() => expect(screen.getByText('Batch Summary')).toBeInTheDocument());
+    const requests = vi.mocked(provisioningApi.addHsd).mock.calls.map(([request]) => request);
+    expect(requests).toEqual(
+      expect.arrayContaining([
+        { mac: 'A1:B2:C3:00:00:01', account: 'acct', configfile: 'cfg0', isp: 'isp' },
+        { mac: '00:07:11:00:00:02', account: 'acct-w', configfile: 'cfg-w', isp: 'isp-w' },
+      ])
+    );
+  });
+});
@@ -0,0 +1,434 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { MacStatus, MacStatusBadge, ProvisionStateBadge } from './MacStatusCard';
+import { TechnicianMenu } from './TechnicianMenu';
+import { OutboxBadge } from './OutboxBadge';
+import { describeVerification, provisioningApi } from '@/services/provisioningApi';
+import { isQueueable, provisioningOutbox } from '@/services/provisioningOutbox';
+import { getRuntimeConfig } from '@/services/runtimeConfig';
+import { classifyError, ClassifiedError } from '@/utils/errorUtils';
+import { parseMacList } from '@/utils/macUtils';
+import { runWithConcurrency } from '@/utils/concurrency';
+import { fetchOuiRegistry, fetchProvisionProfiles } from '@/utils/configLoader';
+import { matchOui, OuiRegistry } from '@/utils/ouiRegistry';
+import { provisionValues, ProvisionProfiles, selectProfile } from '@/utils/provisionProfiles';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, CheckCircle, Network, Upload } from 'lucide-react';
+import viaviLogo from '@/assets/viavi-logo.png';
+
+/** Maximum number of in-flight API calls during a batch */
+const BATCH_CONCURRENCY = 4;
+
+export interface BulkMacRow extends MacStatus {
+  /** Raw value as pasted or read from the CSV */
+  input: string;
+  selected: boolean;
+  /** Why the row cannot be provisioned (bad format, unapproved OUI) */
+  rejection?: string;
+  /** Name of the profile the row's values come from */
+  profile: string;
+  account: string;
+  isp: string;
+}
+
+interface BulkProvisioningPageProps {
+  /** Deployment region that profile rules may match on */
+  region?: string;
+}
+
+type BulkPhase = 'input' | 'checking' | 'review' | 'provisioning' | 'done';
+
+export function BulkProvisioningPage({ region = getRuntimeConfig().config.region }: BulkProvisioningPageProps) {
+  const [phase, setPhase] = useState<BulkPhase>('input');
+  const [listText, setListText] = useState('');
+  const [rows, setRows] = useState<BulkMacRow[]>([]);
+  const [skipExisting, setSkipExisting] = useState(true);
+  const [provisionProfiles, setProvisionProfiles] = useState<ProvisionProfiles | null>(null);
+  const { toast } = useToast();
+
+  const updateRow = (mac: string, patch: Partial<BulkMacRow>) => {
+    setRows((prev) => prev.map((row) => (row.mac === mac ? { ...row, ...patch } : row)));
+  };
+
+  const showConfigError = (error: unknown) => {
+    const classifiedError =
+      (error as { classifiedError?: ClassifiedError }).classifiedError ||
+      classifyError(error as Error, { type: 'config' });
+    toast({
+      title: classifiedError.title,
+      description: classifiedError.message,
+      variant: 'destructive',
+    });
+  };
+
+  const handleFileUpload = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setListText((prev) => (prev ? `${prev}\n${text}` : text));
+  };
+
+  const handleCheck = async () => {
+    const entries = parseMacList(listText);
+    if (entries.length === 0) {
+      toast({
+        title: 'No MAC addresses found',
+        description: 'Paste one MAC per line or upload a CSV file.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    let registry: OuiRegistry;
+    let profiles: ProvisionProfiles;
+    try {
+      [registry, profiles] = await Promise.all([
+        fetchOuiRegistry(),
+        provisionProfiles ?? fetchProvisionProfiles(),
+      ]);
+    } catch (error) {
+      console.error('Failed to load bulk provisioning config:', error);
+      showConfigError(error);
+      return;
+    }
+    setProvisionProfiles(profiles);
+
+    const initialRows: BulkMacRow[] = entries.map((entry) => {
+      const match = matchOui(entry.mac, registry);
+      const rejection = match.reason;
+      const selection = selectProfile(profiles, { mac: entry.mac, entry: match.entry, region });
+      return {
+        mac: entry.mac,
+        input: entry.input,
+        profile: selection.profile.name,
+        ...provisionValues(selection, match.entry),
+        status: rejection ? 'unknown' : 'pending',
+        provisionState: 'pending',
+        selected: false,
+        rejection,
+      };
+    });
+    setRows(initialRows);
+    setPhase('checking');
+
+    const checkable = initialRows.filter((row) => !row.rejection);
+    await runWithConcurrency(checkable, BATCH_CONCURRENCY, async (row) => {
+      updateRow(row.mac, { status: 'checking' });
+      try {
+        const searchResult = await provisioningApi.searchByMac(row.mac, {
+          onRetry: ({ attempt, maxAttempts }) => updateRow(row.mac, { retry: { attempt, maxAttempts } }),
+        });
+        if (searchResult.length > 0) {
+          updateRow(row.mac, {
+            retry: undefined,
+            status: 'found',
+            currentData: searchResult[0],
+            selected: !skipExisting,
+          });
+        } else {
+          updateRow(row.mac, { retry: undefined, status: 'not-found', selected: true });
+        }
+      } catch (error) {
+        const classifiedError =
+          (error as { classifiedError?: ClassifiedError }).classifiedError ||
+          classifyError(error as Error, { type: 'search' });
+        updateRow(row.mac, { retry: undefined, status: 'unknown', error: classifiedError.message });
+      }
+    });
+
+    setPhase('review');
+  };
+
+  const handleSkipExistingChange = (checked: boolean) => {
+    setSkipExisting(checked);
+    setRows((prev) =>
+      prev.map((row) => (row.status === 'found' ? { ...row, selected: !checked } : row))
+    );
+  };
+
+  const handleProvision = async () => {
+    const selectedRows = rows.filter((row) => row.selected);
+    setPhase('provisioning');
+
+    await runWithConcurrency(selectedRows, BATCH_CONCURRENCY, async (row) => {
+      updateRow(row.mac, { provisionState: 'provisioning', error: undefined });
+      const request = {
+        mac: row.mac,
+        account: row.account,
+        configfile: row.configfile,
+        isp: row.isp,
+      };
+      try {
+        const result = await provisioningApi.addHsd(request, {
+          onRetry: ({ attempt, maxAttempts }) => updateRow(row.mac, { retry: { attempt, maxAttempts } }),
+        });
+        if (result.success && result.verification && !result.verification.verified) {
+          updateRow(row.mac, {
+            retry: undefined,
+            provisionState: 'unverified',
+            verification: result.verification,
+            error: describeVerification(result.verification),
+          });
+        } else if (result.success) {
+          updateRow(row.mac, { retry: undefined, provisionState: 'complete', verification: result.verification });
+        } else {
+          const error = result.error || classifyError(new Error(result.detail || 'Unknown error'));
+          if (isQueueable(error)) {
+            const expected = row.currentData ? { mac: row.mac, ...row.currentData } : null;
+            await provisioningOutbox.enqueue(request, expected, error);
+            updateRow(row.mac, { retry: undefined, provisionState: 'queued', error: undefined });
+          } else {
+            updateRow(row.mac, { retry: undefined, provisionState: 'error', error: error.message });
+          }
+        }
+      } catch (error) {
+        const classifiedError =
+          (error as { classifiedError?: ClassifiedError }).classifiedError ||
+          classifyError(error as Error, { type: 'provision' });
+        updateRow(row.mac, { retry: undefined, provisionState: 'error', error: classifiedError.message });
+      }
+    });
+
+    setPhase('done');
+  };
+
+  const handleReset = () => {
+    setPhase('input');
+    setRows([]);
+  };
+
+  const isSelectable = (row: BulkMacRow) =>
+    !row.rejection && (row.status === 'found' || row.status === 'not-found');
+
+  const selectedCount = rows.filter((row) => row.selected).length;
+  const succeeded = rows.filter((row) => row.provisionState === 'complete');
+  const unverified = rows.filter((row) => row.provisionState === 'unverified');
+  const queued = rows.filter((row) => row.provisionState === 'queued');
+  const failed = rows.filter((row) => row.provisionState === 'error');
+  const skipped = rows.filter((row) => !row.selected);
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <img src={viaviLogo} alt="Viavi Logo" className="h-12 w-12 rounded-lg" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Bulk Provisioning</h1>
+              <p className="text-muted-foreground">
+                Check and provision a batch of Viavi meters at once.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <OutboxBadge />
+            <TechnicianMenu />
+            <Button variant="outline" asChild>
+              <Link to="/">Single MAC</Link>
+            </Button>
+          </div>
+        </div>
+
+        {phase === 'input' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-primary rounded-full" />
+                MAC Address List
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="mac-list">Paste MAC addresses (one per line or comma-separated)</Label>
+                <Textarea
+                  id="mac-list"
+                  value={listText}
+                  onChange={(e) => setListText(e.target.value)}
+                  placeholder={'00:07:11:22:9E:16\n00-07-11-22-9E-17'}
+                  className="font-mono text-sm min-h-[160px]"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label
+                  htmlFor="mac-file"
+                  className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer"
+                >
+                  <Upload className="h-4 w-4" />
+                  Upload CSV
+                  <Input
+                    id="mac-file"
+                    type="file"
+                    accept=".csv,.txt,text/csv,text/plain"
+                    className="sr-only"
+                    onChange={(e) => handleFileUpload(e.target.files?.[0])}
+                  />
+                </Label>
+                <Button onClick={handleCheck} disabled={!listText.trim()}>
+                  Check MACs
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {phase !== 'input' && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="skip-existing"
+                  checked={skipExisting}
+                  onCheckedChange={handleSkipExistingChange}
+                  disabled={phase !== 'review'}
+                />
+                <Label htmlFor="skip-existing">Skip MACs that already exist</Label>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleReset}
+                  disabled={phase === 'checking' || phase === 'provisioning'}
+                >
+                  Start Over
+                </Button>
+                {phase === 'review' && (
+                  <Button onClick={handleProvision} disabled={selectedCount === 0} className="gap-2">
+                    <Network className="h-4 w-4" />
+                    Provision Selected ({selectedCount})
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <Card>
+              <CardContent className="pt-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>MAC Address</TableHead>
+                      <TableHead>Current Status</TableHead>
+                      <TableHead>Config to Apply</TableHead>
+                      <TableHead>Provision State</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.mac}>
+                        <TableCell>
+                          <Checkbox
+                            aria-label={`Select ${row.mac}`}
+                            checked={row.selected}
+                            disabled={phase !== 'review' || !isSelectable(row)}
+                            onCheckedChange={(checked) =>
+                              updateRow(row.mac, { selected: checked === true })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <code className="font-mono text-sm">{row.mac || row.input}</code>
+                        </TableCell>
+                        <TableCell>
+                          {row.rejection ? (
+                            <div className="flex items-center gap-1 text-xs text-destructive">
+                              <AlertCircle className="h-3 w-3" />
+                              {row.rejection}
+                            </div>
+                          ) : (
+                            <div className="flex flex-col gap-1">
+                              <MacStatusBadge mac={row} />
+                              {row.currentData && (
+                                <span className="text-xs text-muted-foreground">
+                                  {row.currentData.account} • {row.currentData.configfile}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-col items-start gap-1">
+                            <code className="text-xs bg-muted px-2 py-1 rounded">{row.configfile}</code>
+                            <span className="text-xs text-muted-foreground">{row.profile}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {row.selected || row.provisionState !== 'pending' ? (
+                            <div className="flex flex-col gap-1">
+                              <ProvisionStateBadge state={row.provisionState} retry={row.retry} />
+                              {row.error && (
+                                <span className="text-xs text-destructive" title={row.error}>
+                                  {row.error}
+                                </span>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">
+                              {row.error || 'Skipped'}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {phase === 'done' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <CheckCircle className="h-5 w-5 text-success" />
+                    Batch Summary
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm">
+                    <strong>{succeeded.length}</strong> provisioned,{' '}
+                    {unverified.length > 0 && (
+                      <>
+                        <strong>{unverified.length}</strong> not verified,{' '}
+                      </>
+                    )}
+                    {queued.length > 0 && (
+                      <>
+                        <strong>{queued.length}</strong> waiting to sync,{' '}
+                      </>
+                    )}
+                    <strong>{failed.length}</strong> failed,{' '}
+                    <strong>{skipped.length}</strong> skipped
+                  </p>
+                  {unverified.length + failed.length > 0 && (
+                    <ul className="space-y-1 text-sm">
+                      {[...unverified, ...failed].map((row) => (
+                        <li key={row.mac} className="flex gap-2">
+                          <code className="font-mono">{row.mac}</code>
+                          <span className="text-destructive">{row.error}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { normalizeMac } from '@/utils/macUtils';
+import { Trash2 } from 'lucide-react';
+
+interface DeprovisionDialogProps {
+  mac: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+/**
+ * Typed confirmation for removing a MAC's provisioning record. The technician
+ * must re-enter the MAC (any format) before the destructive action is enabled.
+ */
+export function DeprovisionDialog({ mac, open, onOpenChange, onConfirm }: DeprovisionDialogProps) {
+  const [confirmation, setConfirmation] = useState('');
+  const isConfirmed = normalizeMac(confirmation) === mac;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setConfirmation('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleConfirm = () => {
+    setConfirmation('');
+    onConfirm();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5 text-destructive" />
+            Deprovision MAC
+          </DialogTitle>
+          <DialogDescription>
+            This removes the provisioning record for <code className="font-mono">{mac}</code>. The
+            meter will lose network access until it is provisioned again.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="deprovision-confirm">Re-enter the MAC address to confirm</Label>
+          <Input
+            id="deprovision-confirm"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder={mac}
+            className="font-mono text-sm"
+            autoComplete="off"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!isConfirmed}>
+            Deprovision
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
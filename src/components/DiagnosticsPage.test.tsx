@@ -0,0 +1,42 @@
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DiagnosticsPage } from './DiagnosticsPage';
+
+vi.mock('@/services/runtimeConfig', () => ({
+  getRuntimeConfig: () => ({
+    config: { apiBaseUrl: 'https://ldap-api.example.com', useStubApi: false, retryProvision: false, region: 'west' },
+    source: 'cached',
+    error: 'Failed to load config: 503',
+  }),
+}));
+
+describe('DiagnosticsPage', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn(async (url: RequestInfo | URL) => {
+      switch (String(url)) {
+        case '/config/approved-ouis.json':
+          return new Response(JSON.stringify({ version: '2026-10-19.2', entries: [{ vendor: 'VIAVI', prefix: '000711' }] }));
+        case '/config/provision-defaults.json':
+          return new Response(JSON.stringify({ account: 'acct' }));
+        default:
+          // TechnicianMenu: sign-in not enforced
+          return new Response('<!doctype html>');
+      }
+    });
+  });
+
+  it('shows the runtime config and the state of each config file', async () => {
+    render(<DiagnosticsPage />, { wrapper: MemoryRouter });
+
+    expect(screen.getByText('Last server config (offline copy)')).toBeInTheDocument();
+    expect(screen.getByText('https://ldap-api.example.com')).toBeInTheDocument();
+    expect(screen.getByText(/Failed to load config: 503/)).toBeInTheDocument();
+
+    expect(await screen.findByText('2026-10-19.2')).toBeInTheDocument();
+    expect(screen.getByText('1 approved block')).toBeInTheDocument();
+    expect(screen.getByText('Valid')).toBeInTheDocument();
+    expect(screen.getByText('Not usable')).toBeInTheDocument();
+    expect(screen.getByText(/provision-defaults\.json is invalid/)).toBeInTheDocument();
+  });
+});
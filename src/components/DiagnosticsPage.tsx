@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ErrorDisplay } from './ErrorDisplay';
+import { TechnicianMenu } from './TechnicianMenu';
+import { getRuntimeConfig } from '@/services/runtimeConfig';
+import { checkConfigFiles, ConfigFileStatus } from '@/utils/configLoader';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, Copy, Loader2, RefreshCw, X } from 'lucide-react';
+import viaviLogo from '@/assets/viavi-logo.png';
+
+const RUNTIME_SOURCES = {
+  server: 'App server (/api/config)',
+  cached: 'Last server config (offline copy)',
+  build: 'Built-in defaults',
+};
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <>
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="font-mono break-all">{children}</dd>
+    </>
+  );
+}
+
+function ConfigFileCard({ status }: { status: ConfigFileStatus }) {
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <code className="font-mono font-medium">{status.file}</code>
+        {status.error ? (
+          <Badge variant="destructive" className="gap-1">
+            <X className="h-3 w-3" />
+            Not usable
+          </Badge>
+        ) : (
+          <Badge className="gap-1 bg-success text-success-foreground">
+            <CheckCircle className="h-3 w-3" />
+            Valid
+          </Badge>
+        )}
+      </div>
+      <dl className="grid grid-cols-[10rem_1fr] gap-x-4 gap-y-1 text-sm">
+        <Field label="Version">{status.version ?? (status.error ? '—' : 'unversioned')}</Field>
+        {status.summary && <Field label="Contents">{status.summary}</Field>}
+        <Field label="Loaded">{new Date(status.loadedAt).toLocaleString()}</Field>
+      </dl>
+      {status.error && <ErrorDisplay error={status.error} />}
+    </div>
+  );
+}
+
+/**
+ * What the app is running with: build, runtime config and the config files,
+ * which are loaded and validated afresh when the page opens
+ */
+export function DiagnosticsPage() {
+  const { toast } = useToast();
+  const [configFiles, setConfigFiles] = useState<ConfigFileStatus[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const runtime = getRuntimeConfig();
+
+  useEffect(() => {
+    let cancelled = false;
+    setConfigFiles(null);
+    checkConfigFiles().then((statuses) => {
+      if (!cancelled) setConfigFiles(statuses);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const handleCopy = async () => {
+    const report = {
+      build: __BUILD_INFO__,
+      runtimeConfig: runtime,
+      configFiles,
+      userAgent: navigator.userAgent,
+      url: window.location.href,
+      reportedAt: new Date().toISOString(),
+    };
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+      toast({ title: 'Diagnostics copied', description: 'Paste them into your support request.' });
+    } catch {
+      toast({
+        title: 'Could not copy',
+        description: 'Your browser did not allow access to the clipboard.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <img src={viaviLogo} alt="Viavi Logo" className="h-12 w-12 rounded-lg" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Diagnostics</h1>
+              <p className="text-muted-foreground">What this app is running with, for support.</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <TechnicianMenu />
+            <Button variant="outline" className="gap-2" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+              Copy
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/">Single MAC</Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-primary rounded-full" />
+              Build
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-[10rem_1fr] gap-x-4 gap-y-1 text-sm">
+              <Field label="Commit">{__BUILD_INFO__.commit ?? 'unknown'}</Field>
+              <Field label="Built">{new Date(__BUILD_INFO__.builtAt).toLocaleString()}</Field>
+              <Field label="Mode">{__BUILD_INFO__.mode}</Field>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-primary rounded-full" />
+              Runtime Config
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <dl className="grid grid-cols-[10rem_1fr] gap-x-4 gap-y-1 text-sm">
+              <Field label="Loaded from">{RUNTIME_SOURCES[runtime.source]}</Field>
+              <Field label="API base URL">{runtime.config.apiBaseUrl || '(none)'}</Field>
+              <Field label="Stub API">{runtime.config.useStubApi ? 'on' : 'off'}</Field>
+              <Field label="Search attempts">{runtime.config.maxAttempts ?? 'default'}</Field>
+              <Field label="Retry provisions">{runtime.config.retryProvision ? 'on' : 'off'}</Field>
+              <Field label="Region">{runtime.config.region ?? '(none)'}</Field>
+            </dl>
+            {runtime.error && (
+              <p className="text-sm text-muted-foreground">
+                The server config could not be loaded: <span className="font-mono">{runtime.error}</span>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <span className="w-2 h-2 bg-primary rounded-full" />
+                Config Files
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1"
+                onClick={() => setReloadKey((key) => key + 1)}
+                disabled={configFiles === null}
+              >
+                <RefreshCw className="h-3 w-3" />
+                Check again
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {configFiles === null ? (
+              <p className="text-center text-muted-foreground">
+                <Loader2 className="inline h-4 w-4 animate-spin mr-2" />
+                Checking config files...
+              </p>
+            ) : (
+              configFiles.map((status) => <ConfigFileCard key={status.file} status={status} />)
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
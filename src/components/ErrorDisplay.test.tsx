@@ -32,6 +32,12 @@ describe('ErrorDisplay', () => {
     expect(screen.getByText(/Check your network connection/)).toBeInTheDocument();
   });
 
+  it('reports how many attempts were made after automatic retries', () => {
+    render(<ErrorDisplay error={createMockError({ attempts: 3 })} />);
+
+    expect(screen.getByText('Still failing after 3 attempts.')).toBeInTheDocument();
+  });
+
   it('shows retry button when error is retryable and onRetry is provided', () => {
     const error = createMockError({ isRetryable: true });
     const onRetry = vi.fn();
@@ -78,6 +84,16 @@ describe('ErrorDisplay', () => {
     expect(onDismiss).toHaveBeenCalledTimes(1);
   });
 
+  it('shows the request ID with the technical details', async () => {
+    const user = userEvent.setup();
+    const error = createMockError({ technicalDetail: undefined, requestId: 'req-42' });
+    render(<ErrorDisplay error={error} />);
+
+    await user.click(screen.getByText('Technical details'));
+
+    expect(screen.getByText('req-42')).toBeInTheDocument();
+  });
+
   it('shows technical details toggle when technicalDetail is provided', () => {
     const error = createMockError({ technicalDetail: 'Some technical detail' });
     render(<ErrorDisplay error={error} />);
@@ -121,6 +137,28 @@ describe('ErrorDisplay', () => {
     });
   });
 
+  it('offers to sign in again when the session has ended, returning to the current page', () => {
+    window.history.pushState({}, '', '/bulk');
+    render(<ErrorDisplay error={createMockError({ category: 'auth', isRetryable: false, sessionExpired: true })} />);
+
+    expect(screen.getByRole('link', { name: /Sign in again/ })).toHaveAttribute(
+      'href',
+      '/auth/login?returnTo=%2Fbulk'
+    );
+    window.history.pushState({}, '', '/');
+  });
+
+  it('does not offer sign-in for other categories', () => {
+    render(<ErrorDisplay error={createMockError()} />);
+    expect(screen.queryByText(/Sign in again/)).not.toBeInTheDocument();
+  });
+
+  it('does not offer sign-in when access is denied to a signed-in technician', () => {
+    render(<ErrorDisplay error={createMockError({ category: 'auth', title: 'Access Denied', isRetryable: false })} />);
+    expect(screen.getByText('Access Denied')).toBeInTheDocument();
+    expect(screen.queryByText(/Sign in again/)).not.toBeInTheDocument();
+  });
+
   describe('category icons', () => {
     const categories: ClassifiedError['category'][] = [
       'network',
@@ -2,12 +2,15 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ClassifiedError } from '@/utils/errorUtils';
+import { loginUrl } from '@/services/authApi';
 import {
   AlertCircle,
   AlertTriangle,
   Ban,
   ChevronDown,
+  FileQuestion,
   Info,
+  LogIn,
   RefreshCw,
   ShieldAlert,
   Wifi,
@@ -33,6 +36,7 @@ const CATEGORY_ICONS: Record<ClassifiedError['category'], React.ElementType> = {
   config: Info,
   oui: ShieldAlert,
   auth: ShieldAlert,
+  response: FileQuestion,
   unknown: XCircle,
 };
 
@@ -45,6 +49,7 @@ const CATEGORY_VARIANTS: Record<ClassifiedError['category'], 'default' | 'destru
   config: 'destructive',
   oui: 'default',
   auth: 'destructive',
+  response: 'destructive',
   unknown: 'destructive',
 };
 
@@ -85,6 +90,9 @@ export function ErrorDisplay({
           <AlertTitle className="text-base">{error.title}</AlertTitle>
           <AlertDescription className="space-y-3">
             <p>{error.message}</p>
+            {error.attempts && error.attempts > 1 && (
+              <p className="text-sm">Still failing after {error.attempts} attempts.</p>
+            )}
 
             <div className="space-y-1 text-sm">
               <p>
@@ -97,7 +105,7 @@ export function ErrorDisplay({
               </p>
             </div>
 
-            {showTechnicalDetails && error.technicalDetail && (
+            {showTechnicalDetails && (error.technicalDetail || error.requestId) && (
               <Collapsible open={isExpanded} onOpenChange={setIsExpanded}>
                 <CollapsibleTrigger asChild>
                   <Button variant="ghost" size="sm" className="h-7 gap-1 px-2 -ml-2">
@@ -108,14 +116,30 @@ export function ErrorDisplay({
                   </Button>
                 </CollapsibleTrigger>
                 <CollapsibleContent>
-                  <code className="block mt-2 p-2 bg-muted rounded text-xs font-mono break-all">
-                    {error.technicalDetail}
-                  </code>
+                  {error.technicalDetail && (
+                    <code className="block mt-2 p-2 bg-muted rounded text-xs font-mono break-all">
+                      {error.technicalDetail}
+                    </code>
+                  )}
+                  {error.requestId && (
+                    <p className="mt-2 text-xs">
+                      Request ID:{' '}
+                      <code className="font-mono select-all">{error.requestId}</code>
+                    </p>
+                  )}
                 </CollapsibleContent>
               </Collapsible>
             )}
 
             <div className="flex gap-2 pt-1">
+              {error.sessionExpired && (
+                <Button variant="outline" size="sm" asChild className="gap-1">
+                  <a href={loginUrl()}>
+                    <LogIn className="h-3 w-3" />
+                    Sign in again
+                  </a>
+                </Button>
+              )}
               {error.isRetryable && onRetry && (
                 <Button variant="outline" size="sm" onClick={onRetry} className="gap-1">
                   <RefreshCw className="h-3 w-3" />
@@ -103,6 +103,48 @@ describe('MacStatusCard', () => {
       render(<MacStatusCard mac={mac} showProvisionState />);
       expect(screen.getByText('Network timeout')).toBeInTheDocument();
     });
+
+    it('shows the attempt while a provision is retried', () => {
+      const mac = createMockMac({ provisionState: 'provisioning', retry: { attempt: 2, maxAttempts: 3 } });
+      render(<MacStatusCard mac={mac} showProvisionState />);
+      expect(screen.getByText('Retrying (2/3)...')).toBeInTheDocument();
+    });
+
+    it('shows "Not Verified" with the mismatch diff when the read-back differs', () => {
+      const mac = createMockMac({
+        provisionState: 'unverified',
+        verification: {
+          verified: false,
+          mismatches: [{ field: 'configfile', requested: 'r-2000-1000', actual: 'old.cfg' }],
+        },
+      });
+      render(<MacStatusCard mac={mac} showProvisionState />);
+
+      expect(screen.getByText('Not Verified')).toBeInTheDocument();
+      expect(screen.getByText('configfile')).toBeInTheDocument();
+      expect(screen.getByText('old.cfg')).toBeInTheDocument();
+    });
+
+    it('explains an unverified provision whose read-back failed', () => {
+      const mac = createMockMac({
+        provisionState: 'unverified',
+        verification: {
+          verified: false,
+          mismatches: [],
+          error: {
+            category: 'timeout',
+            title: 'Request Timeout',
+            message: 'The server took too long to respond.',
+            likelyCause: 'The server may be overloaded.',
+            suggestion: 'Try again.',
+            isRetryable: true,
+          },
+        },
+      });
+      render(<MacStatusCard mac={mac} showProvisionState />);
+
+      expect(screen.getByText(/could not be re-read: The server took too long/)).toBeInTheDocument();
+    });
   });
 
   describe('layout and data display', () => {
@@ -1,6 +1,9 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, AlertTriangle, CheckCircle, Clock, X, RefreshCw } from 'lucide-react';
+import { Loader2, AlertTriangle, CheckCircle, Clock, CloudOff, X, RefreshCw } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { RetryProgress } from '@/utils/retry';
+import type { ProvisionVerification } from '@/services/provisioningApi';
 
 export interface MacStatus {
   mac: string;
@@ -12,7 +15,14 @@ export interface MacStatus {
     isp: string;
   };
   error?: string;
-  provisionState: 'pending' | 'provisioning' | 'complete' | 'error';
+  /**
+   * `unverified`: the backend reported success but reading the record back did not match.
+   * `queued`: there was no connection, so the provision waits in the outbox.
+   */
+  provisionState: 'pending' | 'provisioning' | 'complete' | 'unverified' | 'queued' | 'error';
+  verification?: ProvisionVerification;
+  /** Set while the in-flight search or provision is being retried */
+  retry?: RetryProgress;
 }
 
 interface MacStatusCardProps {
@@ -20,92 +30,161 @@ interface MacStatusCardProps {
   showProvisionState?: boolean;
 }
 
-export function MacStatusCard({ mac, showProvisionState = false }: MacStatusCardProps) {
+interface MacStatusBadgeProps {
+  mac: MacStatus;
+}
+
+/**
+ * Current-status badge for a MAC. Shows "Replaced" once a previously existing
+ * record has been successfully reprovisioned.
+ */
+export function MacStatusBadge({ mac }: MacStatusBadgeProps) {
   const isComplete = mac.provisionState === 'complete';
   const hadPreviousData = mac.status === 'found' && mac.currentData;
 
-  const getStatusBadge = () => {
-    // After successful provisioning, show "Replaced" if there was previous data
-    if (isComplete && hadPreviousData) {
+  // After successful provisioning, show "Replaced" if there was previous data
+  if (isComplete && hadPreviousData) {
+    return (
+      <Badge className="gap-1 bg-success text-success-foreground">
+        <RefreshCw className="h-3 w-3" />
+        Replaced
+      </Badge>
+    );
+  }
+
+  switch (mac.status) {
+    case 'checking':
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {mac.retry ? `Retrying (${mac.retry.attempt}/${mac.retry.maxAttempts})...` : 'Checking...'}
+        </Badge>
+      );
+    case 'found':
+      return (
+        <Badge variant="warning" className="gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          Exists
+        </Badge>
+      );
+    case 'not-found':
+      return (
+        <Badge variant="outline" className="gap-1">
+          <CheckCircle className="h-3 w-3" />
+          Available
+        </Badge>
+      );
+    case 'unknown':
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          Unknown
+        </Badge>
+      );
+    default:
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Clock className="h-3 w-3" />
+          Pending
+        </Badge>
+      );
+  }
+}
+
+interface ProvisionStateBadgeProps {
+  state: MacStatus['provisionState'];
+  retry?: RetryProgress;
+}
+
+export function ProvisionStateBadge({ state, retry }: ProvisionStateBadgeProps) {
+  switch (state) {
+    case 'provisioning':
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {retry ? `Retrying (${retry.attempt}/${retry.maxAttempts})...` : 'Provisioning...'}
+        </Badge>
+      );
+    case 'complete':
       return (
         <Badge className="gap-1 bg-success text-success-foreground">
-          <RefreshCw className="h-3 w-3" />
-          Replaced
+          <CheckCircle className="h-3 w-3" />
+          Complete
+        </Badge>
+      );
+    case 'unverified':
+      return (
+        <Badge variant="warning" className="gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          Not Verified
+        </Badge>
+      );
+    case 'queued':
+      return (
+        <Badge variant="warning" className="gap-1">
+          <CloudOff className="h-3 w-3" />
+          Pending Sync
+        </Badge>
+      );
+    case 'error':
+      return (
+        <Badge variant="destructive" className="gap-1">
+          <X className="h-3 w-3" />
+          Error
         </Badge>
       );
-    }
+    default:
+      return (
+        <Badge variant="outline" className="gap-1">
+          <Clock className="h-3 w-3" />
+          Pending
+        </Badge>
+      );
+  }
+}
 
-    switch (mac.status) {
-      case 'checking':
-        return (
-          <Badge variant="secondary" className="gap-1">
-            <Loader2 className="h-3 w-3 animate-spin" />
-            Checking...
-          </Badge>
-        );
-      case 'found':
-        return (
-          <Badge variant="warning" className="gap-1">
-            <AlertTriangle className="h-3 w-3" />
-            Exists
-          </Badge>
-        );
-      case 'not-found':
-        return (
-          <Badge variant="outline" className="gap-1">
-            <CheckCircle className="h-3 w-3" />
-            Available
-          </Badge>
-        );
-      case 'unknown':
-        return (
-          <Badge variant="secondary" className="gap-1">
-            <AlertTriangle className="h-3 w-3" />
-            Unknown
-          </Badge>
-        );
-      default:
-        return (
-          <Badge variant="secondary" className="gap-1">
-            <Clock className="h-3 w-3" />
-            Pending
-          </Badge>
-        );
-    }
-  };
+/**
+ * What the read-back after provisioning found, field by field, where it
+ * differs from the request
+ */
+export function VerificationDiff({ verification }: { verification: ProvisionVerification }) {
+  if (verification.error) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        The backend reported success, but the record could not be re-read: {verification.error.message}
+      </p>
+    );
+  }
 
-  const getProvisionBadge = (state: MacStatus['provisionState']) => {
-    switch (state) {
-      case 'provisioning':
-        return (
-          <Badge variant="secondary" className="gap-1">
-            <Loader2 className="h-3 w-3 animate-spin" />
-            Provisioning...
-          </Badge>
-        );
-      case 'complete':
-        return (
-          <Badge className="gap-1 bg-success text-success-foreground">
-            <CheckCircle className="h-3 w-3" />
-            Complete
-          </Badge>
-        );
-      case 'error':
-        return (
-          <Badge variant="destructive" className="gap-1">
-            <X className="h-3 w-3" />
-            Error
-          </Badge>
-        );
-      default:
-        return (
-          <Badge variant="outline" className="gap-1">
-            <Clock className="h-3 w-3" />
-            Pending
-          </Badge>
-        );
-    }
-  };
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">
+        The backend reported success, but the record read back does not match the request.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8">Field</TableHead>
+            <TableHead className="h-8">Requested</TableHead>
+            <TableHead className="h-8">Found</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {verification.mismatches.map(({ field, requested, actual }) => (
+            <TableRow key={field}>
+              <TableCell className="py-1 font-medium">{field}</TableCell>
+              <TableCell className="py-1 font-mono text-xs">{requested}</TableCell>
+              <TableCell className="py-1 font-mono text-xs text-destructive">{actual ?? 'not found'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function MacStatusCard({ mac, showProvisionState = false }: MacStatusCardProps) {
+  const isComplete = mac.provisionState === 'complete';
 
   return (
     <Card>
@@ -123,7 +202,7 @@ export function MacStatusCard({ mac, showProvisionState = false }: MacStatusCard
             {isComplete ? 'Previous Status' : 'Current Status'}
           </span>
           <div className="flex flex-col items-end gap-1 justify-self-end">
-            {getStatusBadge()}
+            <MacStatusBadge mac={mac} />
             {mac.currentData && (
               <div className="text-xs text-muted-foreground">
                 {mac.currentData.account} • {mac.currentData.configfile}
@@ -154,13 +233,18 @@ export function MacStatusCard({ mac, showProvisionState = false }: MacStatusCard
               <span className="text-sm text-muted-foreground pt-2 border-t border-border col-span-2" />
               <span className="text-sm text-muted-foreground">Provision State</span>
               <div className="flex flex-col items-end gap-1 justify-self-end">
-                {getProvisionBadge(mac.provisionState)}
+                <ProvisionStateBadge state={mac.provisionState} retry={mac.retry} />
                 {mac.error && (
                   <div className="text-xs text-destructive max-w-[200px] text-right" title={mac.error}>
                     {mac.error}
                   </div>
                 )}
               </div>
+              {mac.provisionState === 'unverified' && mac.verification && (
+                <div className="col-span-2">
+                  <VerificationDiff verification={mac.verification} />
+                </div>
+              )}
             </>
           )}
         </div>
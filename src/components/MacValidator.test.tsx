@@ -3,10 +3,12 @@ import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { MacValidator } from './MacValidator';
 
-const createMockFetch = (approvedOuis: string[]) => {
+const createMockFetch = (approvedOuis: string[]) => createRegistryFetch({ approved_ouis: approvedOuis });
+
+const createRegistryFetch = (config: object) => {
   return vi.fn().mockResolvedValue({
     ok: true,
-    json: () => Promise.resolve({ approved_ouis: approvedOuis }),
+    json: () => Promise.resolve(config),
   });
 };
 
@@ -77,6 +79,48 @@ describe('MacValidator', () => {
     });
   });
 
+  describe('pasting freeform text', () => {
+    it('takes the MAC out of a labelled paste', async () => {
+      const user = userEvent.setup();
+      render(<MacValidator onValidated={vi.fn()} />);
+
+      const input = screen.getByPlaceholderText(/Enter MAC/);
+      await user.click(input);
+      await user.paste('S/N: 4711829 MAC: 00-07-11-22-9E-16');
+
+      expect(input).toHaveValue('00:07:11:22:9E:16');
+      expect(screen.queryByText(/Choose one/)).not.toBeInTheDocument();
+    });
+
+    it('offers a choice when the paste contains several MACs', async () => {
+      const user = userEvent.setup();
+      render(<MacValidator onValidated={vi.fn()} />);
+
+      const input = screen.getByPlaceholderText(/Enter MAC/);
+      await user.click(input);
+      await user.paste('Unit 1 MAC 000711229E16\nUnit 2 MAC 000711229E17');
+
+      expect(input).toHaveValue('');
+      expect(screen.getByText(/contains 2 MAC addresses/)).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: '00:07:11:22:9E:17' }));
+
+      expect(input).toHaveValue('00:07:11:22:9E:17');
+      expect(screen.queryByText(/Choose one/)).not.toBeInTheDocument();
+    });
+
+    it('treats a paste without a whole MAC as typed input', async () => {
+      const user = userEvent.setup();
+      render(<MacValidator onValidated={vi.fn()} />);
+
+      const input = screen.getByPlaceholderText(/Enter MAC/);
+      await user.click(input);
+      await user.paste('aabbcc');
+
+      expect(input).toHaveValue('AA:BB:CC');
+    });
+  });
+
   describe('validation flow', () => {
     it('shows error for incomplete MAC address', async () => {
       global.fetch = createMockFetch(['AABBCC']);
@@ -118,7 +162,10 @@ describe('MacValidator', () => {
       await user.click(screen.getByText('Validate'));
 
       await waitFor(() => {
-        expect(onValidated).toHaveBeenCalledWith('AA:BB:CC:DD:EE:FF');
+        expect(onValidated).toHaveBeenCalledWith(
+          'AA:BB:CC:DD:EE:FF',
+          expect.objectContaining({ vendor: 'VIAVI', prefix: 'AABBCC' })
+        );
       });
     });
 
@@ -136,6 +183,30 @@ describe('MacValidator', () => {
         expect(screen.getByText(/validated successfully/)).toBeInTheDocument();
       });
     });
+
+    it('names the vendor, model and prefix that approved the MAC', async () => {
+      global.fetch = createRegistryFetch({ entries: [{ vendor: 'VIAVI', model: 'ONX-620', prefix: '000711' }] });
+      const user = userEvent.setup();
+
+      render(<MacValidator onValidated={vi.fn()} />);
+
+      await user.type(screen.getByPlaceholderText(/Enter MAC/), '000711229E16');
+      await user.click(screen.getByText('Validate'));
+
+      expect(await screen.findByText(/VIAVI ONX-620 \(000711\)/)).toBeInTheDocument();
+    });
+
+    it('explains when only part of the OUI is approved', async () => {
+      global.fetch = createRegistryFetch({ entries: [{ vendor: 'VIAVI', model: 'ONX-620', prefix: '0007112' }] });
+      const user = userEvent.setup();
+
+      render(<MacValidator onValidated={vi.fn()} />);
+
+      await user.type(screen.getByPlaceholderText(/Enter MAC/), '000711F29E16');
+      await user.click(screen.getByText('Validate'));
+
+      expect(await screen.findByText(/OUI 000711 is only approved for 0007112 \(MA-M\)/)).toBeInTheDocument();
+    });
   });
 
   describe('helper text', () => {
@@ -213,8 +284,23 @@ describe('MacValidator', () => {
       await user.click(screen.getByText('Validate'));
 
       await waitFor(() => {
-        expect(screen.getByText(/not a known Viavi meter/)).toBeInTheDocument();
+        expect(screen.getByText(/approved OUI list could not be loaded/)).toBeInTheDocument();
       });
     });
+
+    it('reports an invalid OUI registry as a configuration error instead of rejecting the MAC', async () => {
+      global.fetch = createRegistryFetch({ entries: [{ vendor: 'VIAVI', prefix: '0007' }] });
+      const onValidated = vi.fn();
+      const user = userEvent.setup();
+
+      render(<MacValidator onValidated={onValidated} />);
+
+      await user.type(screen.getByPlaceholderText(/Enter MAC/), '000711229E16');
+      await user.click(screen.getByText('Validate'));
+
+      expect(await screen.findByText('Invalid Configuration')).toBeInTheDocument();
+      expect(screen.getByText(/approved-ouis\.json is invalid/)).toBeInTheDocument();
+      expect(onValidated).not.toHaveBeenCalled();
+    });
   });
 });
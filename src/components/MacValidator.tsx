@@ -1,12 +1,17 @@
-import { useState } from 'react';
+import { ClipboardEvent, useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { AlertCircle, CheckCircle } from 'lucide-react';
-import { normalizeMac, validateMacFormat, isCompleteMac, extractOui } from '@/utils/macUtils';
+import { normalizeMac, validateMacFormat, isCompleteMac, extractMacs } from '@/utils/macUtils';
+import { fetchOuiRegistry } from '@/utils/configLoader';
+import { formatOuiMatch, matchOui, OuiMatch, OuiRegistryEntry } from '@/utils/ouiRegistry';
+import { classifyError, ClassifiedError } from '@/utils/errorUtils';
+import { ErrorDisplay } from './ErrorDisplay';
 
 interface MacValidatorProps {
-  onValidated: (mac: string) => void;
+  /** Called with the MAC and the registry entry that approved it */
+  onValidated: (mac: string, entry: OuiRegistryEntry) => void;
   isLoading?: boolean;
 }
 
@@ -14,16 +19,24 @@ export function MacValidator({ onValidated, isLoading = false }: MacValidatorPro
   const [mac, setMac] = useState('');
   const [error, setError] = useState('');
   const [isValid, setIsValid] = useState(false);
+  const [matchedEntry, setMatchedEntry] = useState<OuiRegistryEntry | null>(null);
+  /** Why the approved OUI list could not be used, which no MAC can fix */
+  const [configError, setConfigError] = useState<ClassifiedError | null>(null);
+  /** MACs found in a paste that contained more than one */
+  const [candidates, setCandidates] = useState<string[]>([]);
 
-  const checkOui = async (mac: string): Promise<boolean> => {
+  const checkOui = async (mac: string): Promise<OuiMatch | null> => {
     try {
-      const response = await fetch('/config/approved-ouis.json');
-      const config = await response.json();
-      const oui = extractOui(mac);
-      return config.approved_ouis.includes(oui);
+      const match = matchOui(mac, await fetchOuiRegistry());
+      setConfigError(null);
+      return match;
     } catch (error) {
       console.error('Failed to load OUI config:', error);
-      return false;
+      setConfigError(
+        (error as { classifiedError?: ClassifiedError }).classifiedError ||
+          classifyError(error as Error, { type: 'config' })
+      );
+      return null;
     }
   };
 
@@ -32,6 +45,19 @@ export function MacValidator({ onValidated, isLoading = false }: MacValidatorPro
     setMac(normalized);
     setError('');
     setIsValid(false);
+    setCandidates([]);
+  };
+
+  // Pull MACs out of pasted text rather than normalizing all of it, which
+  // would mix label and serial-number digits into the MAC. A paste with no
+  // MAC in it (e.g. a fragment) is handled as typed input.
+  const handlePaste = (event: ClipboardEvent<HTMLInputElement>) => {
+    const found = extractMacs(event.clipboardData.getData('text'));
+    if (found.length === 0) return;
+
+    event.preventDefault();
+    handleInputChange(found.length === 1 ? found[0] : '');
+    if (found.length > 1) setCandidates(found);
   };
 
   const handleValidate = async () => {
@@ -45,15 +71,21 @@ export function MacValidator({ onValidated, isLoading = false }: MacValidatorPro
       return;
     }
 
-    const ouiApproved = await checkOui(mac);
-    if (!ouiApproved) {
-      setError('This is not a known Viavi meter.');
+    const match = await checkOui(mac);
+    if (!match) {
+      setError('The approved OUI list could not be loaded, so this MAC cannot be checked.');
+      return;
+    }
+    const { entry, reason } = match;
+    if (!entry) {
+      setError(reason);
       return;
     }
 
     setError('');
     setIsValid(true);
-    onValidated(mac);
+    setMatchedEntry(entry);
+    onValidated(mac, entry);
   };
 
   const showCompletionHint = isCompleteMac(mac) && !isValid && !error;
@@ -69,6 +101,7 @@ export function MacValidator({ onValidated, isLoading = false }: MacValidatorPro
             id="mac-input"
             value={mac}
             onChange={(e) => handleInputChange(e.target.value)}
+            onPaste={handlePaste}
             placeholder="Enter MAC (any format)"
             className="font-mono text-sm"
             maxLength={23}
@@ -81,8 +114,28 @@ export function MacValidator({ onValidated, isLoading = false }: MacValidatorPro
             Validate
           </Button>
         </div>
-        
-        
+
+        {candidates.length > 0 && (
+          <div className="space-y-2 rounded-md border p-3">
+            <p className="text-sm text-muted-foreground">
+              The pasted text contains {candidates.length} MAC addresses. Choose one:
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {candidates.map((candidate) => (
+                <Button
+                  key={candidate}
+                  variant="outline"
+                  size="sm"
+                  className="font-mono"
+                  onClick={() => handleInputChange(candidate)}
+                >
+                  {candidate}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {error && (
           <div className="flex items-center gap-2 text-sm text-destructive">
             <AlertCircle className="h-4 w-4" />
@@ -90,16 +143,18 @@ export function MacValidator({ onValidated, isLoading = false }: MacValidatorPro
           </div>
         )}
         
+        {configError && <ErrorDisplay error={configError} onRetry={handleValidate} />}
+
         {showCompletionHint && (
           <p className="text-xs text-muted-foreground">
             Press Validate to continue
           </p>
         )}
         
-        {isValid && !error && (
+        {isValid && matchedEntry && !error && (
           <div className="flex items-center gap-2 text-sm text-success">
             <CheckCircle className="h-4 w-4" />
-            <span>MAC validated successfully</span>
+            <span>MAC validated successfully: {formatOuiMatch(matchedEntry)}</span>
           </div>
         )}
       </div>
@@ -0,0 +1,21 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { useOutbox } from '@/hooks/use-provisioning';
+import { CloudOff } from 'lucide-react';
+
+/**
+ * Header link to the outbox, shown only while provisions are waiting to sync
+ */
+export function OutboxBadge() {
+  const items = useOutbox();
+  if (items.length === 0) return null;
+
+  return (
+    <Button variant="outline" asChild className="gap-2 border-warning text-warning-foreground">
+      <Link to="/outbox">
+        <CloudOff className="h-4 w-4 text-warning" />
+        {items.length} pending sync
+      </Link>
+    </Button>
+  );
+}
@@ -0,0 +1,65 @@
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutboxPage } from './OutboxPage';
+import { createMemoryStorage, provisioningOutbox } from '@/services/provisioningOutbox';
+
+vi.mock('@/services/provisioningApi', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/provisioningApi')>()),
+  provisioningApi: {
+    searchByMac: vi.fn(),
+    addHsd: vi.fn(),
+  },
+}));
+
+import { provisioningApi } from '@/services/provisioningApi';
+
+const request = { mac: 'AA:BB:CC:DD:EE:FF', account: 'acct', configfile: 'new.cfg', isp: 'isp' };
+
+describe('OutboxPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    provisioningOutbox.configure({ storage: createMemoryStorage() });
+  });
+
+  it('says when nothing is queued', async () => {
+    render(<OutboxPage />, { wrapper: MemoryRouter });
+
+    expect(await screen.findByText('Nothing is waiting to sync.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Sync Now/ })).toBeDisabled();
+  });
+
+  it('cancels a queued provision', async () => {
+    await provisioningOutbox.enqueue(request, null);
+    const user = userEvent.setup();
+    render(<OutboxPage />, { wrapper: MemoryRouter });
+
+    const row = screen.getByText(request.mac).closest('tr')!;
+    expect(within(row).getByText('Pending Sync')).toBeInTheDocument();
+    await user.click(within(row).getByRole('button', { name: 'Cancel' }));
+
+    expect(await screen.findByText('Nothing is waiting to sync.')).toBeInTheDocument();
+  });
+
+  it('shows a conflict and provisions anyway on request', async () => {
+    const changed = { ...request, account: 'someone-else', configfile: 'other.cfg' };
+    await provisioningOutbox.enqueue(request, null);
+    vi.mocked(provisioningApi.searchByMac).mockResolvedValue([changed]);
+    vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
+    const user = userEvent.setup();
+    render(<OutboxPage />, { wrapper: MemoryRouter });
+
+    await user.click(screen.getByRole('button', { name: /Sync Now/ }));
+
+    expect(await screen.findByText('Conflict')).toBeInTheDocument();
+    expect(screen.getByText(/Now provisioned with account someone-else, config other.cfg/)).toBeInTheDocument();
+    expect(provisioningApi.addHsd).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Provision Anyway' }));
+    await user.click(screen.getByRole('button', { name: /Sync Now/ }));
+
+    await waitFor(() => expect(provisioningApi.addHsd).toHaveBeenCalledWith(request));
+    expect(await screen.findByText('Nothing is waiting to sync.')).toBeInTheDocument();
+  });
+});
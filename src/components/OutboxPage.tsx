@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { TechnicianMenu } from './TechnicianMenu';
+import { useOutbox } from '@/hooks/use-provisioning';
+import { OutboxItem, provisioningOutbox } from '@/services/provisioningOutbox';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, CloudOff, Loader2, RefreshCw, X } from 'lucide-react';
+import viaviLogo from '@/assets/viavi-logo.png';
+
+function OutboxStatusBadge({ item }: { item: OutboxItem }) {
+  switch (item.status) {
+    case 'conflict':
+      return (
+        <Badge variant="warning" className="gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          Conflict
+        </Badge>
+      );
+    case 'failed':
+      return (
+        <Badge variant="destructive" className="gap-1">
+          <X className="h-3 w-3" />
+          Failed
+        </Badge>
+      );
+    default:
+      return (
+        <Badge variant="outline" className="gap-1">
+          <CloudOff className="h-3 w-3" />
+          Pending Sync
+        </Badge>
+      );
+  }
+}
+
+/**
+ * What the technician needs to decide about an item: the record that
+ * appeared since it was queued, or why the last replay failed
+ */
+function describeItem(item: OutboxItem): string {
+  if (item.status === 'conflict') {
+    return item.found
+      ? `Now provisioned with account ${item.found.account}, config ${item.found.configfile}, ISP ${item.found.isp}.`
+      : 'The record it would have replaced has been removed.';
+  }
+  return item.error?.message ?? '';
+}
+
+export function OutboxPage() {
+  const items = useOutbox();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { toast } = useToast();
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: 'Outbox Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    await runAction(() => provisioningOutbox.replay());
+    setIsSyncing(false);
+  };
+
+  const hasPending = items.some((item) => item.status === 'pending');
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <img src={viaviLogo} alt="Viavi Logo" className="h-12 w-12 rounded-lg" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Outbox</h1>
+              <p className="text-muted-foreground">
+                Provisions saved while there was no connection, sent when it returns.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <TechnicianMenu />
+            <Button variant="outline" asChild>
+              <Link to="/">Single MAC</Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-primary rounded-full" />
+              Queued Provisions
+            </CardTitle>
+            <Button onClick={handleSyncNow} disabled={isSyncing || !hasPending} className="gap-2">
+              {isSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              Sync Now
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Queued</TableHead>
+                  <TableHead>MAC Address</TableHead>
+                  <TableHead>Config File</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      Nothing is waiting to sync.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(item.queuedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <code className="font-mono text-sm">{item.request.mac}</code>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{item.request.configfile}</TableCell>
+                      <TableCell>
+                        <OutboxStatusBadge item={item} />
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {describeItem(item)}
+                        {item.attempts > 0 && (
+                          <span className="block text-xs">
+                            {item.attempts} {item.attempts === 1 ? 'attempt' : 'attempts'}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap space-x-2">
+                        {item.status === 'conflict' && (
+                          <Button size="sm" onClick={() => runAction(() => provisioningOutbox.requeue(item.id))}>
+                            Provision Anyway
+                          </Button>
+                        )}
+                        {item.status === 'failed' && (
+                          <Button size="sm" onClick={() => runAction(() => provisioningOutbox.requeue(item.id))}>
+                            Retry
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => runAction(() => provisioningOutbox.cancel(item.id))}
+                        >
+                          Cancel
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HISTORY_PAGE_SIZE, ProvisioningHistoryPage } from './ProvisioningHistoryPage';
+import type { AuditRecord } from '@/services/auditApi';
+
+vi.mock('@/services/auditApi', () => ({
+  fetchAuditHistory: vi.fn(),
+}));
+
+import { fetchAuditHistory } from '@/services/auditApi';
+
+const record = (overrides: Partial<AuditRecord> = {}): AuditRecord => ({
+  timestamp: '2026-03-01T12:00:00.000Z',
+  user: { sub: 'tech-1', name: 'Pat Field' },
+  mac: 'AA:BB:CC:DD:EE:FF',
+  account: 'ACC-NEW',
+  isp: 'ISP',
+  configfile: 'viavi.cfg',
+  upstreamStatus: 200,
+  outcome: 'success',
+  durationMs: 40,
+  ...overrides,
+});
+
+describe('ProvisioningHistoryPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // TechnicianMenu: sign-in not enforced
+    global.fetch = vi.fn(async () => new Response('<!doctype html>', { status: 200 }));
+    vi.mocked(fetchAuditHistory).mockResolvedValue({ records: [record()], total: 1 });
+  });
+
+  it('lists the first page of audit records', async () => {
+    render(<ProvisioningHistoryPage />, { wrapper: MemoryRouter });
+
+    expect(await screen.findByText('AA:BB:CC:DD:EE:FF')).toBeInTheDocument();
+    expect(screen.getByText('Pat Field')).toBeInTheDocument();
+    expect(within(screen.getByRole('table')).getByText('Provisioned')).toBeInTheDocument();
+    expect(screen.getByText('1 action')).toBeInTheDocument();
+    expect(fetchAuditHistory).toHaveBeenCalledWith(
+      expect.objectContaining({ offset: 0, limit: HISTORY_PAGE_SIZE, outcome: undefined })
+    );
+  });
+
+  it('applies the filters on search', async () => {
+    const user = userEvent.setup();
+    render(<ProvisioningHistoryPage />, { wrapper: MemoryRouter });
+    await screen.findByText('AA:BB:CC:DD:EE:FF');
+
+    await user.type(screen.getByLabelText('MAC Address'), 'aabb.ccdd.eeff');
+    await user.type(screen.getByLabelText('Technician'), ' pat ');
+    await user.type(screen.getByLabelText('Config File'), 'viavi.cfg');
+    await user.type(screen.getByLabelText('From'), '2026-03-01');
+    await user.click(screen.getByRole('button', { name: 'Search' }));
+
+    await waitFor(() =>
+      expect(fetchAuditHistory).toHaveBeenLastCalledWith({
+        mac: 'aabb.ccdd.eeff',
+        technician: 'pat',
+        configfile: 'viavi.cfg',
+        outcome: undefined,
+        from: '2026-03-01',
+        to: '',
+        offset: 0,
+        limit: HISTORY_PAGE_SIZE,
+      })
+    );
+  });
+
+  it('pages through the results', async () => {
+    vi.mocked(fetchAuditHistory).mockResolvedValue({ records: [record()], total: HISTORY_PAGE_SIZE * 3 });
+    const user = userEvent.setup();
+    render(<ProvisioningHistoryPage />, { wrapper: MemoryRouter });
+    await screen.findByText('AA:BB:CC:DD:EE:FF');
+
+    await user.click(screen.getByRole('link', { name: /next/i }));
+    await waitFor(() =>
+      expect(fetchAuditHistory).toHaveBeenLastCalledWith(expect.objectContaining({ offset: HISTORY_PAGE_SIZE }))
+    );
+
+    await user.click(screen.getByRole('link', { name: '3' }));
+    await waitFor(() =>
+      expect(fetchAuditHistory).toHaveBeenLastCalledWith(expect.objectContaining({ offset: HISTORY_PAGE_SIZE * 2 }))
+    );
+  });
+
+  it('shows the before and after record and the classified error for a failed provision', async () => {
+    vi.mocked(fetchAuditHistory).mockResolvedValue({
+      records: [
+        record({
+          outcome: 'failure',
+          upstreamStatus: 500,
+          previousRecord: { mac: 'AA:BB:CC:DD:EE:FF', account: 'ACC-OLD', isp: 'ISP', configfile: 'viavi.cfg' },
+          classifiedError: {
+            category: 'server',
+            title: 'Server Error',
+            message: 'The provisioning server encountered an error.',
+            likelyCause: 'The LDAP API returned an internal error.',
+            suggestion: 'Try again in a few minutes.',
+            isRetryable: true,
+          },
+        }),
+      ],
+      total: 1,
+    });
+    const user = userEvent.setup();
+    render(<ProvisioningHistoryPage />, { wrapper: MemoryRouter });
+
+    await user.click(await screen.findByText('AA:BB:CC:DD:EE:FF'));
+
+    const dialog = await screen.findByRole('dialog');
+    expect(within(dialog).getByText('ACC-OLD')).toBeInTheDocument();
+    expect(within(dialog).getByText('ACC-NEW')).toBeInTheDocument();
+    expect(within(dialog).getByText('Server Error')).toBeInTheDocument();
+    expect(within(dialog).getByText('500')).toBeInTheDocument();
+  });
+
+  it('shows the error when the audit log cannot be loaded', async () => {
+    vi.mocked(fetchAuditHistory).mockRejectedValue(
+      Object.assign(new Error('Access denied'), {
+        classifiedError: {
+          category: 'auth',
+          title: 'Access Denied',
+          message: 'Access denied',
+          likelyCause: 'Your account is not in an allowed group.',
+          suggestion: 'Ask an administrator for access.',
+          isRetryable: false,
+        },
+      })
+    );
+    render(<ProvisioningHistoryPage />, { wrapper: MemoryRouter });
+
+    expect(await screen.findByText('Access Denied')).toBeInTheDocument();
+    expect(screen.getByText('No provisioning actions match these filters.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,344 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { ErrorDisplay } from './ErrorDisplay';
+import { TechnicianMenu } from './TechnicianMenu';
+import { AuditOutcomeBadge, AuditRecordDialog } from './AuditRecordDialog';
+import { AuditFilter, AuditOutcome, AuditRecord, fetchAuditHistory } from '@/services/auditApi';
+import { classifyError, ClassifiedError } from '@/utils/errorUtils';
+import { Loader2, Search } from 'lucide-react';
+import viaviLogo from '@/assets/viavi-logo.png';
+
+export const HISTORY_PAGE_SIZE = 25;
+
+interface HistoryFilterForm {
+  mac: string;
+  technician: string;
+  configfile: string;
+  outcome: AuditOutcome | 'all';
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: HistoryFilterForm = {
+  mac: '',
+  technician: '',
+  configfile: '',
+  outcome: 'all',
+  from: '',
+  to: '',
+};
+
+function toAuditFilter(form: HistoryFilterForm): AuditFilter {
+  return {
+    mac: form.mac.trim(),
+    technician: form.technician.trim(),
+    configfile: form.configfile.trim(),
+    outcome: form.outcome === 'all' ? undefined : form.outcome,
+    from: form.from,
+    to: form.to,
+  };
+}
+
+/**
+ * Page numbers to show: first, last, and the neighbours of the current page,
+ * with null marking a gap
+ */
+function pageWindow(current: number, count: number): Array<number | null> {
+  const pages: Array<number | null> = [];
+  for (let page = 1; page <= count; page++) {
+    if (page === 1 || page === count || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+export function ProvisioningHistoryPage() {
+  const [form, setForm] = useState<HistoryFilterForm>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<HistoryFilterForm>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<ClassifiedError | null>(null);
+  const [selected, setSelected] = useState<AuditRecord | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchAuditHistory({
+      ...toAuditFilter(applied),
+      offset: (page - 1) * HISTORY_PAGE_SIZE,
+      limit: HISTORY_PAGE_SIZE,
+    })
+      .then((result) => {
+        if (cancelled) return;
+        setRecords(result.records);
+        setTotal(result.total);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setRecords([]);
+        setTotal(0);
+        setError(
+          (err as { classifiedError?: ClassifiedError }).classifiedError ??
+            classifyError(err as Error, { type: 'history' })
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applied, page, reloadKey]);
+
+  const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+
+  const updateForm = (changes: Partial<HistoryFilterForm>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    setApplied(form);
+    setPage(1);
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FILTERS);
+    setApplied(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  const goToPage = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount) setPage(target);
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <img src={viaviLogo} alt="Viavi Logo" className="h-12 w-12 rounded-lg" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Provisioning History</h1>
+              <p className="text-muted-foreground">
+                Who provisioned which meter, when, and with which configuration.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <TechnicianMenu />
+            <Button variant="outline" asChild>
+              <Link to="/">Single MAC</Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-primary rounded-full" />
+              Filters
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSearch} className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="history-mac">MAC Address</Label>
+                <Input
+                  id="history-mac"
+                  value={form.mac}
+                  onChange={(e) => updateForm({ mac: e.target.value })}
+                  placeholder="00:07:11:22:9E:16"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-technician">Technician</Label>
+                <Input
+                  id="history-technician"
+                  value={form.technician}
+                  onChange={(e) => updateForm({ technician: e.target.value })}
+                  placeholder="Name or ID"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-configfile">Config File</Label>
+                <Input
+                  id="history-configfile"
+                  value={form.configfile}
+                  onChange={(e) => updateForm({ configfile: e.target.value })}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-outcome">Outcome</Label>
+                <Select
+                  value={form.outcome}
+                  onValueChange={(value) => updateForm({ outcome: value as HistoryFilterForm['outcome'] })}
+                >
+                  <SelectTrigger id="history-outcome">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All outcomes</SelectItem>
+                    <SelectItem value="success">Provisioned</SelectItem>
+                    <SelectItem value="failure">Failed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-from">From</Label>
+                <Input
+                  id="history-from"
+                  type="date"
+                  value={form.from}
+                  onChange={(e) => updateForm({ from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="history-to">To</Label>
+                <Input
+                  id="history-to"
+                  type="date"
+                  value={form.to}
+                  onChange={(e) => updateForm({ to: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-3 flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={handleReset}>
+                  Reset
+                </Button>
+                <Button type="submit" className="gap-2">
+                  <Search className="h-4 w-4" />
+                  Search
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <ErrorDisplay
+            error={error}
+            onRetry={error.isRetryable ? () => setReloadKey((key) => key + 1) : undefined}
+          />
+        )}
+
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>MAC Address</TableHead>
+                  <TableHead>Technician</TableHead>
+                  <TableHead>Config File</TableHead>
+                  <TableHead>Outcome</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      <Loader2 className="inline h-4 w-4 animate-spin mr-2" />
+                      Loading history...
+                    </TableCell>
+                  </TableRow>
+                ) : records.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No provisioning actions match these filters.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  records.map((record) => (
+                    <TableRow
+                      key={`${record.timestamp}-${record.mac}`}
+                      className="cursor-pointer"
+                      onClick={() => setSelected(record)}
+                    >
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(record.timestamp).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <code className="font-mono text-sm">{record.mac}</code>
+                      </TableCell>
+                      <TableCell>{record.user?.name ?? '—'}</TableCell>
+                      <TableCell className="font-mono text-sm">{record.configfile}</TableCell>
+                      <TableCell>
+                        <AuditOutcomeBadge record={record} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {total} {total === 1 ? 'action' : 'actions'}
+              </span>
+              {pageCount > 1 && (
+                <Pagination className="mx-0 w-auto">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious href="#" onClick={goToPage(page - 1)} />
+                    </PaginationItem>
+                    {pageWindow(page, pageCount).map((item, index) =>
+                      item === null ? (
+                        <PaginationItem key={`gap-${index}`}>
+                          <PaginationEllipsis />
+                        </PaginationItem>
+                      ) : (
+                        <PaginationItem key={item}>
+                          <PaginationLink href="#" isActive={item === page} onClick={goToPage(item)}>
+                            {item}
+                          </PaginationLink>
+                        </PaginationItem>
+                      )
+                    )}
+                    <PaginationItem>
+                      <PaginationNext href="#" onClick={goToPage(page + 1)} />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <AuditRecordDialog record={selected} onOpenChange={(open) => !open && setSelected(null)} />
+    </div>
+  );
+}
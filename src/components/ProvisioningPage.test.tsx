@@ -1,23 +1,42 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
 import { ProvisioningPage } from './ProvisioningPage';
+import { createMemoryStorage, provisioningOutbox } from '@/services/provisioningOutbox';
+import { classifyError } from '@/utils/errorUtils';
 
-vi.mock('@/services/provisioningApi', () => ({
+vi.mock('@/services/provisioningApi', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/provisioningApi')>()),
   provisioningApi: {
     searchByMac: vi.fn(async () => []),
-    addHsd: vi.fn(async () => ({ success: true }))
+    addHsd: vi.fn(async () => ({ success: true })),
+    removeHsd: vi.fn(async () => ({ success: true }))
   }
 }));
 
-const createFetchMock = (approvedOuis: string[] = ['A1B2C3']) => {
+const renderPage = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <MemoryRouter>
+        <ProvisioningPage />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+
+const createFetchMock = (
+  approvedOuis: string[] = ['A1B2C3'],
+  ouiConfig: object = { approved_ouis: approvedOuis },
+  profileConfig: object = { account: 'acct', isp: 'isp', configfile: 'cfg0' }
+) => {
   return vi.fn(async (input: RequestInfo | URL) => {
     const inputStr = typeof input === 'string' ? input : input.toString();
     if (inputStr.endsWith('approved-ouis.json')) {
-      return Promise.resolve({ ok: true, json: () => Promise.resolve({ approved_ouis: approvedOuis }) } as Response);
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(ouiConfig) } as Response);
     }
     if (inputStr.endsWith('provision-defaults.json')) {
-      return Promise.resolve({ ok: true, json: () => Promise.resolve({ account: 'acct', isp: 'isp', configfile: 'cfg0' }) } as Response);
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(profileConfig) } as Response);
     }
     return Promise.reject(new Error('Unknown fetch'));
   });
@@ -34,7 +53,7 @@ describe('ProvisioningPage', () => {
       const user = userEvent.setup();
       const { provisioningApi } = await import('@/services/provisioningApi');
 
-      render(<ProvisioningPage />);
+      renderPage();
 
       const input = await screen.findByPlaceholderText(/Enter MAC/);
       await user.type(input, 'A1B2C3000000');
@@ -47,12 +66,207 @@ describe('ProvisioningPage', () => {
       const call = vi.mocked(provisioningApi.addHsd).mock.calls[0];
       expect(call[0].mac).toBe('A1:B2:C3:00:00:00');
     });
+
+    it('uses the config file hint of the registry entry that approved the MAC', async () => {
+      global.fetch = createFetchMock([], {
+        entries: [{ vendor: 'VIAVI', model: 'ONX-620', prefix: 'A1B2C3', configfile: 'onx-620.cfg' }],
+      });
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+
+      renderPage();
+
+      const input = await screen.findByPlaceholderText(/Enter MAC/);
+      await user.type(input, 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.searchByMac)).toHaveBeenCalled());
+      await user.click(screen.getByText('Provision MAC'));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.addHsd)).toHaveBeenCalledTimes(1));
+      expect(vi.mocked(provisioningApi.addHsd).mock.calls[0][0].configfile).toBe('onx-620.cfg');
+    });
+  });
+
+  describe('provisioning profiles', () => {
+    const profileConfig = {
+      defaultProfile: 'standard',
+      profiles: [
+        { id: 'standard', name: 'Standard', account: 'acct', isp: 'isp', configfile: 'r-2000-1000' },
+        { id: 'high-tier', name: 'High tier', account: 'acct-hi', isp: 'isp', configfile: 'r-5000-1000' },
+      ],
+      rules: [{ profile: 'high-tier', model: 'ONX-620' }],
+    };
+    const ouiConfig = { entries: [{ vendor: 'VIAVI', model: 'ONX-620', prefix: 'A1B2C3' }, { vendor: 'VIAVI', prefix: '000711' }] };
+
+    beforeAll(() => {
+      // jsdom has no layout, but the profile Select scrolls its options into view
+      Element.prototype.scrollIntoView = vi.fn();
+    });
+
+    it('selects the profile whose rule matches the meter model', async () => {
+      global.fetch = createFetchMock([], ouiConfig, profileConfig);
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+
+      renderPage();
+
+      await user.type(await screen.findByPlaceholderText(/Enter MAC/), 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+
+      expect(await screen.findByText('Selected by rule: model ONX-620')).toBeInTheDocument();
+      expect(screen.getByRole('combobox', { name: 'Provisioning Profile' })).toHaveTextContent('High tier');
+      expect(screen.getByText('r-5000-1000')).toBeInTheDocument();
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.searchByMac)).toHaveBeenCalled());
+      await user.click(screen.getByText('Provision MAC'));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.addHsd)).toHaveBeenCalledTimes(1));
+      expect(vi.mocked(provisioningApi.addHsd).mock.calls[0][0]).toMatchObject({
+        account: 'acct-hi',
+        configfile: 'r-5000-1000',
+      });
+    });
+
+    it('updates the config to apply when another profile is chosen', async () => {
+      global.fetch = createFetchMock([], ouiConfig, profileConfig);
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+
+      renderPage();
+
+      await user.type(await screen.findByPlaceholderText(/Enter MAC/), '000711000001');
+      await user.click(screen.getByText('Validate'));
+
+      const profileSelect = await screen.findByRole('combobox', { name: 'Provisioning Profile' });
+      expect(profileSelect).toHaveTextContent('Standard');
+      expect(screen.getByText('r-2000-1000')).toBeInTheDocument();
+
+      profileSelect.focus();
+      await user.keyboard('{Enter}');
+      await user.click(await screen.findByRole('option', { name: 'High tier' }));
+
+      expect(await screen.findByText('r-5000-1000')).toBeInTheDocument();
+      expect(screen.getByText('Chosen for this meter')).toBeInTheDocument();
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.searchByMac)).toHaveBeenCalled());
+      await user.click(screen.getByText('Provision MAC'));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.addHsd)).toHaveBeenCalledTimes(1));
+      expect(vi.mocked(provisioningApi.addHsd).mock.calls[0][0].configfile).toBe('r-5000-1000');
+    });
+  });
+
+  describe('start over', () => {
+    it('cancels a status check still in flight', async () => {
+      global.fetch = createFetchMock();
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      let signal: AbortSignal | undefined;
+      vi.mocked(provisioningApi.searchByMac).mockImplementationOnce(
+        (_mac, options) =>
+          new Promise((_resolve, reject) => {
+            signal = options?.signal;
+            signal?.addEventListener('abort', () => reject(signal?.reason));
+          })
+      );
+
+      renderPage();
+
+      const input = await screen.findByPlaceholderText(/Enter MAC/);
+      await user.type(input, 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+
+      await waitFor(() => expect(signal).toBeDefined());
+      await user.click(screen.getByText('Start Over'));
+
+      expect(signal?.aborted).toBe(true);
+      expect(await screen.findByPlaceholderText(/Enter MAC/)).toBeInTheDocument();
+    });
+  });
+
+  describe('deprovisioning', () => {
+    it('requires the MAC to be re-entered before deprovisioning', async () => {
+      global.fetch = createFetchMock();
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValueOnce([
+        { mac: 'A1:B2:C3:00:00:00', account: 'existing', configfile: 'cfg1', isp: 'isp' },
+      ]);
+
+      renderPage();
+
+      const input = await screen.findByPlaceholderText(/Enter MAC/);
+      await user.type(input, 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+
+      await waitFor(() => expect(screen.getByText('Exists')).toBeInTheDocument());
+      await user.click(screen.getByRole('button', { name: /Deprovision/ }));
+
+      const confirmButton = within(screen.getByRole('dialog')).getByRole('button', { name: 'Deprovision' });
+      expect(confirmButton).toBeDisabled();
+
+      await user.type(screen.getByLabelText(/Re-enter the MAC/), 'a1-b2-c3-00-00-00');
+      expect(confirmButton).toBeEnabled();
+      await user.click(confirmButton);
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.removeHsd)).toHaveBeenCalledWith('A1:B2:C3:00:00:00'));
+      await waitFor(() => expect(screen.getByText('Available')).toBeInTheDocument());
+    });
+
+    it('asks for the MAC again before retrying a failed deprovision', async () => {
+      global.fetch = createFetchMock();
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValueOnce([
+        { mac: 'A1:B2:C3:00:00:00', account: 'existing', configfile: 'cfg1', isp: 'isp' },
+      ]);
+      vi.mocked(provisioningApi.removeHsd).mockResolvedValueOnce({
+        success: false,
+        error: classifyError(new Error('Server error: 500'), { type: 'deprovision' }),
+      });
+
+      renderPage();
+
+      await user.type(await screen.findByPlaceholderText(/Enter MAC/), 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+      await user.click(await screen.findByRole('button', { name: /Deprovision/ }));
+      await user.type(screen.getByLabelText(/Re-enter the MAC/), 'A1B2C3000000');
+      await user.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Deprovision' }));
+
+      await user.click(await screen.findByRole('button', { name: /Retry|Try Again/ }));
+
+      const confirmButton = within(screen.getByRole('dialog')).getByRole('button', { name: 'Deprovision' });
+      expect(confirmButton).toBeDisabled();
+      expect(vi.mocked(provisioningApi.removeHsd)).toHaveBeenCalledTimes(1);
+
+      await user.type(screen.getByLabelText(/Re-enter the MAC/), 'A1B2C3000000');
+      await user.click(confirmButton);
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.removeHsd)).toHaveBeenCalledTimes(2));
+    });
+
+    it('does not offer deprovisioning for MACs that are not provisioned', async () => {
+      global.fetch = createFetchMock();
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValueOnce([]);
+
+      renderPage();
+
+      const input = await screen.findByPlaceholderText(/Enter MAC/);
+      await user.type(input, 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+
+      await waitFor(() => expect(screen.getByText('Available')).toBeInTheDocument());
+      expect(screen.queryByRole('button', { name: /Deprovision/ })).not.toBeInTheDocument();
+    });
   });
 
   describe('step indicator', () => {
     it('shows step 1 as active initially', async () => {
       global.fetch = createFetchMock();
-      render(<ProvisioningPage />);
+      renderPage();
 
       // Step 1 should show "1" (active), not a checkmark
       const stepIndicators = screen.getAllByText('1');
@@ -65,7 +279,7 @@ describe('ProvisioningPage', () => {
       const { provisioningApi } = await import('@/services/provisioningApi');
       vi.mocked(provisioningApi.searchByMac).mockResolvedValue([]);
 
-      render(<ProvisioningPage />);
+      renderPage();
 
       const input = await screen.findByPlaceholderText(/Enter MAC/);
       await user.type(input, 'A1B2C3000000');
@@ -84,7 +298,7 @@ describe('ProvisioningPage', () => {
       vi.mocked(provisioningApi.searchByMac).mockResolvedValue([]);
       vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
 
-      render(<ProvisioningPage />);
+      renderPage();
 
       const input = await screen.findByPlaceholderText(/Enter MAC/);
       await user.type(input, 'A1B2C3000000');
@@ -100,5 +314,216 @@ describe('ProvisioningPage', () => {
         expect(screen.queryByText('3')).not.toBeInTheDocument();
       });
     });
+
+    it('saves a provision made without a connection for later sync', async () => {
+      global.fetch = createFetchMock();
+      provisioningOutbox.configure({ storage: createMemoryStorage() });
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValue([]);
+      vi.mocked(provisioningApi.addHsd).mockResolvedValue({
+        success: false,
+        error: {
+          category: 'network',
+          title: 'Network Error',
+          message: 'Unable to connect to the server.',
+          likelyCause: 'The server may be down, or there could be a network connectivity issue.',
+          suggestion: 'Check your network connection and verify the server is running.',
+          isRetryable: true,
+        },
+      });
+
+      renderPage();
+
+      const input = await screen.findByPlaceholderText(/Enter MAC/);
+      await user.type(input, 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.searchByMac)).toHaveBeenCalled());
+      await user.click(screen.getByText('Provision MAC'));
+
+      expect(await screen.findByText('Pending Sync')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /1 pending sync/ })).toHaveAttribute('href', '/outbox');
+      expect(provisioningOutbox.getItems()[0].request.mac).toBe('A1:B2:C3:00:00:00');
+    });
+
+    it('flags a provision whose read-back does not match as not verified', async () => {
+      global.fetch = createFetchMock();
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValue([]);
+      vi.mocked(provisioningApi.addHsd).mockResolvedValue({
+        success: true,
+        verification: {
+          verified: false,
+          mismatches: [{ field: 'configfile', requested: 'cfg0', actual: 'stale.cfg' }],
+        },
+      });
+
+      renderPage();
+
+      const input = await screen.findByPlaceholderText(/Enter MAC/);
+      await user.type(input, 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.searchByMac)).toHaveBeenCalled());
+      await user.click(screen.getByText('Provision MAC'));
+
+      expect(await screen.findByText('Not Verified')).toBeInTheDocument();
+      expect(screen.getByText('stale.cfg')).toBeInTheDocument();
+      // Step 3 is not marked done
+      expect(screen.getByText('3')).toBeInTheDocument();
+    });
+  });
+
+  describe('updating an existing MAC', () => {
+    const existing = {
+      mac: 'A1:B2:C3:00:00:00',
+      account: 'acct-old',
+      configfile: 'cfg-old',
+      isp: 'isp',
+      customFields: { serialnumber: 'VIAVI1' },
+    };
+
+    const withTechnician = (technician: object) => {
+      const fetchMock = createFetchMock();
+      return vi.fn(async (input: RequestInfo | URL) =>
+        String(input).endsWith('/auth/me')
+          ? ({ ok: true, json: () => Promise.resolve(technician) } as Response)
+          : fetchMock(input)
+      );
+    };
+
+    const openUpdate = async (user: ReturnType<typeof userEvent.setup>) => {
+      renderPage();
+      await user.type(await screen.findByPlaceholderText(/Enter MAC/), 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+      await user.click(await screen.findByRole('button', { name: 'Update MAC' }));
+      return screen.getByRole('dialog');
+    };
+
+    /** Answers /api/audit with the MAC's latest change, as the proxy records it */
+    const withAuditLog = (latest: () => object | null) => {
+      const fetchMock = createFetchMock();
+      return vi.fn(async (input: RequestInfo | URL) => {
+        if (!String(input).startsWith('/api/audit')) return fetchMock(input);
+        const record = latest();
+        const page = { records: record ? [record] : [], total: record ? 1 : 0 };
+        return { ok: true, json: () => Promise.resolve(page) } as Response;
+      });
+    };
+
+    const change = (values: object, previousRecord: object) => ({
+      timestamp: '2026-10-19T08:00:00.000Z',
+      user: { sub: 't1', name: 'Pat' },
+      mac: 'A1:B2:C3:00:00:00',
+      previousRecord,
+      upstreamStatus: 200,
+      outcome: 'success',
+      durationMs: 20,
+      ...values,
+    });
+
+    it('applies only the chosen changes and offers to revert them from the audit log', async () => {
+      let latest: object | null = null;
+      global.fetch = withAuditLog(() => latest);
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValue([existing]);
+      vi.mocked(provisioningApi.addHsd).mockImplementation(async (request) => {
+        latest = change(request, existing);
+        return { success: true };
+      });
+
+      const dialog = await openUpdate(user);
+      expect(within(dialog).getByText('serialnumber')).toBeInTheDocument();
+      expect(within(dialog).getByText('no change')).toBeInTheDocument();
+
+      await user.click(within(dialog).getByRole('checkbox', { name: 'Change account' }));
+      await user.click(within(dialog).getByRole('button', { name: 'Update 1 Field' }));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.addHsd)).toHaveBeenCalledTimes(1));
+      expect(vi.mocked(provisioningApi.addHsd).mock.calls[0][0]).toEqual({
+        mac: 'A1:B2:C3:00:00:00',
+        account: 'acct-old',
+        isp: 'isp',
+        configfile: 'cfg0',
+      });
+      expect(await screen.findByText(/configfile was cfg-old/)).toBeInTheDocument();
+
+      // Nothing is sent until the revert is confirmed
+      await user.click(screen.getByRole('button', { name: /Revert Change/ }));
+      const confirm = screen.getByRole('dialog');
+      expect(within(confirm).getByText('cfg-old')).toBeInTheDocument();
+      expect(vi.mocked(provisioningApi.addHsd)).toHaveBeenCalledTimes(1);
+
+      await user.click(within(confirm).getByRole('button', { name: 'Revert 1 Field' }));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.addHsd)).toHaveBeenCalledTimes(2));
+      expect(vi.mocked(provisioningApi.addHsd).mock.calls[1][0]).toEqual({
+        mac: 'A1:B2:C3:00:00:00',
+        account: 'acct-old',
+        isp: 'isp',
+        configfile: 'cfg-old',
+      });
+    });
+
+    it('offers to revert the last change of a MAC searched again, such as after a reload', async () => {
+      const updated = { ...existing, configfile: 'cfg0' };
+      global.fetch = withAuditLog(() => change({ account: 'acct-old', isp: 'isp', configfile: 'cfg0' }, existing));
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValue([updated]);
+      vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
+
+      renderPage();
+      await user.type(await screen.findByPlaceholderText(/Enter MAC/), 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+
+      expect(await screen.findByText(/configfile was cfg-old/)).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: /Revert Change/ }));
+      await user.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Revert 1 Field' }));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.addHsd)).toHaveBeenCalledTimes(1));
+      expect(vi.mocked(provisioningApi.addHsd).mock.calls[0][0]).toMatchObject({ configfile: 'cfg-old' });
+    });
+
+    it('does not offer a revert once the MAC has changed since its last audited provision', async () => {
+      global.fetch = withAuditLog(() => change({ account: 'acct-old', isp: 'isp', configfile: 'cfg-new' }, existing));
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValue([existing]);
+
+      renderPage();
+      await user.type(await screen.findByPlaceholderText(/Enter MAC/), 'A1B2C3000000');
+      await user.click(screen.getByText('Validate'));
+
+      expect(await screen.findByRole('button', { name: 'Update MAC' })).toBeInTheDocument();
+      await waitFor(() =>
+        expect(vi.mocked(global.fetch).mock.calls.some(([input]) => String(input).startsWith('/api/audit'))).toBe(true)
+      );
+      expect(screen.queryByRole('button', { name: /Revert Change/ })).not.toBeInTheDocument();
+    });
+
+    it('only lets technicians without update rights reapply the current values', async () => {
+      global.fetch = withTechnician({ sub: 't1', name: 'Pat', groups: [], canUpdate: false });
+      const user = userEvent.setup();
+      const { provisioningApi } = await import('@/services/provisioningApi');
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValue([existing]);
+      vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
+
+      const dialog = await openUpdate(user);
+      expect(within(dialog).getByRole('checkbox', { name: 'Change configfile' })).toBeDisabled();
+      expect(screen.queryByRole('button', { name: /Deprovision/, hidden: true })).not.toBeInTheDocument();
+
+      await user.click(within(dialog).getByRole('button', { name: 'Reapply Current Values' }));
+
+      await waitFor(() => expect(vi.mocked(provisioningApi.addHsd)).toHaveBeenCalledTimes(1));
+      expect(vi.mocked(provisioningApi.addHsd).mock.calls[0][0]).toMatchObject({
+        account: 'acct-old',
+        configfile: 'cfg-old',
+      });
+      expect(screen.queryByRole('button', { name: /Revert Change/ })).not.toBeInTheDocument();
+    });
   });
 });
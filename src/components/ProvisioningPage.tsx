@@ -1,52 +1,166 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { MacValidator } from './MacValidator';
 import { MacStatusCard, MacStatus } from './MacStatusCard';
 import { ErrorDisplay } from './ErrorDisplay';
-import { provisioningApi } from '@/services/provisioningApi';
+import { DeprovisionDialog } from './DeprovisionDialog';
+import { UpdateMacDialog } from './UpdateMacDialog';
+import { RevertChangeDialog } from './RevertChangeDialog';
+import { TechnicianMenu } from './TechnicianMenu';
+import { OutboxBadge } from './OutboxBadge';
+import { describeVerification, MacSearchResult, provisioningApi } from '@/services/provisioningApi';
+import type { AuditRecord } from '@/services/auditApi';
+import { getRuntimeConfig } from '@/services/runtimeConfig';
+import { fetchCurrentTechnician } from '@/services/authApi';
+import { macSearchKey, useLastChange, useMacSearch, useProvisionMac } from '@/hooks/use-provisioning';
 import { classifyError, ClassifiedError } from '@/utils/errorUtils';
+import type { RetryProgress } from '@/utils/retry';
+import { fetchProvisionProfiles } from '@/utils/configLoader';
+import type { OuiRegistryEntry } from '@/utils/ouiRegistry';
+import { changedFields, MeterValues, revertValues } from '@/utils/meterUpdate';
+import {
+  describeSelection,
+  findProfile,
+  ProfileSelection,
+  provisionValues,
+  ProvisionProfiles,
+  selectProfile,
+} from '@/utils/provisionProfiles';
 import { useToast } from '@/hooks/use-toast';
-import { AlertTriangle, Network, CheckCircle } from 'lucide-react';
+import { AlertTriangle, Network, CheckCircle, Trash2, Undo2 } from 'lucide-react';
 import viaviLogo from '@/assets/viavi-logo.png';
 
-interface ProvisionDefaults {
-  account: string;
-  isp: string;
-  configfile: string;
+interface ProvisioningPageProps {
+  /** Deployment region that profile rules may match on */
+  region?: string;
 }
 
-export function ProvisioningPage() {
+export function ProvisioningPage({ region = getRuntimeConfig().config.region }: ProvisioningPageProps) {
   const [currentStep, setCurrentStep] = useState<'input' | 'status' | 'provisioning'>('input');
-  const [mac, setMac] = useState<MacStatus | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [statusError, setStatusError] = useState<ClassifiedError | null>(null);
-  const [provisionError, setProvisionError] = useState<ClassifiedError | null>(null);
+  const [searchMac, setSearchMac] = useState<string | null>(null);
+  /** Registry entry that approved the MAC; profile rules match on its model */
+  const [ouiEntry, setOuiEntry] = useState<OuiRegistryEntry | null>(null);
+  /** Profile the technician picked instead of the one the rules selected */
+  const [chosenProfileId, setChosenProfileId] = useState<string | null>(null);
+  const [searchRetry, setSearchRetry] = useState<RetryProgress | undefined>();
+  const [provisionRetry, setProvisionRetry] = useState<RetryProgress | undefined>();
+  const [dismissedStatusError, setDismissedStatusError] = useState<ClassifiedError | null>(null);
+  const [dismissedProvisionError, setDismissedProvisionError] = useState<ClassifiedError | null>(null);
+  const [isLoadingDefaults, setIsLoadingDefaults] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
-  const [provisionDefaults, setProvisionDefaults] = useState<ProvisionDefaults | null>(null);
+  const [showDeprovisionDialog, setShowDeprovisionDialog] = useState(false);
+  const [showRevertDialog, setShowRevertDialog] = useState(false);
+  const [isDeprovisioning, setIsDeprovisioning] = useState(false);
+  const [deprovisionError, setDeprovisionError] = useState<ClassifiedError | null>(null);
+  const [provisionProfiles, setProvisionProfiles] = useState<ProvisionProfiles | null>(null);
+  /** Signed-in technician may change or deprovision an existing record; true when sign-in is off */
+  const [canUpdate, setCanUpdate] = useState(true);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCurrentTechnician().then((technician) => {
+      if (!cancelled) setCanUpdate(technician?.canUpdate !== false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const search = useMacSearch(searchMac, {
+    onRetry: ({ attempt, maxAttempts }) => setSearchRetry({ attempt, maxAttempts }),
+  });
+  const provision = useProvisionMac({
+    onRetry: ({ attempt, maxAttempts }) => setProvisionRetry({ attempt, maxAttempts }),
+  });
+  const lastChange = useLastChange(searchMac);
+
+  // Dismissing hides that particular error; the next failure shows again
+  const statusError = search.error !== dismissedStatusError ? search.error : null;
+  const provisionError = provision.error !== dismissedProvisionError ? provision.error : null;
+
+  const getSearchStatus = (): MacStatus['status'] => {
+    if (search.isFetching) return 'checking';
+    if (search.isError) return 'unknown';
+    return search.data && search.data.length > 0 ? 'found' : 'not-found';
+  };
+
+  const getProvisionState = (): MacStatus['provisionState'] => {
+    if (provision.isPending) return 'provisioning';
+    if (provision.isError) return 'error';
+    if (provision.isSuccess) {
+      const { queued, verification } = provision.data;
+      if (queued) return 'queued';
+      return verification && !verification.verified ? 'unverified' : 'complete';
+    }
+    return 'pending';
+  };
+
+  const getProfileSelection = (): ProfileSelection | null => {
+    if (!searchMac || !provisionProfiles) return null;
+    const chosen = chosenProfileId ? findProfile(provisionProfiles, chosenProfileId) : undefined;
+    return chosen
+      ? { profile: chosen, source: 'chosen' }
+      : selectProfile(provisionProfiles, { mac: searchMac, entry: ouiEntry, region });
+  };
+
+  const profileSelection = getProfileSelection();
+  const values = profileSelection ? provisionValues(profileSelection, ouiEntry) : null;
+  const currentRecord = search.data?.[0];
+  /** What the latest provision sent, which an update may have narrowed to some fields */
+  const sentValues = currentStep === 'provisioning' ? provision.variables : undefined;
+
+  /**
+   * The record the latest audited provision replaced, offered for reverting
+   * while the MAC still has the values that provision applied
+   */
+  const getRevert = (): { change: AuditRecord; values: MeterValues } | null => {
+    const change = lastChange.data;
+    if (!canUpdate || !change || lastChange.isFetching) return null;
+    const applied =
+      currentStep === 'status' && !search.isFetching
+        ? currentRecord
+        : provision.isSuccess && !provision.data.queued
+          ? sentValues
+          : undefined;
+    if (!applied || changedFields(applied, change).length > 0) return null;
+    const values = revertValues(change, change.previousRecord);
+    return values && { change, values };
+  };
 
-  const loadProvisionDefaults = async (): Promise<ProvisionDefaults | null> => {
+  const revert = getRevert();
+
+  const mac: MacStatus | null =
+    searchMac && values
+      ? {
+          mac: searchMac,
+          configfile: sentValues?.configfile ?? values.configfile,
+          status: getSearchStatus(),
+          currentData: currentRecord,
+          provisionState: getProvisionState(),
+          verification: provision.data?.verification,
+          error: provision.error?.message,
+          retry: search.isFetching ? searchRetry : provision.isPending ? provisionRetry : undefined,
+        }
+      : null;
+
+  const loadProvisionProfiles = async (): Promise<ProvisionProfiles | null> => {
     try {
-      const response = await fetch('/config/provision-defaults.json');
-      if (!response.ok) {
-        throw new Error(`Failed to load config: ${response.status}`);
-      }
-      const defaults: ProvisionDefaults = await response.json();
-      setProvisionDefaults(defaults);
-      return defaults;
+      const profiles = await fetchProvisionProfiles();
+      setProvisionProfiles(profiles);
+      return profiles;
     } catch (error) {
       console.error('Failed to load provision defaults:', error);
-      const classifiedError = classifyError(error as Error, { type: 'config' });
+      const classifiedError =
+        (error as { classifiedError?: ClassifiedError }).classifiedError ||
+        classifyError(error as Error, { type: 'config' });
       toast({
         title: classifiedError.title,
         description: classifiedError.message,
@@ -56,65 +170,28 @@ export function ProvisioningPage() {
     }
   };
 
-  const handleMacValidated = async (validatedMac: string) => {
-    setIsLoading(true);
-    setStatusError(null);
-    setProvisionError(null);
+  const handleMacValidated = async (validatedMac: string, entry: OuiRegistryEntry) => {
+    provision.reset();
 
-    // Load defaults if not already loaded
-    const defaults = provisionDefaults || (await loadProvisionDefaults());
-    if (!defaults) {
-      setIsLoading(false);
-      return;
+    // Load profiles if not already loaded
+    if (!provisionProfiles) {
+      setIsLoadingDefaults(true);
+      const profiles = await loadProvisionProfiles();
+      setIsLoadingDefaults(false);
+      if (!profiles) return;
     }
 
-    // Initialize MAC status
-    const macStatus: MacStatus = {
-      mac: validatedMac,
-      configfile: defaults.configfile,
-      status: 'checking',
-      provisionState: 'pending',
-    };
-    setMac(macStatus);
+    // Setting the MAC starts the search
+    setSearchRetry(undefined);
+    setOuiEntry(entry);
+    setChosenProfileId(null);
+    setSearchMac(validatedMac);
     setCurrentStep('status');
-
-    // Check status for the MAC
-    try {
-      const searchResult = await provisioningApi.searchByMac(validatedMac);
-      if (searchResult.length > 0) {
-        setMac({
-          ...macStatus,
-          status: 'found',
-          currentData: searchResult[0],
-        });
-      } else {
-        setMac({
-          ...macStatus,
-          status: 'not-found',
-        });
-      }
-    } catch (error) {
-      console.error(`Status check failed for ${validatedMac}:`, error);
-
-      // Extract classified error if available
-      const classifiedError =
-        (error as { classifiedError?: ClassifiedError }).classifiedError ||
-        classifyError(error as Error, { type: 'search' });
-
-      setMac({
-        ...macStatus,
-        status: 'unknown',
-      });
-      setStatusError(classifiedError);
-    }
-    setIsLoading(false);
   };
 
   const handleRetryStatusCheck = () => {
-    if (mac) {
-      setStatusError(null);
-      handleMacValidated(mac.mac);
-    }
+    setSearchRetry(undefined);
+    search.refetch();
   };
 
   const handleProvisionClick = () => {
@@ -125,47 +202,81 @@ export function ProvisioningPage() {
     }
   };
 
-  const startProvisioning = async () => {
+  const startProvisioning = (applied: MeterValues | null = values) => {
     setShowConfirmDialog(false);
+    setShowRevertDialog(false);
     setCurrentStep('provisioning');
-    setProvisionError(null);
 
-    if (!mac) return;
-    const defaults = provisionDefaults ?? (await loadProvisionDefaults());
-    if (!defaults) return;
+    if (!mac || !applied) return;
 
-    // Update to provisioning state
-    setMac({
-      ...mac,
-      provisionState: 'provisioning',
-    });
+    setProvisionRetry(undefined);
+    provision.mutate(
+      {
+        mac: mac.mac,
+        account: applied.account,
+        isp: applied.isp,
+        configfile: applied.configfile,
+      },
+      {
+        onSuccess: (result) => {
+          if (result.queued) {
+            toast({
+              title: 'Saved for Sync',
+              description: 'No connection. The provision will be sent automatically when the connection returns.',
+            });
+          } else if (result.verification && !result.verification.verified) {
+            toast({
+              title: 'Provisioned but Not Verified',
+              description: describeVerification(result.verification),
+              variant: 'destructive',
+            });
+          } else {
+            toast({
+              title: 'Provisioning Complete',
+              description: 'MAC address provisioned successfully',
+            });
+          }
+        },
+        onError: (error) => {
+          toast({
+            title: error.title,
+            description: error.message,
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
+  const handleRetryProvisioning = () => {
+    startProvisioning(provision.variables ?? values);
+  };
+
+  const handleRevertConfirmed = () => {
+    startProvisioning(revert?.values ?? null);
+  };
+
+  const startDeprovisioning = async () => {
+    setShowDeprovisionDialog(false);
+    setDeprovisionError(null);
+
+    if (!mac) return;
+    setIsDeprovisioning(true);
 
     try {
-      const request = {
-        mac: mac.mac,
-        account: defaults.account,
-        configfile: mac.configfile,
-        isp: defaults.isp,
-      };
-      const result = await provisioningApi.addHsd(request);
+      const result = await provisioningApi.removeHsd(mac.mac);
 
       if (result.success) {
-        setMac({
-          ...mac,
-          provisionState: 'complete',
-        });
+        queryClient.setQueryData<MacSearchResult[]>(macSearchKey(mac.mac), []);
         toast({
-          title: 'Provisioning Complete',
-          description: 'MAC address provisioned successfully',
+          title: 'Deprovisioning Complete',
+          description: 'MAC address removed from the provisioning system',
         });
       } else {
-        const error = result.error || classifyError(new Error(result.detail || 'Unknown error'));
-        setMac({
-          ...mac,
-          provisionState: 'error',
-          error: error.message,
-        });
-        setProvisionError(error);
+        const error =
+          result.error ||
+          classifyError(new Error(result.detail || 'Unknown error'), { type: 'deprovision' });
+        setDeprovisionError(error);
         toast({
           title: error.title,
           description: error.message,
@@ -175,33 +286,32 @@ export function ProvisioningPage() {
     } catch (error) {
       const classifiedError =
         (error as { classifiedError?: ClassifiedError }).classifiedError ||
-        classifyError(error as Error, { type: 'provision' });
+        classifyError(error as Error, { type: 'deprovision' });
 
-      setMac({
-        ...mac,
-        provisionState: 'error',
-        error: classifiedError.message,
-      });
-      setProvisionError(classifiedError);
+      setDeprovisionError(classifiedError);
       toast({
         title: classifiedError.title,
         description: classifiedError.message,
         variant: 'destructive',
       });
     }
-  };
-
-  const handleRetryProvisioning = () => {
-    setProvisionError(null);
-    startProvisioning();
+    setIsDeprovisioning(false);
   };
 
   const handleReset = () => {
+    // Abort a search still in flight. A provision cannot be recalled once
+    // sent, so its result is only discarded.
+    if (searchMac) {
+      queryClient.cancelQueries({ queryKey: macSearchKey(searchMac) });
+    }
+    provision.reset();
     setCurrentStep('input');
-    setMac(null);
-    setStatusError(null);
-    setProvisionError(null);
+    setSearchMac(null);
+    setChosenProfileId(null);
+    setDeprovisionError(null);
     setShowConfirmDialog(false);
+    setShowDeprovisionDialog(false);
+    setShowRevertDialog(false);
   };
 
   const getStepIndicator = () => {
@@ -268,13 +378,25 @@ export function ProvisioningPage() {
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-4xl mx-auto space-y-6">
         {/* Header */}
-        <div className="flex items-center gap-3 mb-8">
-          <img src={viaviLogo} alt="Viavi Logo" className="h-12 w-12 rounded-lg" />
-          <div>
-            <h1 className="text-2xl font-bold text-foreground">Viavi Provisioning Tool</h1>
-            <p className="text-muted-foreground">
-              Validate, check status, and provision Viavi meters.
-            </p>
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-3">
+            <img src={viaviLogo} alt="Viavi Logo" className="h-12 w-12 rounded-lg" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Viavi Provisioning Tool</h1>
+              <p className="text-muted-foreground">
+                Validate, check status, and provision Viavi meters.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <OutboxBadge />
+            <TechnicianMenu />
+            <Button variant="outline" asChild>
+              <Link to="/history">History</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/bulk">Bulk Mode</Link>
+            </Button>
           </div>
         </div>
 
@@ -286,7 +408,7 @@ export function ProvisioningPage() {
           <ErrorDisplay
             error={statusError}
             onRetry={statusError.isRetryable ? handleRetryStatusCheck : undefined}
-            onDismiss={() => setStatusError(null)}
+            onDismiss={() => setDismissedStatusError(statusError)}
           />
         )}
 
@@ -295,7 +417,16 @@ export function ProvisioningPage() {
           <ErrorDisplay
             error={provisionError}
             onRetry={provisionError.isRetryable ? handleRetryProvisioning : undefined}
-            onDismiss={() => setProvisionError(null)}
+            onDismiss={() => setDismissedProvisionError(provisionError)}
+          />
+        )}
+
+        {/* Deprovision Error Banner; a retry is confirmed like the first attempt */}
+        {deprovisionError && (
+          <ErrorDisplay
+            error={deprovisionError}
+            onRetry={deprovisionError.isRetryable ? () => setShowDeprovisionDialog(true) : undefined}
+            onDismiss={() => setDeprovisionError(null)}
           />
         )}
 
@@ -309,7 +440,7 @@ export function ProvisioningPage() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <MacValidator onValidated={handleMacValidated} isLoading={isLoading} />
+              <MacValidator onValidated={handleMacValidated} isLoading={isLoadingDefaults} />
             </CardContent>
           </Card>
         )}
@@ -327,15 +458,57 @@ export function ProvisioningPage() {
                 <Button variant="outline" onClick={handleReset}>
                   Start Over
                 </Button>
-                {currentStep === 'status' && !isLoading && (
-                  <Button onClick={handleProvisionClick} className="gap-2">
+                {currentStep === 'status' && !search.isFetching && mac.status === 'found' && canUpdate && (
+                  <Button
+                    variant="destructive"
+                    onClick={() => setShowDeprovisionDialog(true)}
+                    disabled={isDeprovisioning}
+                    className="gap-2"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Deprovision
+                  </Button>
+                )}
+                {revert && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowRevertDialog(true)}
+                    disabled={isDeprovisioning}
+                    className="gap-2"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                    Revert Change
+                  </Button>
+                )}
+                {currentStep === 'status' && !search.isFetching && (
+                  <Button onClick={handleProvisionClick} disabled={isDeprovisioning} className="gap-2">
                     <Network className="h-4 w-4" />
-                    Provision MAC
+                    {mac.status === 'found' ? 'Update MAC' : 'Provision MAC'}
                   </Button>
                 )}
               </div>
             </div>
 
+            {/* Profile Selector */}
+            {currentStep === 'status' && provisionProfiles && profileSelection && (
+              <div className="space-y-2 max-w-md">
+                <Label htmlFor="provision-profile">Provisioning Profile</Label>
+                <Select value={profileSelection.profile.id} onValueChange={setChosenProfileId}>
+                  <SelectTrigger id="provision-profile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {provisionProfiles.profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{describeSelection(profileSelection)}</p>
+              </div>
+            )}
+
             {/* Status Card */}
             <MacStatusCard mac={mac} showProvisionState={currentStep === 'provisioning'} />
 
@@ -344,35 +517,68 @@ export function ProvisioningPage() {
               <Alert className="border-warning bg-warning/10">
                 <AlertTriangle className="h-4 w-4 text-warning" />
                 <AlertDescription className="text-warning-foreground">
-                  <strong>Warning:</strong> This MAC already exists in the system. Provisioning will
-                  reapply the configuration.
+                  <strong>Warning:</strong> This MAC already exists in the system. Updating it shows
+                  what will change before anything is applied.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Values the latest provision replaced, from its audit record */}
+            {revert && (
+              <Alert>
+                <Undo2 className="h-4 w-4" />
+                <AlertDescription>
+                  Before the last change:{' '}
+                  {changedFields(revert.values, revert.change)
+                    .map((field) => `${field} was ${revert.values[field]}`)
+                    .join(', ')}
+                  . Revert Change restores these values.
                 </AlertDescription>
               </Alert>
             )}
           </div>
         )}
 
-        {/* Confirmation Dialog */}
-        <Dialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle className="flex items-center gap-2">
-                <AlertTriangle className="h-5 w-5 text-warning" />
-                Confirm Provisioning
-              </DialogTitle>
-              <DialogDescription>
-                This MAC already exists in the system. Proceeding will reapply the configuration to
-                this device. Are you sure you want to continue?
-              </DialogDescription>
-            </DialogHeader>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setShowConfirmDialog(false)}>
-                Cancel
-              </Button>
-              <Button onClick={startProvisioning}>Proceed with Provisioning</Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+        {/* Update Dialog */}
+        {mac && currentRecord && values && (
+          <UpdateMacDialog
+            mac={mac.mac}
+            current={currentRecord}
+            next={values}
+            canUpdate={canUpdate}
+            open={showConfirmDialog}
+            onOpenChange={setShowConfirmDialog}
+            onConfirm={startProvisioning}
+          />
+        )}
+
+        {/* Revert Confirmation Dialog */}
+        {mac && revert && (
+          <RevertChangeDialog
+            mac={mac.mac}
+            change={revert.change}
+            values={revert.values}
+            open={showRevertDialog}
+            onOpenChange={setShowRevertDialog}
+            onConfirm={handleRevertConfirmed}
+          />
+        )}
+
+        {/* Deprovision Confirmation Dialog */}
+        {mac && (
+          <DeprovisionDialog
+            mac={mac.mac}
+            open={showDeprovisionDialog}
+            onOpenChange={setShowDeprovisionDialog}
+            onConfirm={startDeprovisioning}
+          />
+        )}
+
+        <p className="text-center text-xs text-muted-foreground">
+          <Link to="/diagnostics" className="underline-offset-4 hover:underline">
+            Diagnostics
+          </Link>
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,78 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { AuditRecord } from '@/services/auditApi';
+import { diffMeterValues, MeterValues } from '@/utils/meterUpdate';
+import { Undo2 } from 'lucide-react';
+
+interface RevertChangeDialogProps {
+  mac: string;
+  /** Audit record of the provision to undo */
+  change: AuditRecord;
+  /** Values of the record it replaced */
+  values: MeterValues;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+/**
+ * Confirmation for undoing the latest provision of a MAC: the fields it
+ * changed, with their value now and after the revert.
+ */
+export function RevertChangeDialog({ mac, change, values, open, onOpenChange, onConfirm }: RevertChangeDialogProps) {
+  const changed = diffMeterValues(change, values).filter((diff) => diff.changed);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Revert Change
+          </DialogTitle>
+          <DialogDescription>
+            This provisions <code className="font-mono">{mac}</code> again with the values it had before the
+            change made {new Date(change.timestamp).toLocaleString()} by{' '}
+            {change.user?.name ?? 'unknown technician'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Now</TableHead>
+              <TableHead>After Revert</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changed.map(({ field, current, next }) => (
+              <TableRow key={field}>
+                <TableCell className="font-medium">{field}</TableCell>
+                <TableCell className="font-mono text-sm">{current}</TableCell>
+                <TableCell className="font-mono text-sm text-primary font-semibold">{next}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm}>
+            Revert {changed.length} {changed.length === 1 ? 'Field' : 'Fields'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,51 @@
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect, vi } from 'vitest';
+import { TechnicianMenu } from './TechnicianMenu';
+
+describe('TechnicianMenu', () => {
+  it('shows the signed-in technician with a sign-out link', async () => {
+    global.fetch = vi.fn(async () =>
+      new Response(JSON.stringify({ sub: 't1', name: 'Pat Field', email: 'pat@example.com', groups: [] }), {
+        status: 200,
+      })
+    );
+
+    render(<TechnicianMenu />, { wrapper: MemoryRouter });
+
+    expect(await screen.findByText('Pat Field')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Sign out' })).toHaveAttribute('href', '/auth/logout');
+    expect(global.fetch).toHaveBeenCalledWith('/auth/me', expect.anything());
+    expect(screen.queryByRole('link', { name: 'Admin' })).not.toBeInTheDocument();
+  });
+
+  it('links administrators to the config admin screen', async () => {
+    global.fetch = vi.fn(async () =>
+      new Response(JSON.stringify({ sub: 't1', name: 'Pat Field', groups: ['config-admins'], admin: true }), {
+        status: 200,
+      })
+    );
+
+    render(<TechnicianMenu />, { wrapper: MemoryRouter });
+
+    expect(await screen.findByRole('link', { name: 'Admin' })).toHaveAttribute('href', '/admin');
+  });
+
+  it('renders nothing when sign-in is not enforced', async () => {
+    global.fetch = vi.fn(async () => new Response('<!doctype html>', { status: 200 }));
+
+    const { container } = render(<TechnicianMenu />, { wrapper: MemoryRouter });
+
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('renders nothing without a session', async () => {
+    global.fetch = vi.fn(async () => new Response('{"error":"Not signed in"}', { status: 401 }));
+
+    const { container } = render(<TechnicianMenu />, { wrapper: MemoryRouter });
+
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+});
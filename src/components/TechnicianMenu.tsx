@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { fetchCurrentTechnician, LOGOUT_PATH, Technician } from '@/services/authApi';
+import { UserCircle } from 'lucide-react';
+
+/**
+ * Signed-in technician, a link to the config admin screen for
+ * administrators, and a sign-out link. Renders nothing when the server does
+ * not enforce sign-in.
+ */
+export function TechnicianMenu() {
+  const [technician, setTechnician] = useState<Technician | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCurrentTechnician().then((result) => {
+      if (!cancelled) setTechnician(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!technician) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <UserCircle className="h-4 w-4 text-muted-foreground" />
+      <span className="font-medium" title={technician.email}>
+        {technician.name}
+      </span>
+      {technician.admin && (
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/admin">Admin</Link>
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" asChild>
+        <a href={LOGOUT_PATH}>Sign out</a>
+      </Button>
+    </div>
+  );
+}
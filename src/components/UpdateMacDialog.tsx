@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { MacSearchResult } from '@/services/provisioningApi';
+import { diffMeterValues, MeterValues, selectChanges, UpdateField } from '@/utils/meterUpdate';
+import { AlertTriangle } from 'lucide-react';
+
+interface UpdateMacDialogProps {
+  mac: string;
+  /** The record the search found */
+  current: MacSearchResult;
+  /** Values the selected profile would apply */
+  next: MeterValues;
+  /** The technician may change fields; otherwise only the current values can be reapplied */
+  canUpdate: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called with the values to send: the selected changes, and current values elsewhere */
+  onConfirm: (values: MeterValues) => void;
+}
+
+const formatCustomField = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Field-by-field comparison of an already-provisioned MAC's record with the
+ * values about to be applied. Every changed field is selected at first; the
+ * technician unticks the ones to leave as they are.
+ */
+export function UpdateMacDialog({ mac, current, next, canUpdate, open, onOpenChange, onConfirm }: UpdateMacDialogProps) {
+  const [kept, setKept] = useState<UpdateField[]>([]);
+  const diff = diffMeterValues(current, next);
+  const selected = diff
+    .filter(({ field, changed }) => changed && canUpdate && !kept.includes(field))
+    .map(({ field }) => field);
+  const customFields = Object.entries(current.customFields ?? {});
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setKept([]);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleConfirm = () => {
+    setKept([]);
+    onConfirm(selectChanges(current, next, selected));
+  };
+
+  const toggle = (field: UpdateField, checked: boolean) =>
+    setKept((fields) => (checked ? fields.filter((f) => f !== field) : [...fields, field]));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-warning" />
+            Update Existing MAC
+          </DialogTitle>
+          <DialogDescription>
+            <code className="font-mono">{mac}</code> is already provisioned. Choose the fields to change;
+            the others keep their current values. The current values are kept so the change can be
+            reverted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Change</TableHead>
+              <TableHead>Field</TableHead>
+              <TableHead>Current</TableHead>
+              <TableHead>After Update</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {diff.map(({ field, current: before, next: after, changed }) => {
+              const isSelected = selected.includes(field);
+              return (
+                <TableRow key={field}>
+                  <TableCell>
+                    {changed && (
+                      <Checkbox
+                        aria-label={`Change ${field}`}
+                        checked={isSelected}
+                        disabled={!canUpdate}
+                        onCheckedChange={(checked) => toggle(field, checked === true)}
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell className="font-medium">{field}</TableCell>
+                  <TableCell className="font-mono text-sm">{before}</TableCell>
+                  <TableCell className={`font-mono text-sm ${isSelected ? 'text-primary font-semibold' : ''}`}>
+                    {isSelected ? after : before}
+                    {!changed && <span className="ml-2 font-sans text-xs text-muted-foreground">no change</span>}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {customFields.map(([name, value]) => (
+              <TableRow key={`custom-${name}`}>
+                <TableCell />
+                <TableCell className="font-medium">{name}</TableCell>
+                <TableCell className="font-mono text-sm">{formatCustomField(value)}</TableCell>
+                <TableCell className="font-mono text-sm">
+                  {formatCustomField(value)}
+                  <span className="ml-2 font-sans text-xs text-muted-foreground">kept</span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {customFields.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Custom fields are not set by provisioning and keep their current values.
+          </p>
+        )}
+        {!canUpdate && diff.some(({ changed }) => changed) && (
+          <p className="text-sm text-muted-foreground">
+            Your account may not change an already-provisioned meter, so only its current values can be
+            reapplied. Ask an administrator to add you to an update group.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm}>
+            {selected.length > 0
+              ? `Update ${selected.length} ${selected.length === 1 ? 'Field' : 'Fields'}`
+              : 'Reapply Current Values'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
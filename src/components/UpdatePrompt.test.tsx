@@ -0,0 +1,53 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UpdatePrompt } from './UpdatePrompt';
+
+vi.mock('@/utils/serviceWorker', () => ({
+  registerServiceWorker: vi.fn(),
+}));
+
+import { registerServiceWorker, ServiceWorkerUpdate } from '@/utils/serviceWorker';
+
+describe('UpdatePrompt', () => {
+  const apply = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.defineProperty(navigator, 'serviceWorker', { value: {}, configurable: true });
+    vi.mocked(registerServiceWorker).mockImplementation(async (onUpdateReady: (update: ServiceWorkerUpdate) => void) => {
+      onUpdateReady({ apply });
+      return {} as ServiceWorkerRegistration;
+    });
+  });
+
+  afterEach(() => {
+    delete (navigator as { serviceWorker?: unknown }).serviceWorker;
+  });
+
+  it('does not register the service worker when disabled', () => {
+    render(<UpdatePrompt enabled={false} />);
+
+    expect(registerServiceWorker).not.toHaveBeenCalled();
+    expect(screen.queryByText('Update available')).not.toBeInTheDocument();
+  });
+
+  it('offers to reload into a new version', async () => {
+    const user = userEvent.setup();
+    render(<UpdatePrompt enabled />);
+
+    await user.click(await screen.findByRole('button', { name: 'Reload' }));
+
+    expect(apply).toHaveBeenCalledTimes(1);
+  });
+
+  it('can be put off until later', async () => {
+    const user = userEvent.setup();
+    render(<UpdatePrompt enabled />);
+
+    await user.click(await screen.findByRole('button', { name: 'Later' }));
+
+    expect(screen.queryByText('Update available')).not.toBeInTheDocument();
+    expect(apply).not.toHaveBeenCalled();
+  });
+});
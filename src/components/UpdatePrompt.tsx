@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { registerServiceWorker, ServiceWorkerUpdate } from '@/utils/serviceWorker';
+import { serverLogger } from '@/utils/serverLogger';
+import { RefreshCw } from 'lucide-react';
+
+interface UpdatePromptProps {
+  /** Register the service worker; off in development, where Vite serves the app */
+  enabled?: boolean;
+}
+
+/**
+ * Registers the service worker and, when a new version of the app is ready,
+ * offers to reload into it. Reloading is left to the technician so it never
+ * lands in the middle of a provision.
+ */
+export function UpdatePrompt({ enabled = import.meta.env.PROD }: UpdatePromptProps) {
+  const [update, setUpdate] = useState<ServiceWorkerUpdate | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !('serviceWorker' in navigator)) return;
+    registerServiceWorker(setUpdate).catch((error) => {
+      serverLogger.warn('[PWA] Service worker registration failed', { message: (error as Error).message });
+    });
+  }, [enabled]);
+
+  if (!update) return null;
+
+  return (
+    <Alert className="fixed bottom-4 right-4 z-50 w-auto max-w-sm shadow-lg">
+      <RefreshCw className="h-4 w-4" />
+      <AlertTitle>Update available</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>A new version of the app is ready. Reload when you are not in the middle of a provision.</p>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={update.apply}>
+            Reload
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setUpdate(null)}>
+            Later
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
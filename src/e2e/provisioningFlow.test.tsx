@@ -1,5 +1,7 @@
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router-dom';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ProvisioningPage } from '@/components/ProvisioningPage';
 
@@ -12,6 +14,15 @@ vi.mock('@/services/provisioningApi', () => ({
 
 import { provisioningApi } from '@/services/provisioningApi';
 
+const renderPage = () =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <MemoryRouter>
+        <ProvisioningPage />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+
 const setupFetch = (options: { approved: boolean }) => {
   return vi.fn(async (input: RequestInfo | URL) => {
     const inputStr = typeof input === 'string' ? input : input.toString();
@@ -44,7 +55,7 @@ describe('E2E provisioning flows', () => {
     vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
 
     const user = userEvent.setup();
-    render(<ProvisioningPage />);
+    renderPage();
     await typeAndValidate(user);
 
     await waitFor(() => expect(screen.getByText('Available')).toBeInTheDocument());
@@ -58,7 +69,7 @@ describe('E2E provisioning flows', () => {
     vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
 
     const user = userEvent.setup();
-    render(<ProvisioningPage />);
+    renderPage();
     await typeAndValidate(user);
 
     await waitFor(() => expect(screen.getByText('Exists')).toBeInTheDocument());
@@ -72,7 +83,7 @@ describe('E2E provisioning flows', () => {
     vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
 
     const user = userEvent.setup();
-    render(<ProvisioningPage />);
+    renderPage();
     await typeAndValidate(user);
 
     await waitFor(() => expect(screen.getByText('Unknown')).toBeInTheDocument());
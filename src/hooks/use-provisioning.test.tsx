@@ -0,0 +1,124 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { macSearchKey, useMacSearch, useProvisionMac } from './use-provisioning';
+import { createMemoryStorage, provisioningOutbox } from '@/services/provisioningOutbox';
+
+vi.mock('@/services/provisioningApi', () => ({
+  provisioningApi: {
+    searchByMac: vi.fn(),
+    addHsd: vi.fn(),
+  },
+}));
+
+import { provisioningApi } from '@/services/provisioningApi';
+
+const MAC = 'AA:BB:CC:DD:EE:FF';
+const request = { mac: MAC, account: 'acct', configfile: 'cfg', isp: 'isp' };
+const serverError = {
+  category: 'server' as const,
+  title: 'Server Error',
+  message: 'The server returned an error (500).',
+  likelyCause: 'The backend service encountered an internal error.',
+  suggestion: 'Wait a moment and try again.',
+  isRetryable: true,
+};
+
+let queryClient: QueryClient;
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+);
+
+describe('provisioning hooks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryClient = new QueryClient();
+  });
+
+  describe('useMacSearch', () => {
+    it('does not search until a MAC is given', () => {
+      const { result } = renderHook(() => useMacSearch(null), { wrapper });
+
+      expect(result.current.fetchStatus).toBe('idle');
+      expect(provisioningApi.searchByMac).not.toHaveBeenCalled();
+    });
+
+    it('caches results per MAC', async () => {
+      vi.mocked(provisioningApi.searchByMac).mockResolvedValue([request]);
+
+      const { result } = renderHook(() => useMacSearch(MAC), { wrapper });
+
+      await waitFor(() => expect(result.current.data).toEqual([request]));
+      expect(queryClient.getQueryData(macSearchKey(MAC))).toEqual([request]);
+    });
+
+    it('exposes the classified error without retrying again', async () => {
+      vi.mocked(provisioningApi.searchByMac).mockRejectedValue(
+        Object.assign(new Error(serverError.message), { classifiedError: serverError })
+      );
+
+      const { result } = renderHook(() => useMacSearch(MAC), { wrapper });
+
+      await waitFor(() => expect(result.current.error).toEqual(serverError));
+      expect(provisioningApi.searchByMac).toHaveBeenCalledTimes(1);
+    });
+
+    it('aborts the request when the query is cancelled', async () => {
+      let signal: AbortSignal | undefined;
+      vi.mocked(provisioningApi.searchByMac).mockImplementation(
+        (_mac, options) =>
+          new Promise((_resolve, reject) => {
+            signal = options?.signal;
+            signal?.addEventListener('abort', () => reject(signal?.reason));
+          })
+      );
+      renderHook(() => useMacSearch(MAC), { wrapper });
+      await waitFor(() => expect(signal).toBeDefined());
+
+      await queryClient.cancelQueries({ queryKey: macSearchKey(MAC) });
+
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+
+  describe('useProvisionMac', () => {
+    it('marks the MAC search stale after a successful provision without refetching it', async () => {
+      queryClient.setQueryData(macSearchKey(MAC), []);
+      vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
+
+      const { result } = renderHook(() => useProvisionMac(), { wrapper });
+      result.current.mutate(request);
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(queryClient.getQueryState(macSearchKey(MAC))?.isInvalidated).toBe(true);
+      expect(provisioningApi.searchByMac).not.toHaveBeenCalled();
+    });
+
+    it('queues a provision that failed for lack of a connection', async () => {
+      provisioningOutbox.configure({ storage: createMemoryStorage() });
+      const previous = { ...request, configfile: 'old.cfg' };
+      queryClient.setQueryData(macSearchKey(MAC), [previous]);
+      const networkError = { ...serverError, category: 'network' as const, title: 'Network Error' };
+      vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: false, error: networkError });
+
+      const { result } = renderHook(() => useProvisionMac(), { wrapper });
+      result.current.mutate(request);
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(result.current.data?.queued).toMatchObject({ request, expected: previous, status: 'pending' });
+      expect(provisioningOutbox.getItems()).toHaveLength(1);
+      expect(queryClient.getQueryState(macSearchKey(MAC))?.isInvalidated).toBe(false);
+    });
+
+    it('turns an unsuccessful result into the mutation error', async () => {
+      vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: false, error: serverError });
+
+      const { result } = renderHook(() => useProvisionMac(), { wrapper });
+      result.current.mutate(request);
+
+      await waitFor(() => expect(result.current.error).toEqual(serverError));
+      expect(queryClient.getQueryState(macSearchKey(MAC))).toBeUndefined();
+    });
+  });
+});
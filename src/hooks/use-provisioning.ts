@@ -0,0 +1,121 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  MacSearchResult,
+  provisioningApi,
+  ProvisionRequest,
+  ProvisionResponse,
+  RequestOptions,
+} from '@/services/provisioningApi';
+import { isQueueable, OutboxItem, provisioningOutbox } from '@/services/provisioningOutbox';
+import { AuditRecord, fetchAuditHistory } from '@/services/auditApi';
+import { classifyError, ClassifiedError, ErrorContext } from '@/utils/errorUtils';
+
+/** Cache key for the search result of one MAC */
+export const macSearchKey = (mac: string) => ['mac-search', mac] as const;
+
+/** Cache key for the latest audited provision of one MAC */
+export const lastChangeKey = (mac: string) => ['last-change', mac] as const;
+
+function toClassifiedError(error: unknown, type: ErrorContext['type']): ClassifiedError {
+  return (
+    (error as { classifiedError?: ClassifiedError }).classifiedError ||
+    classifyError(error as Error, { type })
+  );
+}
+
+/**
+ * Search for a MAC, or do nothing while `mac` is null. provisioningApi
+ * already retries transient failures, so the query does not retry again,
+ * and it does not refetch on focus so the status a technician acts on does
+ * not change under them. Cancelling the query aborts the request.
+ */
+export function useMacSearch(mac: string | null, { onRetry }: RequestOptions = {}) {
+  return useQuery<MacSearchResult[], ClassifiedError>({
+    queryKey: macSearchKey(mac ?? ''),
+    queryFn: async ({ signal }) => {
+      try {
+        return await provisioningApi.searchByMac(mac as string, { signal, onRetry });
+      } catch (error) {
+        // A cancelled search is discarded by react-query, so leave it as is
+        if (signal.aborted) throw error;
+        throw toClassifiedError(error, 'search');
+      }
+    },
+    enabled: mac !== null,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * The latest successful provision of a MAC in the audit log, or null when
+ * the log has none. Fails where the server keeps no audit log, such as the
+ * dev server.
+ */
+export function useLastChange(mac: string | null) {
+  return useQuery<AuditRecord | null, ClassifiedError>({
+    queryKey: lastChangeKey(mac ?? ''),
+    queryFn: async () => {
+      try {
+        const { records } = await fetchAuditHistory({ mac: mac as string, outcome: 'success', limit: 1 });
+        return records[0] ?? null;
+      } catch (error) {
+        throw toClassifiedError(error, 'history');
+      }
+    },
+    enabled: mac !== null,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export interface ProvisionOutcome extends ProvisionResponse {
+  /** Set when the provision could not be sent and was saved to the outbox */
+  queued?: OutboxItem;
+}
+
+/**
+ * Provision a MAC. A provision that fails for lack of a connection is saved
+ * to the outbox and resolves with `queued`; any other failure becomes the
+ * mutation's error. A successful provision marks the MAC's search as stale
+ * without refetching it, so the page keeps showing what was there before
+ * and the next search of that MAC goes to the API. Its latest audited
+ * provision is fetched again.
+ */
+export function useProvisionMac({ onRetry }: RequestOptions = {}) {
+  const queryClient = useQueryClient();
+  return useMutation<ProvisionOutcome, ClassifiedError, ProvisionRequest>({
+    mutationFn: async (request) => {
+      let result: ProvisionResponse;
+      try {
+        result = await provisioningApi.addHsd(request, { onRetry });
+      } catch (error) {
+        result = { success: false, error: toClassifiedError(error, 'provision') };
+      }
+      if (result.success) return result;
+
+      const error = result.error || classifyError(new Error(result.detail || 'Unknown error'), { type: 'provision' });
+      if (!isQueueable(error)) throw error;
+      const expected = queryClient.getQueryData<MacSearchResult[]>(macSearchKey(request.mac))?.[0] ?? null;
+      return { ...result, error, queued: await provisioningOutbox.enqueue(request, expected, error) };
+    },
+    onSuccess: (result, request) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: macSearchKey(request.mac), refetchType: 'none' });
+        queryClient.invalidateQueries({ queryKey: lastChangeKey(request.mac) });
+      }
+    },
+  });
+}
+
+/**
+ * Provisions waiting in the outbox, kept up to date as they are queued,
+ * replayed or cancelled
+ */
+export function useOutbox(): OutboxItem[] {
+  useEffect(() => {
+    provisioningOutbox.load().catch((error) => console.error('Failed to load the outbox:', error));
+  }, []);
+  return useSyncExternalStore(provisioningOutbox.subscribe, provisioningOutbox.getItems);
+}
@@ -1,17 +1,52 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
-import { provisioningApi } from '@/services/provisioningApi'
+import { DEFAULT_SEARCH_RETRY, provisioningApi } from '@/services/provisioningApi'
+import { provisioningOutbox } from '@/services/provisioningOutbox'
+import { loadRuntimeConfig } from '@/services/runtimeConfig'
+import { checkConfigFiles } from '@/utils/configLoader'
+import { NO_RETRY } from '@/utils/retry'
 import { serverLogger } from '@/utils/serverLogger'
 
-serverLogger.info('[Config] Application starting', {
-  apiBaseUrl: import.meta.env.VITE_API_BASE_URL,
-  useStubApi: import.meta.env.VITE_USE_STUB_API,
-});
+// Deployment settings come from the app server at startup, so the same build
+// runs against any backend
+loadRuntimeConfig().then(({ config, source, error }) => {
+  serverLogger.info('[Config] Application starting', {
+    source,
+    error,
+    apiBaseUrl: config.apiBaseUrl,
+    useStubApi: config.useStubApi,
+    maxAttempts: config.maxAttempts,
+    retryProvision: config.retryProvision,
+    region: config.region,
+  });
+
+  const retryPolicy = {
+    ...DEFAULT_SEARCH_RETRY,
+    maxAttempts: config.maxAttempts ?? DEFAULT_SEARCH_RETRY.maxAttempts,
+  };
+
+  provisioningApi.configure({
+    baseUrl: config.apiBaseUrl,
+    enableStubMode: config.useStubApi,
+    searchRetry: retryPolicy,
+    provisionRetry: config.retryProvision ? retryPolicy : NO_RETRY,
+  })
 
-provisioningApi.configure({
-  baseUrl: import.meta.env.VITE_API_BASE_URL,
-  enableStubMode: import.meta.env.VITE_USE_STUB_API === 'true',
-})
+  // Send provisions saved while offline when the connection returns
+  provisioningOutbox.start()
 
-createRoot(document.getElementById("root")!).render(<App />);
+  // Validate both config files up front, so a broken file shows up in the
+  // pod logs and on /diagnostics before a technician trips over it
+  checkConfigFiles().then((statuses) => {
+    for (const { file, version, error } of statuses) {
+      if (error) {
+        serverLogger.error(`[Config] ${file} is not usable`, { title: error.title, detail: error.technicalDetail })
+      } else {
+        serverLogger.info(`[Config] ${file} loaded`, { version })
+      }
+    }
+  })
+
+  createRoot(document.getElementById("root")!).render(<App />);
+});
@@ -0,0 +1,7 @@
+import { AdminPage } from '@/components/AdminPage';
+
+const Admin = () => {
+  return <AdminPage />;
+};
+
+export default Admin;
@@ -0,0 +1,7 @@
+import { BulkProvisioningPage } from '@/components/BulkProvisioningPage';
+
+const Bulk = () => {
+  return <BulkProvisioningPage />;
+};
+
+export default Bulk;
@@ -0,0 +1,7 @@
+import { DiagnosticsPage } from '@/components/DiagnosticsPage';
+
+const Diagnostics = () => {
+  return <DiagnosticsPage />;
+};
+
+export default Diagnostics;
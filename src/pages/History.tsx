@@ -0,0 +1,7 @@
+import { ProvisioningHistoryPage } from '@/components/ProvisioningHistoryPage';
+
+const History = () => {
+  return <ProvisioningHistoryPage />;
+};
+
+export default History;
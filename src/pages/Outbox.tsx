@@ -0,0 +1,7 @@
+import { OutboxPage } from '@/components/OutboxPage';
+
+const Outbox = () => {
+  return <OutboxPage />;
+};
+
+export default Outbox;
@@ -0,0 +1,126 @@
+/**
+ * Service worker for the installed app.
+ *
+ * This file is a template: serviceWorkerPlugin in vite.config.ts fills in the
+ * build version and the files to precache, and emits it as /sw.js. The app
+ * shell is served from a cache named after the build, so a new build installs
+ * alongside the old one and takes over once the technician reloads. The
+ * config files live in their own cache that outlasts builds and is refreshed
+ * in the background, so OUI checks keep working offline.
+ */
+
+const VERSION = __SW_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const SHELL_CACHE = `viavi-shell-${VERSION}`;
+const CONFIG_CACHE = 'viavi-config';
+const CONFIG_PREFIX = '/config/';
+
+/** Requests that must always reach the server */
+const NETWORK_ONLY_PREFIXES = ['/api/', '/auth/', '/healthz', '/readyz', '/metrics'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll(PRECACHE_URLS.filter((url) => !url.startsWith(CONFIG_PREFIX)));
+
+      const config = await caches.open(CONFIG_CACHE);
+      await Promise.all(
+        PRECACHE_URLS.filter((url) => url.startsWith(CONFIG_PREFIX)).map((url) =>
+          refreshConfig(config, new Request(url))
+        )
+      );
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((name) => name.startsWith('viavi-shell-') && name !== SHELL_CACHE).map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+// Sent by the "update available" prompt when the technician chooses to reload
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (NETWORK_ONLY_PREFIXES.some((prefix) => url.pathname.startsWith(prefix))) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(request));
+    return;
+  }
+
+  if (url.pathname.startsWith(CONFIG_PREFIX)) {
+    // Cache by path so a cache-busting query string does not split entries
+    const key = new Request(url.pathname);
+    const refresh = caches.open(CONFIG_CACHE).then((cache) => refreshConfig(cache, key));
+    event.waitUntil(refresh.catch(() => undefined));
+    event.respondWith(caches.match(key, { cacheName: CONFIG_CACHE }).then((cached) => cached || refresh));
+    return;
+  }
+
+  event.respondWith(cacheFirst(request));
+});
+
+/**
+ * Pages come from the network so sign-in redirects keep working, and fall
+ * back to the cached shell when there is no connection
+ */
+async function networkFirstShell(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match('/index.html', { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  return cached || fetch(request);
+}
+
+/**
+ * Fetch a config file and store it if its version differs from the cached
+ * copy. Responses that are not JSON, such as the sign-in page after a
+ * session expired, never replace a good copy.
+ */
+async function refreshConfig(cache, key) {
+  const response = await fetch(key, { cache: 'no-cache' });
+  if (!response.ok || response.redirected) return response;
+
+  const fresh = await response
+    .clone()
+    .json()
+    .catch(() => null);
+  if (fresh === null) return response;
+
+  const cached = await cache.match(key);
+  const current = cached ? await cached.json().catch(() => null) : null;
+  if (versionOf(fresh) !== versionOf(current)) {
+    await cache.put(key, response.clone());
+  }
+  return response;
+}
+
+/** The file's `version` field, or its whole content when it has none */
+function versionOf(config) {
+  if (config === null) return null;
+  return typeof config.version === 'string' ? config.version : JSON.stringify(config);
+}
@@ -0,0 +1,82 @@
+/**
+ * Client for the provisioning audit log served by the app server at
+ * /api/audit (see server/auditLog.ts). The dev server does not host it.
+ */
+
+import { classifyError, ClassifiedError, createErrorFromResponse, ErrorContext } from '@/utils/errorUtils';
+import type { MacSearchResult } from '@/services/provisioningApi';
+
+export type AuditOutcome = 'success' | 'failure';
+
+/**
+ * One provisioning action, mirroring `AuditRecord` in server/auditLog.ts
+ */
+export interface AuditRecord {
+  timestamp: string;
+  user?: { sub: string; name: string };
+  sessionId?: string;
+  clientIp?: string;
+  requestId?: string;
+  mac: string;
+  account: string;
+  isp: string;
+  configfile: string;
+  /** Record found by the preceding search: null if none existed, absent if there was no search */
+  previousRecord?: MacSearchResult | null;
+  upstreamStatus: number | null;
+  outcome: AuditOutcome;
+  durationMs: number;
+  error?: string;
+  classifiedError?: ClassifiedError;
+}
+
+export interface AuditFilter {
+  mac?: string;
+  technician?: string;
+  configfile?: string;
+  outcome?: AuditOutcome;
+  /** ISO date (YYYY-MM-DD) or timestamp */
+  from?: string;
+  /** ISO date (YYYY-MM-DD, covering the whole day) or timestamp */
+  to?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface AuditPage {
+  records: AuditRecord[];
+  total: number;
+}
+
+/**
+ * Fetch a page of audit records, newest first
+ */
+export async function fetchAuditHistory(filter: AuditFilter = {}): Promise<AuditPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  const url = `/api/audit?${params}`;
+  const context: ErrorContext = { type: 'history', url };
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Accept: 'application/json' } });
+  } catch (error) {
+    const classifiedError = classifyError(error as Error, context);
+    throw Object.assign(new Error(classifiedError.message), { classifiedError });
+  }
+
+  if (!response.ok) {
+    const classifiedError = await createErrorFromResponse(response, context);
+    throw Object.assign(new Error(classifiedError.message), { classifiedError });
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    // The dev server answers unknown routes with index.html
+    const classifiedError = classifyError(error as Error, context);
+    throw Object.assign(new Error(classifiedError.message), { classifiedError });
+  }
+}
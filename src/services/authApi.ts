@@ -0,0 +1,40 @@
+/**
+ * Technician identity from the app server's sign-in session (see
+ * server/auth.ts). The dev server and stub mode run without sign-in, in
+ * which case no technician is reported.
+ */
+
+export interface Technician {
+  sub: string;
+  name: string;
+  email?: string;
+  groups: string[];
+  /** May edit the runtime config at /admin */
+  admin?: boolean;
+  /** May change the configuration of an already-provisioned meter */
+  canUpdate?: boolean;
+}
+
+export const LOGOUT_PATH = '/auth/logout';
+
+/**
+ * Sign-in URL that returns to `returnTo` (the current page by default)
+ */
+export function loginUrl(returnTo = `${window.location.pathname}${window.location.search}`): string {
+  return `/auth/login?returnTo=${encodeURIComponent(returnTo)}`;
+}
+
+/**
+ * Fetch the signed-in technician, or null when there is no session or the
+ * server does not enforce sign-in
+ */
+export async function fetchCurrentTechnician(): Promise<Technician | null> {
+  try {
+    const response = await fetch('/auth/me', { headers: { Accept: 'application/json' } });
+    if (!response.ok) return null;
+    const technician = await response.json();
+    return typeof technician?.name === 'string' ? technician : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Client for the runtime config admin endpoints served by the app server at
+ * /api/admin/config (see server/configStore.ts). The dev server does not
+ * host them.
+ */
+
+import { classifyError, createErrorFromResponse, ErrorContext } from '@/utils/errorUtils';
+import type { EditableConfigFile } from '@/utils/configFiles';
+
+const ADMIN_CONFIG_PATH = '/api/admin/config';
+
+/**
+ * A config file as the app currently gets it, mirroring `StoredConfig` in
+ * server/configStore.ts
+ */
+export interface AdminConfigFile {
+  file: EditableConfigFile;
+  config: unknown;
+  version?: string;
+  /** `store`: an administrator's saved edit. `bundled`: the copy built into the image. */
+  source: 'store' | 'bundled';
+}
+
+/**
+ * One saved edit, mirroring `ConfigChange` in server/configStore.ts
+ */
+export interface ConfigChange {
+  timestamp: string;
+  user?: { sub: string; name: string };
+  file: EditableConfigFile;
+  previousVersion?: string;
+  version: string;
+  comment?: string;
+  changes: string[];
+}
+
+export interface ConfigSave {
+  config: unknown;
+  /** Version the edit was based on; the server refuses the save if the file has moved on */
+  baseVersion?: string;
+  comment?: string;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const context: ErrorContext = { type: 'admin', url };
+
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, headers: { Accept: 'application/json', ...init.headers } });
+  } catch (error) {
+    const classifiedError = classifyError(error as Error, context);
+    throw Object.assign(new Error(classifiedError.message), { classifiedError });
+  }
+
+  if (!response.ok) {
+    const classifiedError = await createErrorFromResponse(response, context);
+    throw Object.assign(new Error(classifiedError.message), { classifiedError });
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    // The dev server answers unknown routes with index.html
+    const classifiedError = classifyError(error as Error, context);
+    throw Object.assign(new Error(classifiedError.message), { classifiedError });
+  }
+}
+
+/**
+ * Fetch the editable config files with their current versions
+ */
+export async function fetchAdminConfig(): Promise<AdminConfigFile[]> {
+  const { files } = await request<{ files: AdminConfigFile[] }>(ADMIN_CONFIG_PATH);
+  return files;
+}
+
+/**
+ * Save new contents of a config file, returning the file with its new
+ * version and the recorded change
+ */
+export async function saveAdminConfig(
+  file: EditableConfigFile,
+  save: ConfigSave
+): Promise<{ file: AdminConfigFile; change: ConfigChange }> {
+  return request(`${ADMIN_CONFIG_PATH}/${file}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(save),
+  });
+}
+
+/**
+ * Fetch the saved edits, newest first, optionally for one file
+ */
+export async function fetchConfigHistory(file?: EditableConfigFile): Promise<ConfigChange[]> {
+  const params = new URLSearchParams(file ? { file } : {});
+  const { changes } = await request<{ changes: ConfigChange[] }>(`${ADMIN_CONFIG_PATH}/history?${params}`);
+  return changes;
+}
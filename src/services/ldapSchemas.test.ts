@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseProvisionResponse, parseSearchResponse } from './ldapSchemas';
+
+const MAC = 'AA:BB:CC:DD:EE:FF';
+
+describe('parseSearchResponse', () => {
+  it('passes well-formed records through', () => {
+    const record = { mac: MAC, account: 'A1', configfile: 'viavi.cfg', isp: 'ISP', customFields: { tier: 2 } };
+
+    expect(parseSearchResponse([record])).toEqual({ ok: true, value: [record] });
+  });
+
+  it('treats null and a single record as lists', () => {
+    expect(parseSearchResponse(null)).toEqual({ ok: true, value: [] });
+    expect(parseSearchResponse({ mac: MAC, account: 'A1', configfile: 'c', isp: 'i' })).toEqual({
+      ok: true,
+      value: [{ mac: MAC, account: 'A1', configfile: 'c', isp: 'i' }],
+    });
+  });
+
+  it('renames known aliases and keeps unknown fields as custom fields', () => {
+    const result = parseSearchResponse([
+      { mac_address: MAC, accountNumber: 12345, config_file: 'c', ISP: 'i', customFields: null, status: 'active' },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      value: [{ mac: MAC, account: '12345', configfile: 'c', isp: 'i', customFields: { status: 'active' } }],
+    });
+  });
+
+  it('prefers the canonical name when a record carries both', () => {
+    const result = parseSearchResponse([{ mac: MAC, macaddress: '00:00:00:00:00:00' }]);
+
+    expect(result.ok && result.value[0].mac).toBe(MAC);
+  });
+
+  it('reports where a record does not match', () => {
+    expect(parseSearchResponse([{ mac: MAC }, { account: 'A1' }])).toEqual({
+      ok: false,
+      issues: '1.mac: Required',
+    });
+    expect(parseSearchResponse('nothing')).toMatchObject({ ok: false, issues: expect.stringContaining('body:') });
+  });
+});
+
+describe('parseProvisionResponse', () => {
+  it.each([
+    [true, true],
+    [false, false],
+    ['true', true],
+    ['false', false],
+    [{ success: true }, true],
+    [{ success: false }, false],
+  ])('reads %j as %s', (payload, expected) => {
+    expect(parseProvisionResponse(payload)).toEqual({ ok: true, value: expected });
+  });
+
+  it.each([[null], ['ok'], [{ status: 'queued' }], [[true]]])('rejects %j', (payload) => {
+    expect(parseProvisionResponse(payload).ok).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Runtime schemas for LDAP API response bodies.
+ *
+ * The backend has answered the same call in more than one shape (for
+ * example `{macaddress, serialnumber, status}` instead of `{mac, ...}`), so
+ * known field aliases are normalized here and anything else is reported as
+ * an unexpected response instead of being passed on as if it were valid.
+ */
+
+import { z } from 'zod';
+
+/** Names the backend has used for each field, preferred name first */
+const FIELD_ALIASES: Record<'mac' | 'account' | 'configfile' | 'isp', string[]> = {
+  mac: ['mac', 'macaddress', 'macAddress', 'mac_address'],
+  account: ['account', 'accountnumber', 'accountNumber', 'account_number'],
+  configfile: ['configfile', 'configFile', 'config_file'],
+  isp: ['isp', 'ISP'],
+};
+
+const KNOWN_KEYS = new Set([...Object.values(FIELD_ALIASES).flat(), 'customFields']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Rename aliased fields to their preferred names and move any fields the app
+ * does not know (`serialnumber`, `status`, ...) into `customFields`
+ */
+function normalizeRecord(value: unknown): unknown {
+  if (!isPlainObject(value)) return value;
+
+  const normalized: Record<string, unknown> = {};
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES)) {
+    const key = aliases.find((alias) => value[alias] !== undefined && value[alias] !== null);
+    if (key !== undefined) normalized[field] = value[key];
+  }
+
+  const extra = Object.fromEntries(Object.entries(value).filter(([key]) => !KNOWN_KEYS.has(key)));
+  const customFields = isPlainObject(value.customFields) ? value.customFields : {};
+  if (Object.keys(customFields).length > 0 || Object.keys(extra).length > 0) {
+    normalized.customFields = { ...customFields, ...extra };
+  }
+  return normalized;
+}
+
+/** A text field that may arrive as a number or be missing altogether */
+const optionalText = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform((value) => (value === null || value === undefined ? '' : String(value)));
+
+export const macSearchResultSchema = z.preprocess(
+  normalizeRecord,
+  z.object({
+    mac: z.string().min(1),
+    account: optionalText,
+    configfile: optionalText,
+    isp: optionalText,
+    customFields: z.record(z.unknown()).optional(),
+  })
+);
+
+/**
+ * Body of `/searchbymac`: a list of records, a single record, or null when
+ * nothing matched
+ */
+export const searchResponseSchema = z.preprocess(
+  (value) => (value === null ? [] : isPlainObject(value) ? [value] : value),
+  z.array(macSearchResultSchema)
+);
+
+/**
+ * Body of `/addhsd` and `/deletehsd`: `true`/`false`, the same as a string,
+ * or wrapped as `{success}`
+ */
+export const provisionResponseSchema = z.preprocess(
+  (value) => (isPlainObject(value) && 'success' in value ? value.success : value),
+  z.union([z.boolean(), z.enum(['true', 'false']).transform((value) => value === 'true')])
+);
+
+export type SearchRecord = z.infer<typeof macSearchResultSchema>;
+
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; issues: string };
+
+function check<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, payload: unknown): SchemaResult<T> {
+  const result = schema.safeParse(payload);
+  if (result.success) return { ok: true, value: result.data };
+  const issues = result.error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : 'body'}: ${issue.message}`)
+    .join('; ');
+  return { ok: false, issues };
+}
+
+export function parseSearchResponse(payload: unknown): SchemaResult<SearchRecord[]> {
+  return check(searchResponseSchema, payload);
+}
+
+export function parseProvisionResponse(payload: unknown): SchemaResult<boolean> {
+  return check(provisionResponseSchema, payload);
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LdapSimulator, SimulatedHttpError } from './ldapSimulator';
+
+describe('LdapSimulator', () => {
+  let simulator: LdapSimulator;
+
+  beforeEach(() => {
+    simulator = new LdapSimulator({ records: [] });
+  });
+
+  it('seeds the default fixture when constructed without one', async () => {
+    const seeded = new LdapSimulator();
+    expect(seeded.getRecords().length).toBeGreaterThan(0);
+    const [first] = seeded.getRecords();
+    expect(await seeded.searchByMac(first.mac)).toHaveLength(1);
+  });
+
+  it('matches MACs regardless of format', async () => {
+    simulator.seed([{ mac: '00:07:11:22:9E:16', account: 'a', configfile: 'c', isp: 'i' }]);
+    expect(await simulator.searchByMac('00-07-11-22-9e-16')).toHaveLength(1);
+  });
+
+  it('addHsd overwrites an existing record and keeps custom fields', async () => {
+    simulator.seed([
+      { mac: '00:07:11:22:9E:16', account: 'old', configfile: 'old-cfg', isp: 'i', customFields: { site: 'A' } },
+    ]);
+
+    await simulator.addHsd({ mac: '00:07:11:22:9E:16', account: 'new', configfile: 'new-cfg', isp: 'i' });
+
+    const [record] = await simulator.searchByMac('00:07:11:22:9E:16');
+    expect(record).toMatchObject({ account: 'new', configfile: 'new-cfg', customFields: { site: 'A' } });
+  });
+
+  it('scopes faults to a MAC', async () => {
+    simulator.injectFault({ type: 'server-error', mac: '00:07:11:00:00:01' });
+
+    await expect(simulator.searchByMac('00:07:11:00:00:01')).rejects.toBeInstanceOf(SimulatedHttpError);
+    await expect(simulator.searchByMac('00:07:11:00:00:02')).resolves.toEqual([]);
+  });
+
+  it('clears a fault after it has fired the requested number of times', async () => {
+    simulator.injectFault({ type: 'already-exists', operation: 'add', times: 2 });
+    const request = { mac: '00:07:11:00:00:01', account: 'a', configfile: 'c', isp: 'i' };
+
+    await expect(simulator.addHsd(request)).rejects.toMatchObject({ status: 400 });
+    await expect(simulator.addHsd(request)).rejects.toMatchObject({ status: 400 });
+    await expect(simulator.addHsd(request)).resolves.toBeUndefined();
+  });
+
+  it('raises timeouts as AbortError like fetch', async () => {
+    simulator.injectFault({ type: 'timeout', operation: 'search' });
+    await expect(simulator.searchByMac('00:07:11:00:00:01')).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('delays calls with latency faults and then succeeds', async () => {
+    simulator.injectFault({ type: 'latency', latencyMs: 40 });
+
+    const start = Date.now();
+    await simulator.searchByMac('00:07:11:00:00:01');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+  });
+
+  it('reset restores records and clears faults and call counts', async () => {
+    simulator.injectFault({ type: 'server-error', operation: 'search', onCall: 1 });
+    simulator.reset({ records: [{ mac: '00:07:11:00:00:01', account: 'a', configfile: 'c', isp: 'i' }] });
+
+    expect(await simulator.searchByMac('00:07:11:00:00:01')).toHaveLength(1);
+  });
+});
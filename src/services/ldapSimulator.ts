@@ -0,0 +1,154 @@
+/**
+ * Stateful in-memory stand-in for the LDAP API, used when stub mode is enabled.
+ *
+ * Records written with `addHsd` are visible to later `searchByMac` calls, and
+ * faults can be scripted per MAC or per call count so demos and tests can set
+ * up scenarios deterministically.
+ */
+
+import type { MacSearchResult, ProvisionRequest } from '@/services/provisioningApi';
+import seedFixture from '@/services/fixtures/ldapSeed.json';
+
+export type SimulatorOperation = 'search' | 'add' | 'remove';
+
+export type SimulatedFaultType = 'latency' | 'server-error' | 'timeout' | 'already-exists';
+
+export interface SimulatedFault {
+  type: SimulatedFaultType;
+  /** Restrict the fault to one operation; applies to all operations if omitted */
+  operation?: SimulatorOperation;
+  /** Restrict the fault to one MAC (any format) */
+  mac?: string;
+  /** Fire only on the Nth call (1-based) of the operation */
+  onCall?: number;
+  /** Number of times the fault fires before it is cleared; unlimited if omitted */
+  times?: number;
+  /** Extra delay for `latency` faults */
+  latencyMs?: number;
+}
+
+/**
+ * HTTP-style failure raised by the simulator, mirroring a non-2xx backend response
+ */
+export class SimulatedHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SimulatedHttpError';
+  }
+}
+
+interface SimulatorFixture {
+  records: MacSearchResult[];
+}
+
+const normalizeKey = (mac: string) => mac.replace(/[^0-9A-Fa-f]/g, '').toUpperCase();
+
+export class LdapSimulator {
+  private records = new Map<string, MacSearchResult>();
+  private faults: SimulatedFault[] = [];
+  private callCounts: Record<SimulatorOperation, number> = { search: 0, add: 0, remove: 0 };
+
+  constructor(fixture: SimulatorFixture = seedFixture as SimulatorFixture) {
+    this.seed(fixture.records);
+  }
+
+  /**
+   * Replace the record store with the given records
+   */
+  seed(records: MacSearchResult[]) {
+    this.records.clear();
+    for (const record of records) {
+      this.records.set(normalizeKey(record.mac), { ...record });
+    }
+  }
+
+  /**
+   * Restore the default fixture and clear faults and call counts
+   */
+  reset(fixture: SimulatorFixture = seedFixture as SimulatorFixture) {
+    this.seed(fixture.records);
+    this.clearFaults();
+  }
+
+  injectFault(fault: SimulatedFault) {
+    this.faults.push({ ...fault });
+  }
+
+  clearFaults() {
+    this.faults = [];
+    this.callCounts = { search: 0, add: 0, remove: 0 };
+  }
+
+  getRecords(): MacSearchResult[] {
+    return Array.from(this.records.values(), (record) => ({ ...record }));
+  }
+
+  async searchByMac(mac: string): Promise<MacSearchResult[]> {
+    await this.applyFaults('search', mac);
+    const record = this.records.get(normalizeKey(mac));
+    return record ? [{ ...record }] : [];
+  }
+
+  async addHsd(request: ProvisionRequest): Promise<void> {
+    await this.applyFaults('add', request.mac);
+    const key = normalizeKey(request.mac);
+    const existing = this.records.get(key);
+    this.records.set(key, {
+      customFields: null,
+      ...existing,
+      mac: request.mac,
+      account: request.account,
+      configfile: request.configfile,
+      isp: request.isp,
+    });
+  }
+
+  async removeHsd(mac: string): Promise<void> {
+    await this.applyFaults('remove', mac);
+    if (!this.records.delete(normalizeKey(mac))) {
+      throw new SimulatedHttpError(404, 'MAC address not found');
+    }
+  }
+
+  /**
+   * Count the call and run every matching fault. Latency faults delay and
+   * continue; the first failing fault throws the way `fetch` or the backend would.
+   */
+  private async applyFaults(operation: SimulatorOperation, mac: string) {
+    const callNumber = ++this.callCounts[operation];
+    const key = normalizeKey(mac);
+
+    const matching = this.faults.filter(
+      (fault) =>
+        (!fault.operation || fault.operation === operation) &&
+        (!fault.mac || normalizeKey(fault.mac) === key) &&
+        (fault.onCall === undefined || fault.onCall === callNumber)
+    );
+
+    for (const fault of matching) {
+      if (fault.times !== undefined) {
+        fault.times -= 1;
+        if (fault.times <= 0) {
+          this.faults = this.faults.filter((f) => f !== fault);
+        }
+      }
+
+      switch (fault.type) {
+        case 'latency':
+          await new Promise((resolve) => setTimeout(resolve, fault.latencyMs ?? 0));
+          break;
+        case 'timeout':
+          throw Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+        case 'server-error':
+          throw new SimulatedHttpError(500, 'Simulated internal server error');
+        case 'already-exists':
+          throw new SimulatedHttpError(400, 'Validation failed: MAC already exists');
+      }
+    }
+  }
+}
+
+export const ldapSimulator = new LdapSimulator();
@@ -1,5 +1,7 @@
 import { beforeEach, describe, expect, it, vi, afterEach, Mock } from 'vitest';
-import { provisioningApi, ProvisionRequest } from './provisioningApi';
+import { DEFAULT_SEARCH_RETRY, describeVerification, provisioningApi, ProvisionRequest } from './provisioningApi';
+import { ldapSimulator } from './ldapSimulator';
+import { NO_RETRY } from '@/utils/retry';
 
 // Mock import.meta.env
 const mockEnv = { PROD: false };
@@ -9,10 +11,14 @@ vi.mock('import.meta', () => ({
 
 describe('provisioningApi stub implementations', () => {
   beforeEach(() => {
+    ldapSimulator.reset({ records: [] });
     provisioningApi.configure({ enableStubMode: true, stubDelay: 0 });
   });
 
-  it('searchByMac returns existing record for matching MAC', async () => {
+  it('searchByMac returns existing record for seeded MAC', async () => {
+    ldapSimulator.seed([
+      { mac: '00:00:00:00:00:03', account: 'acct', configfile: 'cfg', isp: 'isp' },
+    ]);
     const result = await provisioningApi.searchByMac('00:00:00:00:00:03');
     expect(result).toHaveLength(1);
     expect(result[0].mac).toBe('00:00:00:00:00:03');
@@ -23,8 +29,15 @@ describe('provisioningApi stub implementations', () => {
     expect(result).toEqual([]);
   });
 
-  it('searchByMac throws on simulated server error', async () => {
-    await expect(provisioningApi.searchByMac('00:00:00:00:00:07')).rejects.toThrow();
+  it('searchByMac throws classified error on simulated server error', async () => {
+    ldapSimulator.injectFault({ type: 'server-error', operation: 'search' });
+    try {
+      await provisioningApi.searchByMac('00:00:00:00:00:07');
+      expect.fail('Should have thrown');
+    } catch (error) {
+      const classified = (error as { classifiedError?: { category: string } }).classifiedError;
+      expect(classified?.category).toBe('server');
+    }
   });
 
   it('addHsd handles success and error responses', async () => {
@@ -33,17 +46,19 @@ describe('provisioningApi stub implementations', () => {
       configfile: 'cfg',
       isp: 'isp'
     };
+    ldapSimulator.injectFault({ type: 'already-exists', mac: '00:00:00:00:00:05' });
+    ldapSimulator.injectFault({ type: 'server-error', mac: '00:00:00:00:00:0B' });
 
     const success = await provisioningApi.addHsd({ ...baseReq, mac: '00:00:00:00:00:06' });
-    expect(success).toEqual({ success: true });
+    expect(success).toEqual({ success: true, verification: { verified: true, mismatches: [] } });
 
     const validation = await provisioningApi.addHsd({ ...baseReq, mac: '00:00:00:00:00:05' });
     expect(validation.success).toBe(false);
-    expect(validation.error).toBeDefined();
+    expect(validation.error?.category).toBe('validation');
 
     const server = await provisioningApi.addHsd({ ...baseReq, mac: '00:00:00:00:00:0B' });
     expect(server.success).toBe(false);
-    expect(server.error).toBeDefined();
+    expect(server.error?.category).toBe('server');
   });
 });
 
@@ -189,7 +204,8 @@ describe('provisioningApi real API mode', () => {
 
       const result = await provisioningApi.addHsd(validRequest);
 
-      expect(fetchMock).toHaveBeenCalledTimes(1);
+      // Followed by the read-back search
+      expect(fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/addhsd'))).toHaveLength(1);
       const [url, options] = fetchMock.mock.calls[0];
       expect(url).toBe('https://api.example.com/addhsd');
       expect(options.method).toBe('POST');
@@ -258,6 +274,49 @@ describe('provisioningApi real API mode', () => {
       expect(result.error).toBeDefined();
     });
   });
+
+  describe('removeHsd', () => {
+    it('sends DELETE request with URL-encoded MAC address', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(true),
+      });
+
+      const result = await provisioningApi.removeHsd('AA:BB:CC:DD:EE:FF');
+
+      const [url, options] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.example.com/deletehsd/AA%3ABB%3ACC%3ADD%3AEE%3AFF');
+      expect(options.method).toBe('DELETE');
+      expect(result.success).toBe(true);
+    });
+
+    it('classifies 404 as a missing provisioning record', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: () => Promise.resolve('MAC not found'),
+      });
+
+      const result = await provisioningApi.removeHsd('AA:BB:CC:DD:EE:FF');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.category).toBe('validation');
+      expect(result.error?.title).toBe('MAC Not Provisioned');
+    });
+
+    it('handles timeout gracefully', async () => {
+      const abortError = new Error('Aborted');
+      abortError.name = 'AbortError';
+      fetchMock.mockRejectedValueOnce(abortError);
+
+      const result = await provisioningApi.removeHsd('AA:BB:CC:DD:EE:FF');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.category).toBe('timeout');
+    });
+  });
 });
 
 describe('provisioningApi configuration', () => {
@@ -285,48 +344,65 @@ describe('provisioningApi configuration', () => {
   });
 });
 
-describe('provisioningApi stub behavior patterns', () => {
+describe('provisioningApi stub simulator scenarios', () => {
+  const request: ProvisionRequest = {
+    mac: '00:07:11:00:00:01',
+    account: 'acct',
+    configfile: 'cfg',
+    isp: 'isp',
+  };
+
   beforeEach(() => {
+    ldapSimulator.reset({ records: [] });
     provisioningApi.configure({ enableStubMode: true, stubDelay: 0 });
   });
 
-  it('MAC divisible by 3 returns existing record', async () => {
-    // 0x03 = 3, divisible by 3
-    const result = await provisioningApi.searchByMac('00:00:00:00:00:03');
+  it('provisioned MAC shows up as existing on the next search', async () => {
+    expect(await provisioningApi.searchByMac(request.mac)).toEqual([]);
+
+    await provisioningApi.addHsd(request);
+
+    const result = await provisioningApi.searchByMac(request.mac);
     expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ account: 'acct', configfile: 'cfg', isp: 'isp' });
   });
 
-  it('MAC divisible by 7 (but not 3 or 21) throws server error', async () => {
-    // 0x07 = 7, divisible by 7 but not 3 or 21
-    await expect(provisioningApi.searchByMac('00:00:00:00:00:07')).rejects.toThrow('Simulated server error');
-  });
+  it('deprovisioned MAC is no longer found', async () => {
+    await provisioningApi.addHsd(request);
 
-  it('MAC divisible by 21 returns existing record (exception to error rule)', async () => {
-    // 0x15 = 21, divisible by both 3 and 7
-    const result = await provisioningApi.searchByMac('00:00:00:00:00:15');
-    expect(result).toHaveLength(1);
+    expect(await provisioningApi.removeHsd(request.mac)).toEqual({ success: true });
+    expect(await provisioningApi.searchByMac(request.mac)).toEqual([]);
   });
 
-  it('addHsd MAC divisible by 5 returns validation error', async () => {
-    const result = await provisioningApi.addHsd({
-      mac: '00:00:00:00:00:05',
-      account: 'test',
-      configfile: 'cfg',
-      isp: 'isp',
-    });
+  it('removeHsd reports a missing record as not provisioned', async () => {
+    const result = await provisioningApi.removeHsd(request.mac);
     expect(result.success).toBe(false);
-    expect(result.error).toBeDefined();
+    expect(result.error?.title).toBe('MAC Not Provisioned');
   });
 
-  it('addHsd MAC divisible by 11 returns server error', async () => {
-    const result = await provisioningApi.addHsd({
-      mac: '00:00:00:00:00:0B', // 0x0B = 11
-      account: 'test',
-      configfile: 'cfg',
-      isp: 'isp',
-    });
-    expect(result.success).toBe(false);
-    expect(result.error).toBeDefined();
+  it('timeout fault on the Nth call is classified as timeout', async () => {
+    ldapSimulator.injectFault({ type: 'timeout', operation: 'search', onCall: 2 });
+
+    await provisioningApi.searchByMac(request.mac);
+    try {
+      await provisioningApi.searchByMac(request.mac);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      const classified = (error as { classifiedError?: { category: string } }).classifiedError;
+      expect(classified?.category).toBe('timeout');
+    }
+    await expect(provisioningApi.searchByMac(request.mac)).resolves.toEqual([]);
+  });
+
+  it('failed provisioning does not write a record', async () => {
+    ldapSimulator.injectFault({ type: 'server-error', operation: 'add', times: 1 });
+
+    const failed = await provisioningApi.addHsd(request);
+    expect(failed.success).toBe(false);
+    expect(await provisioningApi.searchByMac(request.mac)).toEqual([]);
+
+    const retried = await provisioningApi.addHsd(request);
+    expect(retried.success).toBe(true);
   });
 });
 
@@ -454,3 +530,355 @@ describe('provisioningApi error classification integration', () => {
     expect(result.error?.category).toBe('validation');
   });
 });
+
+const respond = (status: number, body = '{"error":"failed"}', headers: Record<string, string> = {}) =>
+  new Response(body, { status, headers });
+
+/**
+ * Answer API requests from a queue, in order, recording their URLs.
+ * serverLogger posts to /api/log through the same fetch, so those are
+ * answered separately.
+ */
+function queueFetch() {
+  const queue = { responses: [] as Array<Response | Error>, apiCalls: [] as string[] };
+  global.fetch = vi.fn(async (input: RequestInfo | URL) => {
+    const url = String(input);
+    if (url === '/api/log') return new Response(null, { status: 204 });
+    queue.apiCalls.push(url);
+    const next = queue.responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    if (next instanceof Error) throw next;
+    return next;
+  }) as typeof fetch;
+  return queue;
+}
+
+describe('provisioningApi automatic retries', () => {
+  const MAC = 'AA:BB:CC:DD:EE:FF';
+  const request: ProvisionRequest = { mac: MAC, account: 'acct', configfile: 'cfg', isp: 'isp' };
+  const fastRetry = { maxAttempts: 3, baseDelay: 1, maxDelay: 1000 };
+  let responses: Array<Response | Error>;
+  let apiCalls: string[];
+
+  beforeEach(() => {
+    ({ responses, apiCalls } = queueFetch());
+    provisioningApi.configure({
+      enableStubMode: false,
+      baseUrl: 'https://api.example.com',
+      timeout: 5000,
+      stubDelay: 0,
+      searchRetry: fastRetry,
+      provisionRetry: fastRetry,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    provisioningApi.configure({ searchRetry: DEFAULT_SEARCH_RETRY, provisionRetry: NO_RETRY });
+  });
+
+  it('retries transient search failures and reports each retry', async () => {
+    responses.push(respond(503), respond(502), respond(200, '[]'));
+    const onRetry = vi.fn();
+
+    await expect(provisioningApi.searchByMac(MAC, { onRetry })).resolves.toEqual([]);
+
+    expect(apiCalls).toHaveLength(3);
+    expect(onRetry.mock.calls.map(([event]) => [event.attempt, event.maxAttempts])).toEqual([
+      [2, 3],
+      [3, 3],
+    ]);
+    expect(onRetry.mock.calls[0][0].error.category).toBe('server');
+  });
+
+  it('stops retrying once the search is aborted', async () => {
+    responses.push(respond(503), respond(200, '[]'));
+    const controller = new AbortController();
+
+    const error = await provisioningApi
+      .searchByMac(MAC, { signal: controller.signal, onRetry: () => controller.abort() })
+      .catch((e) => e);
+
+    expect(error.name).toBe('AbortError');
+    expect(error.classifiedError).toBeUndefined();
+    expect(apiCalls).toHaveLength(1);
+  });
+
+  it('gives up after maxAttempts and records the attempt count', async () => {
+    responses.push(respond(500), respond(500), respond(500));
+
+    const error = await provisioningApi.searchByMac(MAC).catch((e) => e);
+
+    expect(apiCalls).toHaveLength(3);
+    expect(error.classifiedError).toMatchObject({ category: 'server', attempts: 3 });
+  });
+
+  it('does not retry failures that are not transient', async () => {
+    responses.push(respond(400));
+
+    const error = await provisioningApi.searchByMac(MAC).catch((e) => e);
+
+    expect(apiCalls).toHaveLength(1);
+    expect(error.classifiedError.category).toBe('validation');
+    expect(error.classifiedError.attempts).toBeUndefined();
+  });
+
+  it('waits for Retry-After on 429 before retrying', async () => {
+    vi.useFakeTimers();
+    responses.push(respond(429, '', { 'Retry-After': '1' }), respond(200, '[]'));
+
+    const result = provisioningApi.searchByMac(MAC);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(apiCalls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual([]);
+    expect(apiCalls).toHaveLength(2);
+  });
+
+  it('gives up when Retry-After asks for longer than maxDelay', async () => {
+    responses.push(respond(503, '', { 'Retry-After': '120' }));
+
+    const error = await provisioningApi.searchByMac(MAC).catch((e) => e);
+
+    expect(apiCalls).toHaveLength(1);
+    expect(error.classifiedError.category).toBe('server');
+  });
+
+  it('retries a provision the proxy could not deliver to the LDAP API', async () => {
+    responses.push(
+      respond(502, '{"error":"Proxy error"}', { 'X-Upstream-Not-Sent': 'true' }),
+      respond(200, 'true'),
+      respond(200, JSON.stringify([request]))
+    );
+    const onRetry = vi.fn();
+
+    expect(await provisioningApi.addHsd(request, { onRetry })).toMatchObject({ success: true });
+    expect(apiCalls.filter((url) => url.endsWith('/addhsd'))).toHaveLength(2);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not repeat a provision that may have reached the LDAP API', async () => {
+    responses.push(respond(502, '{"error":"Proxy error"}'), new TypeError('Failed to fetch'));
+
+    const gateway = await provisioningApi.addHsd(request);
+    const network = await provisioningApi.addHsd(request);
+
+    expect(apiCalls).toHaveLength(2);
+    expect(gateway).toMatchObject({ success: false, error: { category: 'server' } });
+    expect(network).toMatchObject({ success: false, error: { category: 'network' } });
+  });
+
+  it('does not retry provisions unless enabled', async () => {
+    provisioningApi.configure({ provisionRetry: NO_RETRY });
+    responses.push(respond(502, '{"error":"Proxy error"}', { 'X-Upstream-Not-Sent': 'true' }));
+
+    const result = await provisioningApi.addHsd(request);
+
+    expect(apiCalls).toHaveLength(1);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('provisioningApi read-after-write verification', () => {
+  const request: ProvisionRequest = { mac: 'AA:BB:CC:DD:EE:FF', account: 'acct', configfile: 'new.cfg', isp: 'isp' };
+  let responses: Array<Response | Error>;
+  let apiCalls: string[];
+
+  beforeEach(() => {
+    ({ responses, apiCalls } = queueFetch());
+    provisioningApi.configure({
+      enableStubMode: false,
+      baseUrl: 'https://api.example.com',
+      timeout: 5000,
+      searchRetry: NO_RETRY,
+    });
+  });
+
+  afterEach(() => {
+    provisioningApi.configure({ searchRetry: DEFAULT_SEARCH_RETRY });
+  });
+
+  it('re-reads the record and confirms the requested values', async () => {
+    responses.push(respond(200, 'true'), respond(200, JSON.stringify([request])));
+
+    const result = await provisioningApi.addHsd(request);
+
+    expect(apiCalls[1]).toContain('/searchbymac/');
+    expect(result).toEqual({ success: true, verification: { verified: true, mismatches: [] } });
+  });
+
+  it('reports fields the backend did not apply', async () => {
+    responses.push(respond(200, 'true'), respond(200, JSON.stringify([{ ...request, configfile: 'old.cfg' }])));
+
+    const result = await provisioningApi.addHsd(request);
+
+    expect(result.success).toBe(true);
+    expect(result.verification).toEqual({
+      verified: false,
+      mismatches: [{ field: 'configfile', requested: 'new.cfg', actual: 'old.cfg' }],
+    });
+    expect(describeVerification(result.verification!)).toBe('configfile is old.cfg, requested new.cfg');
+  });
+
+  it('reports a MAC that is missing after provisioning', async () => {
+    responses.push(respond(200, 'true'), respond(200, '[]'));
+
+    const { verification } = await provisioningApi.addHsd(request);
+
+    expect(verification?.verified).toBe(false);
+    expect(verification?.mismatches.map((m) => m.actual)).toEqual([null, null, null]);
+  });
+
+  it('keeps the success but flags it unverified when the read-back fails', async () => {
+    responses.push(respond(200, 'true'), respond(500));
+
+    const result = await provisioningApi.addHsd(request);
+
+    expect(result.success).toBe(true);
+    expect(result.verification).toMatchObject({ verified: false, mismatches: [], error: { category: 'server' } });
+  });
+
+  it('does not re-read after a failed provision', async () => {
+    responses.push(respond(400));
+
+    const result = await provisioningApi.addHsd(request);
+
+    expect(apiCalls).toHaveLength(1);
+    expect(result.verification).toBeUndefined();
+  });
+});
+
+describe('provisioningApi response validation', () => {
+  const MAC = 'AA:BB:CC:DD:EE:FF';
+  const request: ProvisionRequest = { mac: MAC, account: 'acct', configfile: 'cfg', isp: 'isp' };
+  let responses: Array<Response | Error>;
+
+  beforeEach(() => {
+    ({ responses } = queueFetch());
+    provisioningApi.configure({
+      enableStubMode: false,
+      baseUrl: 'https://api.example.com',
+      timeout: 5000,
+      searchRetry: NO_RETRY,
+    });
+  });
+
+  afterEach(() => {
+    provisioningApi.configure({ searchRetry: DEFAULT_SEARCH_RETRY });
+  });
+
+  it('normalizes aliased search fields', async () => {
+    responses.push(respond(200, JSON.stringify({ macaddress: MAC, serialnumber: 'VIAVI123456', status: 'active' })));
+
+    await expect(provisioningApi.searchByMac(MAC)).resolves.toEqual([
+      { mac: MAC, account: '', configfile: '', isp: '', customFields: { serialnumber: 'VIAVI123456', status: 'active' } },
+    ]);
+  });
+
+  it('rejects search results of an unexpected shape with the payload attached', async () => {
+    responses.push(respond(200, JSON.stringify({ results: 'none' })));
+
+    const error = await provisioningApi.searchByMac(MAC).catch((e) => e);
+
+    expect(error.classifiedError.category).toBe('response');
+    expect(error.classifiedError.isRetryable).toBe(false);
+    expect(error.classifiedError.technicalDetail).toContain('{"results":"none"}');
+  });
+
+  it('classifies a body that is not JSON as an unexpected response', async () => {
+    responses.push(respond(200, '<html>Gateway login</html>'));
+
+    const error = await provisioningApi.searchByMac(MAC).catch((e) => e);
+
+    expect(error.classifiedError.category).toBe('response');
+    expect(error.classifiedError.technicalDetail).toContain('not JSON');
+  });
+
+  it('accepts a provision result wrapped as {success}', async () => {
+    responses.push(respond(200, '{"success":true}'), respond(200, JSON.stringify([request])));
+
+    await expect(provisioningApi.addHsd(request)).resolves.toMatchObject({ success: true });
+  });
+
+  it('fails a provision whose result has an unexpected shape', async () => {
+    responses.push(respond(200, '{"status":"queued"}'));
+
+    const result = await provisioningApi.addHsd(request);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.title).toBe('Unexpected Response');
+    expect(result.detail).toContain('{"status":"queued"}');
+  });
+
+  it('fails a deprovision whose result has an unexpected shape', async () => {
+    responses.push(respond(200, '"done"'));
+
+    const result = await provisioningApi.removeHsd(MAC);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.category).toBe('response');
+  });
+});
+
+describe('provisioningApi request IDs', () => {
+  const MAC = 'AA:BB:CC:DD:EE:FF';
+  const request: ProvisionRequest = { mac: MAC, account: 'acct', configfile: 'cfg', isp: 'isp' };
+  let responses: Array<Response | Error>;
+
+  /** Request ID header of each API call, and of each log entry, in order */
+  const sentIds = () => {
+    const calls = vi.mocked(global.fetch).mock.calls;
+    const api = calls.filter(([url]) => String(url) !== '/api/log');
+    const logs = calls.filter(([url]) => String(url) === '/api/log');
+    return {
+      api: api.map(([, init]) => (init?.headers as Record<string, string>)['X-Request-ID']),
+      logs: logs.map(([, init]) => JSON.parse(String(init?.body)).requestId),
+    };
+  };
+
+  beforeEach(() => {
+    ({ responses } = queueFetch());
+    provisioningApi.configure({
+      enableStubMode: false,
+      baseUrl: 'https://api.example.com',
+      timeout: 5000,
+      searchRetry: { maxAttempts: 2, baseDelay: 1, maxDelay: 1000 },
+    });
+  });
+
+  afterEach(() => {
+    provisioningApi.configure({ searchRetry: DEFAULT_SEARCH_RETRY });
+  });
+
+  it('sends one ID on every attempt of a search and attaches it to the error', async () => {
+    responses.push(respond(503), respond(503));
+
+    const error = await provisioningApi.searchByMac(MAC).catch((e) => e);
+
+    const { api, logs } = sentIds();
+    expect(api).toHaveLength(2);
+    expect(api[1]).toBe(api[0]);
+    expect(logs.length).toBeGreaterThan(0);
+    expect(logs.every((id) => id === api[0])).toBe(true);
+    expect(error.classifiedError.requestId).toBe(api[0]);
+  });
+
+  it('gives each call its own ID', async () => {
+    responses.push(respond(200, 'true'), respond(200, JSON.stringify([request])));
+
+    await provisioningApi.addHsd(request);
+
+    const { api } = sentIds();
+    expect(api).toHaveLength(2);
+    expect(api[0]).not.toBe(api[1]);
+  });
+
+  it('attaches the ID to a failed provision', async () => {
+    responses.push(respond(500));
+
+    const result = await provisioningApi.addHsd(request);
+
+    expect(result.error?.requestId).toBe(sentIds().api[0]);
+  });
+});
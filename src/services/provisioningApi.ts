@@ -1,13 +1,32 @@
 /**
  * API service for MAC provisioning operations.
  *
- * The API is configured at application startup using values from Vite
- * environment variables. See `provisioningApi.configure` in `main.tsx` for
- * details.
+ * The API is configured at application startup from the runtime config the
+ * app server serves at /api/config. See `provisioningApi.configure` in
+ * `main.tsx` for details. Automatic retries apply to the real API only; the stub simulator
+ * replays its scripted faults exactly.
  */
 
-import { serverLogger } from '@/utils/serverLogger';
-import { classifyError, ClassifiedError, createErrorFromResponse, ErrorContext } from '@/utils/errorUtils';
+import { serverLogger, ServerLogger } from '@/utils/serverLogger';
+import {
+  classifyError,
+  ClassifiedError,
+  createErrorFromResponse,
+  createUnexpectedResponseError,
+  ErrorContext,
+} from '@/utils/errorUtils';
+import { ldapSimulator, SimulatedHttpError } from '@/services/ldapSimulator';
+import { parseProvisionResponse, parseSearchResponse, SchemaResult } from '@/services/ldapSchemas';
+import {
+  isTransientError,
+  NO_RETRY,
+  NOT_SENT_HEADER,
+  parseRetryAfter,
+  retryDelay,
+  RetryEvent,
+  RetryPolicy,
+} from '@/utils/retry';
+import { createRequestId, REQUEST_ID_HEADER } from '@/utils/requestId';
 
 export interface MacSearchResult {
   mac: string;
@@ -24,8 +43,45 @@ export interface ProvisionRequest {
   isp: string;
 }
 
+/** Fields read back after a provision to confirm the backend applied them */
+export const VERIFIED_FIELDS = ['account', 'isp', 'configfile'] as const;
+
+export type VerifiedField = (typeof VERIFIED_FIELDS)[number];
+
+export interface FieldMismatch {
+  field: VerifiedField;
+  requested: string;
+  /** Value found by the follow-up search, or null if the MAC was not found */
+  actual: string | null;
+}
+
+export interface ProvisionVerification {
+  /** The follow-up search found the MAC carrying every requested value */
+  verified: boolean;
+  mismatches: FieldMismatch[];
+  /** Set when the follow-up search itself failed, so nothing was compared */
+  error?: ClassifiedError;
+}
+
+/**
+ * One-line explanation of a failed verification, for compact displays
+ */
+export function describeVerification(verification: ProvisionVerification): string {
+  if (verification.error) {
+    return `Provisioned, but the record could not be re-read: ${verification.error.message}`;
+  }
+  if (verification.mismatches.some((mismatch) => mismatch.actual === null)) {
+    return 'Provisioned, but the MAC was not found afterwards';
+  }
+  return verification.mismatches
+    .map(({ field, requested, actual }) => `${field} is ${actual}, requested ${requested}`)
+    .join('; ');
+}
+
 export interface ProvisionResponse {
   success: boolean;
+  /** Result of reading the record back; present whenever `success` is true */
+  verification?: ProvisionVerification;
   error?: ClassifiedError;
   /** @deprecated Use error.technicalDetail instead */
   detail?: string;
@@ -36,6 +92,67 @@ export interface ApiConfig {
   enableStubMode: boolean;
   stubDelay: number;
   timeout: number;
+  /** Automatic retries for searches, which are safe to repeat */
+  searchRetry: RetryPolicy;
+  /**
+   * Automatic retries for provisioning; off by default. Even when enabled, a
+   * provision is only repeated if it provably never reached the LDAP API.
+   */
+  provisionRetry: RetryPolicy;
+}
+
+export interface RequestOptions {
+  /** Called before each automatic retry, e.g. to show "attempt 2 of 3" */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface SearchOptions extends RequestOptions {
+  /**
+   * Aborts the search and any pending retry; the promise then rejects with
+   * the signal's reason instead of a classified error
+   */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_SEARCH_RETRY: RetryPolicy = { maxAttempts: 3, baseDelay: 500, maxDelay: 8000 };
+
+/** Statuses whose Retry-After header is honored */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/** A failed attempt inside the retry loop */
+type AttemptError = Error & {
+  classifiedError: ClassifiedError;
+  /** Wait requested by the server's Retry-After header */
+  retryAfterMs?: number | null;
+  /** The request provably never reached the LDAP API */
+  notSent?: boolean;
+};
+
+/**
+ * Read a JSON response body, classifying a body that is not JSON as an
+ * unexpected response
+ */
+async function readJson(response: Response, context: ErrorContext): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch (error) {
+    if ((error as Error).name !== 'SyntaxError') throw error;
+    return expectShape({ ok: false, issues: `body is not JSON (${(error as Error).message})` }, undefined, context);
+  }
+}
+
+/**
+ * Unwrap a schema check, throwing an "unexpected response" error that
+ * carries the offending payload when the body did not match
+ */
+function expectShape<T>(result: SchemaResult<T>, payload: unknown, context: ErrorContext): T {
+  if (result.ok) return result.value;
+  const { issues } = result as Extract<SchemaResult<T>, { ok: false }>;
+  const classifiedError = createUnexpectedResponseError(payload, issues, context);
+  serverLogger
+    .forRequest(context.requestId)
+    .error('[API] Unexpected response shape', { url: context.url, classifiedError });
+  throw Object.assign(new Error(classifiedError.message), { classifiedError });
 }
 
 class ProvisioningApiService {
@@ -44,6 +161,8 @@ class ProvisioningApiService {
     enableStubMode: true, // Default to stub mode for development
     stubDelay: 1500,
     timeout: 30000, // 30 second timeout
+    searchRetry: DEFAULT_SEARCH_RETRY,
+    provisionRetry: NO_RETRY,
   };
 
   configure(config: Partial<ApiConfig>) {
@@ -61,52 +180,84 @@ class ProvisioningApiService {
   }
 
   /**
-   * Search for MAC address status
+   * Search for MAC address status. Transient failures are retried according
+   * to `searchRetry`; `onRetry` is told about each retry so the UI can show it.
+   * Every attempt carries the same request ID, which also ends up on the
+   * log entries and on any classified error.
    */
-  async searchByMac(mac: string): Promise<MacSearchResult[]> {
+  async searchByMac(mac: string, options: SearchOptions = {}): Promise<MacSearchResult[]> {
+    const requestId = createRequestId();
+    const log = serverLogger.forRequest(requestId);
+
     if (this.config.enableStubMode) {
-      serverLogger.info('[API] Stub mode enabled, using mock data');
-      return this.stubSearchByMac(mac);
+      log.info('[API] Stub mode enabled, using mock data');
+      return this.stubSearchByMac(mac, requestId);
     }
 
     // URL-encode the MAC address to handle colons properly
     const encodedMac = encodeURIComponent(mac);
     const baseUrl = this.getEffectiveBaseUrl();
     const url = `${baseUrl}/searchbymac/${encodedMac}`;
-    const context: ErrorContext = { type: 'search', url };
-
-    serverLogger.info('[API] Fetching', { url, mac, encodedMac });
+    const context: ErrorContext = { type: 'search', url, requestId };
+
+    log.info('[API] Fetching', { url, mac, encodedMac });
+
+    return this.withRetry(
+      'Search',
+      this.config.searchRetry,
+      (failure) => isTransientError(failure.classifiedError),
+      () => this.searchOnce(url, context, options.signal),
+      log,
+      options
+    );
+  }
 
+  private async searchOnce(url: string, context: ErrorContext, signal?: AbortSignal): Promise<MacSearchResult[]> {
+    const log = serverLogger.forRequest(context.requestId);
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel);
     try {
-      const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
-      const response = await fetch(url, { signal: controller.signal });
+      const response = await fetch(url, {
+        headers: { [REQUEST_ID_HEADER]: context.requestId },
+        signal: controller.signal,
+      });
       clearTimeout(timeoutId);
 
-      serverLogger.info('[API] Response received', {
+      log.info('[API] Response received', {
         status: response.status,
         ok: response.ok,
         statusText: response.statusText,
       });
 
       if (!response.ok) {
+        const retryAfterMs = RETRY_AFTER_STATUSES.includes(response.status)
+          ? parseRetryAfter(response.headers?.get('Retry-After'))
+          : null;
         const classifiedError = await createErrorFromResponse(response, context);
-        serverLogger.error('[API] Search error response', {
+        log.error('[API] Search error response', {
           status: response.status,
           classifiedError,
         });
-        throw Object.assign(new Error(classifiedError.message), { classifiedError });
+        throw Object.assign(new Error(classifiedError.message), { classifiedError, retryAfterMs });
       }
 
-      const data = await response.json();
-      serverLogger.info('[API] Response data', { data });
-      return data;
+      const data = await readJson(response, context);
+      log.info('[API] Response data', { data });
+      // Without strictNullChecks zod infers every field as optional
+      return expectShape(parseSearchResponse(data), data, context) as MacSearchResult[];
     } catch (error) {
+      // Cancelled by the caller: nothing to classify
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
       // Handle abort as timeout
       if ((error as Error).name === 'AbortError') {
         const timeoutError = classifyError(new Error('Request timed out'), context);
-        serverLogger.error('[API] Search timeout', { url, timeout: this.config.timeout });
+        log.error('[API] Search timeout', { url, timeout: this.config.timeout });
         throw Object.assign(new Error(timeoutError.message), { classifiedError: timeoutError });
       }
 
@@ -117,36 +268,67 @@ class ProvisioningApiService {
 
       // Classify unknown errors
       const classifiedError = classifyError(error as Error, context);
-      serverLogger.error('[API] Search error', {
+      log.error('[API] Search error', {
         message: (error as Error).message,
         name: (error as Error).name,
         url,
         classifiedError,
       });
       throw Object.assign(new Error(classifiedError.message), { classifiedError });
+    } finally {
+      signal?.removeEventListener('abort', cancel);
     }
   }
 
   /**
-   * Provision a MAC address
+   * Provision a MAC address, then read the record back to confirm the
+   * backend applied the requested values. Provisioning is not idempotent, so it is only
+   * retried (when `provisionRetry` allows it at all) if the failed attempt
+   * provably never reached the LDAP API.
    */
-  async addHsd(request: ProvisionRequest): Promise<ProvisionResponse> {
+  async addHsd(request: ProvisionRequest, options: RequestOptions = {}): Promise<ProvisionResponse> {
+    const requestId = createRequestId();
+    const log = serverLogger.forRequest(requestId);
+
     if (this.config.enableStubMode) {
-      return this.stubAddHsd(request);
+      return this.withVerification(request, await this.stubAddHsd(request, requestId), log);
     }
 
     const baseUrl = this.getEffectiveBaseUrl();
     const url = `${baseUrl}/addhsd`;
-    const context: ErrorContext = { type: 'provision', url };
+    const context: ErrorContext = { type: 'provision', url, requestId };
+
+    try {
+      const success = await this.withRetry(
+        'Provision',
+        this.config.provisionRetry,
+        (failure) => failure.notSent === true,
+        () => this.provisionOnce(url, request, context),
+        log,
+        options
+      );
+      return this.withVerification(request, { success }, log);
+    } catch (error) {
+      const { classifiedError } = error as AttemptError;
+      return {
+        success: false,
+        error: classifiedError,
+        detail: classifiedError.technicalDetail,
+      };
+    }
+  }
 
+  private async provisionOnce(url: string, request: ProvisionRequest, context: ErrorContext): Promise<boolean> {
+    let response: Response | undefined;
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
-      const response = await fetch(url, {
+      response = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          [REQUEST_ID_HEADER]: context.requestId,
         },
         body: JSON.stringify(request),
         signal: controller.signal,
@@ -154,11 +336,73 @@ class ProvisioningApiService {
       clearTimeout(timeoutId);
 
       if (response.ok) {
-        const result = await response.json();
-        return { success: result === true };
+        const result = await readJson(response, context);
+        return expectShape(parseProvisionResponse(result), result, context);
       }
 
+      const notSent = response.status === 502 && response.headers?.get(NOT_SENT_HEADER) === 'true';
       const classifiedError = await createErrorFromResponse(response, context);
+      throw Object.assign(new Error(classifiedError.message), { classifiedError, notSent });
+    } catch (error) {
+      if ((error as { classifiedError?: ClassifiedError }).classifiedError) {
+        throw error;
+      }
+
+      // Handle abort as timeout; the request may have been processed
+      if ((error as Error).name === 'AbortError') {
+        const timeoutError = classifyError(new Error('Request timed out'), context);
+        throw Object.assign(new Error(timeoutError.message), { classifiedError: timeoutError });
+      }
+
+      const classifiedError = classifyError(error as Error, context);
+      serverLogger.forRequest(context.requestId).error('[API] Provision error', {
+        error: (error as Error).message,
+        classifiedError,
+      });
+      // Without a response the browser cannot tell whether the request went
+      // out, except when it knows it is offline
+      const notSent = response === undefined && typeof navigator !== 'undefined' && navigator.onLine === false;
+      throw Object.assign(new Error(classifiedError.message), { classifiedError, notSent });
+    }
+  }
+
+  /**
+   * Deprovision (remove HSD) a MAC address
+   */
+  async removeHsd(mac: string): Promise<ProvisionResponse> {
+    const requestId = createRequestId();
+    const log = serverLogger.forRequest(requestId);
+
+    if (this.config.enableStubMode) {
+      return this.stubRemoveHsd(mac, requestId);
+    }
+
+    const encodedMac = encodeURIComponent(mac);
+    const baseUrl = this.getEffectiveBaseUrl();
+    const url = `${baseUrl}/deletehsd/${encodedMac}`;
+    const context: ErrorContext = { type: 'deprovision', url, requestId };
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+
+      const response = await fetch(url, {
+        method: 'DELETE',
+        headers: { [REQUEST_ID_HEADER]: requestId },
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+
+      if (response.ok) {
+        const result = await readJson(response, context);
+        return { success: expectShape(parseProvisionResponse(result), result, context) };
+      }
+
+      const classifiedError = await createErrorFromResponse(response, context);
+      log.error('[API] Deprovision error response', {
+        status: response.status,
+        classifiedError,
+      });
       return {
         success: false,
         error: classifiedError,
@@ -175,8 +419,13 @@ class ProvisioningApiService {
         };
       }
 
+      const classified = (error as { classifiedError?: ClassifiedError }).classifiedError;
+      if (classified) {
+        return { success: false, error: classified, detail: classified.technicalDetail };
+      }
+
       const classifiedError = classifyError(error as Error, context);
-      serverLogger.error('[API] Provision error', {
+      log.error('[API] Deprovision error', {
         error: (error as Error).message,
         classifiedError,
       });
@@ -189,66 +438,146 @@ class ProvisioningApiService {
   }
 
   /**
-   * Stub implementation for development/testing
+   * Attach a read-after-write check to a successful provision. The backend
+   * has answered `true` without applying the requested configfile before, so
+   * its answer alone is not trusted.
    */
-  private async stubSearchByMac(mac: string): Promise<MacSearchResult[]> {
-    await this.delay(this.config.stubDelay);
-
-    // Simulate different responses based on MAC
-    const macNumber = parseInt(mac.replace(/:/g, ''), 16);
-    const shouldExist = macNumber % 3 === 0; // Every 3rd MAC "exists"
-    const shouldError = macNumber % 7 === 0; // Every 7th MAC causes server error
+  private async withVerification(
+    request: ProvisionRequest,
+    result: ProvisionResponse,
+    log: ServerLogger
+  ): Promise<ProvisionResponse> {
+    if (!result.success) return result;
+
+    let records: MacSearchResult[];
+    try {
+      records = await this.searchByMac(request.mac);
+    } catch (error) {
+      const classifiedError =
+        (error as { classifiedError?: ClassifiedError }).classifiedError ||
+        classifyError(error as Error, { type: 'search' });
+      log.warn('[API] Could not verify provision', { mac: request.mac, classifiedError });
+      return { ...result, verification: { verified: false, mismatches: [], error: classifiedError } };
+    }
 
-    if (shouldError && macNumber % 21 !== 0) {
-      // But not if both conditions are true
-      throw new Error('Simulated server error (5xx)');
+    const record = records[0];
+    const mismatches: FieldMismatch[] = VERIFIED_FIELDS.filter((field) => record?.[field] !== request[field]).map(
+      (field) => ({ field, requested: request[field], actual: record?.[field] ?? null })
+    );
+    if (mismatches.length > 0) {
+      log.error('[API] Provision not verified', { mac: request.mac, mismatches });
     }
+    return { ...result, verification: { verified: mismatches.length === 0, mismatches } };
+  }
 
-    if (shouldExist) {
-      return [
-        {
-          mac,
-          account: 'ViaviMeter',
-          configfile: 'existing-config',
-          isp: 'CableOne',
-          customFields: null,
-        },
-      ];
+  /**
+   * Run `attempt` until it succeeds, `shouldRetry` rejects its failure or the
+   * policy runs out of attempts. The final error records how many were made.
+   */
+  private async withRetry<T>(
+    label: string,
+    policy: RetryPolicy,
+    shouldRetry: (failure: AttemptError) => boolean,
+    attempt: () => Promise<T>,
+    log: ServerLogger,
+    { onRetry, signal }: SearchOptions
+  ): Promise<T> {
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        const failure = error as AttemptError;
+        const delayMs = shouldRetry(failure) ? retryDelay(attemptNumber, policy, failure.retryAfterMs) : null;
+
+        if (delayMs === null) {
+          if (attemptNumber > 1) {
+            failure.classifiedError = { ...failure.classifiedError, attempts: attemptNumber };
+            log.error(`[API] ${label} failed after ${attemptNumber} attempts`, {
+              classifiedError: failure.classifiedError,
+            });
+          }
+          throw failure;
+        }
+
+        const event: RetryEvent = {
+          attempt: attemptNumber + 1,
+          maxAttempts: policy.maxAttempts,
+          delayMs,
+          error: failure.classifiedError,
+        };
+        log.warn(`[API] ${label} failed, retrying`, event);
+        onRetry?.(event);
+        await this.delay(delayMs);
+        signal?.throwIfAborted();
+      }
     }
+  }
 
-    return []; // Not found
+  /**
+   * Stub implementation for development/testing, backed by the in-memory
+   * LDAP simulator so provisioned MACs show up on later searches
+   */
+  private async stubSearchByMac(mac: string, requestId: string): Promise<MacSearchResult[]> {
+    await this.delay(this.config.stubDelay);
+
+    try {
+      return await ldapSimulator.searchByMac(mac);
+    } catch (error) {
+      const classifiedError = this.classifySimulatorError(error, { type: 'search', requestId });
+      throw Object.assign(new Error(classifiedError.message), { classifiedError });
+    }
   }
 
   /**
    * Stub implementation for provisioning
    */
-  private async stubAddHsd(request: ProvisionRequest): Promise<ProvisionResponse> {
+  private async stubAddHsd(request: ProvisionRequest, requestId: string): Promise<ProvisionResponse> {
     await this.delay(this.config.stubDelay);
 
-    // Simulate different responses based on MAC
-    const macNumber = parseInt(request.mac.replace(/:/g, ''), 16);
-    const shouldError400 = macNumber % 5 === 0; // Every 5th MAC gets 400 error
-    const shouldError500 = macNumber % 11 === 0; // Every 11th MAC gets 500 error
-
-    if (shouldError500) {
+    try {
+      await ldapSimulator.addHsd(request);
+      return { success: true };
+    } catch (error) {
+      const classifiedError = this.classifySimulatorError(error, { type: 'provision', requestId });
       return {
         success: false,
-        error: classifyError(new Error('Server error: 500'), { type: 'provision' }),
-        detail: 'Simulated internal server error',
+        error: classifiedError,
+        detail: classifiedError.technicalDetail,
       };
     }
+  }
 
-    if (shouldError400) {
+  /**
+   * Stub implementation for deprovisioning
+   */
+  private async stubRemoveHsd(mac: string, requestId: string): Promise<ProvisionResponse> {
+    await this.delay(this.config.stubDelay);
+
+    try {
+      await ldapSimulator.removeHsd(mac);
+      return { success: true };
+    } catch (error) {
+      const classifiedError = this.classifySimulatorError(error, { type: 'deprovision', requestId });
       return {
         success: false,
-        error: classifyError(new Error('Validation failed: MAC already exists'), {
-          type: 'provision',
-        }),
-        detail: 'MAC address already exists with different configuration',
+        error: classifiedError,
+        detail: classifiedError.technicalDetail,
       };
     }
+  }
 
-    return { success: true };
+  /**
+   * Classify a simulator failure the same way as its real-API counterpart
+   */
+  private classifySimulatorError(error: unknown, context: ErrorContext): ClassifiedError {
+    if (error instanceof SimulatedHttpError) {
+      return classifyError(error, { ...context, statusCode: error.status });
+    }
+    if ((error as Error).name === 'AbortError') {
+      return classifyError(new Error('Request timed out'), context);
+    }
+    return classifyError(error as Error, context);
   }
 
   private delay(ms: number): Promise<void> {
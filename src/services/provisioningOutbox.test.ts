@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage, OutboxItem, OutboxStorage, provisioningOutbox } from './provisioningOutbox';
+import type { ClassifiedError } from '@/utils/errorUtils';
+
+vi.mock('@/services/provisioningApi', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/provisioningApi')>()),
+  provisioningApi: {
+    searchByMac: vi.fn(),
+    addHsd: vi.fn(),
+  },
+}));
+
+import { provisioningApi } from '@/services/provisioningApi';
+
+const MAC = 'AA:BB:CC:DD:EE:FF';
+const request = { mac: MAC, account: 'acct', configfile: 'new.cfg', isp: 'isp' };
+const previous = { ...request, configfile: 'old.cfg' };
+
+const classified = (category: ClassifiedError['category']): ClassifiedError => ({
+  category,
+  title: category,
+  message: `${category} failure`,
+  likelyCause: '',
+  suggestion: '',
+  isRetryable: true,
+});
+const networkError = classified('network');
+
+describe('provisioningOutbox', () => {
+  let storage: OutboxStorage;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = createMemoryStorage();
+    provisioningOutbox.configure({ storage });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stores queued provisions and notifies subscribers', async () => {
+    const listener = vi.fn();
+    const unsubscribe = provisioningOutbox.subscribe(listener);
+
+    const item = await provisioningOutbox.enqueue(request, previous, networkError);
+    unsubscribe();
+
+    expect(item).toMatchObject({ request, expected: previous, status: 'pending', attempts: 0 });
+    expect(await storage.getAll()).toEqual([item]);
+    expect(provisioningOutbox.getItems()).toEqual([item]);
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('loads stored items oldest first', async () => {
+    const stored = (id: string, queuedAt: string): OutboxItem => ({
+      id,
+      request,
+      expected: null,
+      queuedAt,
+      status: 'pending',
+      attempts: 0,
+    });
+    await storage.put(stored('later', '2026-03-02T00:00:00.000Z'));
+    await storage.put(stored('earlier', '2026-03-01T00:00:00.000Z'));
+
+    await provisioningOutbox.load();
+
+    expect(provisioningOutbox.getItems().map((item) => item.id)).toEqual(['earlier', 'later']);
+  });
+
+  it('sends a pending provision when the record is as it was queued', async () => {
+    await provisioningOutbox.enqueue(request, previous);
+    vi.mocked(provisioningApi.searchByMac).mockResolvedValue([previous]);
+    vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
+
+    await provisioningOutbox.replay();
+
+    expect(provisioningApi.addHsd).toHaveBeenCalledWith(request);
+    expect(provisioningOutbox.getItems()).toEqual([]);
+    expect(await storage.getAll()).toEqual([]);
+  });
+
+  it('drops a provision the API already applied without sending it again', async () => {
+    await provisioningOutbox.enqueue(request, null);
+    vi.mocked(provisioningApi.searchByMac).mockResolvedValue([request]);
+
+    await provisioningOutbox.replay();
+
+    expect(provisioningApi.addHsd).not.toHaveBeenCalled();
+    expect(provisioningOutbox.getItems()).toEqual([]);
+  });
+
+  it('holds a provision whose record changed as a conflict until it is requeued', async () => {
+    const changed = { ...previous, account: 'someone-else' };
+    const { id } = await provisioningOutbox.enqueue(request, previous);
+    vi.mocked(provisioningApi.searchByMac).mockResolvedValue([changed]);
+    vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
+
+    await provisioningOutbox.replay();
+
+    expect(provisioningApi.addHsd).not.toHaveBeenCalled();
+    expect(provisioningOutbox.getItems()[0]).toMatchObject({ status: 'conflict', found: changed, attempts: 1 });
+
+    await provisioningOutbox.requeue(id);
+    await provisioningOutbox.replay();
+
+    expect(provisioningApi.addHsd).toHaveBeenCalledWith(request);
+    expect(provisioningOutbox.getItems()).toEqual([]);
+  });
+
+  it('keeps items pending while the network is down and fails them on other errors', async () => {
+    await provisioningOutbox.enqueue(request, null);
+    vi.mocked(provisioningApi.searchByMac).mockResolvedValue([]);
+    vi.mocked(provisioningApi.addHsd).mockResolvedValueOnce({ success: false, error: networkError });
+
+    await provisioningOutbox.replay();
+    expect(provisioningOutbox.getItems()[0]).toMatchObject({ status: 'pending', attempts: 1, error: networkError });
+
+    vi.mocked(provisioningApi.addHsd).mockResolvedValueOnce({ success: false, error: classified('validation') });
+    await provisioningOutbox.replay();
+    expect(provisioningOutbox.getItems()[0]).toMatchObject({ status: 'failed', attempts: 2 });
+  });
+
+  it('keeps a provision the API acknowledged but that did not read back as failed', async () => {
+    await provisioningOutbox.enqueue(request, previous);
+    vi.mocked(provisioningApi.searchByMac).mockResolvedValue([previous]);
+    vi.mocked(provisioningApi.addHsd).mockResolvedValue({
+      success: true,
+      verification: {
+        verified: false,
+        mismatches: [{ field: 'configfile', requested: 'new.cfg', actual: 'old.cfg' }],
+      },
+    });
+
+    await provisioningOutbox.replay();
+
+    const [item] = provisioningOutbox.getItems();
+    expect(item).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(item.error).toMatchObject({
+      title: 'Provisioned but Not Verified',
+      message: 'configfile is old.cfg, requested new.cfg',
+    });
+    expect(await storage.getAll()).toEqual([item]);
+  });
+
+  it('does not replay while the browser is offline', async () => {
+    await provisioningOutbox.enqueue(request, null);
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+    await provisioningOutbox.replay();
+
+    expect(provisioningApi.searchByMac).not.toHaveBeenCalled();
+    expect(provisioningOutbox.getItems()[0].attempts).toBe(0);
+  });
+
+  it('replays when the browser comes back online', async () => {
+    await provisioningOutbox.enqueue(request, null);
+    vi.mocked(provisioningApi.searchByMac).mockResolvedValue([]);
+    vi.mocked(provisioningApi.addHsd).mockResolvedValue({ success: true });
+    const stop = provisioningOutbox.start();
+    await vi.waitFor(() => expect(provisioningOutbox.getItems()).toEqual([]));
+    await provisioningOutbox.enqueue(request, null);
+
+    window.dispatchEvent(new Event('online'));
+    stop();
+
+    await vi.waitFor(() => expect(provisioningOutbox.getItems()).toEqual([]));
+    expect(provisioningApi.addHsd).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Outbox for provisions that failed because the device had no connection.
+ *
+ * Queued requests are kept in IndexedDB so they survive a reload, and are
+ * replayed when the browser comes back online or on a timer. Before each
+ * replay the MAC is searched again: if its record changed since the
+ * provision was attempted, the item is held as a conflict for the
+ * technician to review instead of overwriting someone else's change.
+ */
+
+import { classifyError, ClassifiedError, createUnverifiedProvisionError } from '@/utils/errorUtils';
+import { serverLogger } from '@/utils/serverLogger';
+import {
+  describeVerification,
+  MacSearchResult,
+  provisioningApi,
+  ProvisionRequest,
+  VERIFIED_FIELDS,
+} from '@/services/provisioningApi';
+
+/**
+ * `pending`: waiting for a replay. `conflict`: the record changed since the
+ * provision was queued. `failed`: a replay reached the API and was rejected,
+ * or was accepted but the record read back afterwards did not match.
+ */
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxItem {
+  id: string;
+  request: ProvisionRequest;
+  /** The MAC's record when the provision was attempted, null if it had none */
+  expected: MacSearchResult | null;
+  queuedAt: string;
+  status: OutboxStatus;
+  /** Replays attempted so far */
+  attempts: number;
+  lastAttemptAt?: string;
+  /** Why the last replay did not go through */
+  error?: ClassifiedError;
+  /** What the search before the last replay found, for `conflict` items */
+  found?: MacSearchResult | null;
+}
+
+export interface OutboxStorage {
+  getAll(): Promise<OutboxItem[]>;
+  put(item: OutboxItem): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const DB_NAME = 'viavi-provisioning';
+const STORE_NAME = 'outbox';
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Outbox storage in an IndexedDB object store keyed by item id
+ */
+export function createIndexedDbStorage(factory: IDBFactory = indexedDB): OutboxStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const store = async (mode: IDBTransactionMode) => {
+    if (!database) {
+      const request = factory.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      database = settle(request);
+    }
+    return (await database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  };
+
+  return {
+    getAll: async () => settle((await store('readonly')).getAll() as IDBRequest<OutboxItem[]>),
+    put: async (item) => {
+      await settle((await store('readwrite')).put(item));
+    },
+    delete: async (id) => {
+      await settle((await store('readwrite')).delete(id));
+    },
+  };
+}
+
+/**
+ * Outbox storage that lasts as long as the page, for browsers without
+ * IndexedDB (some private modes) and for tests
+ */
+export function createMemoryStorage(): OutboxStorage {
+  const items = new Map<string, OutboxItem>();
+  return {
+    getAll: async () => [...items.values()],
+    put: async (item) => {
+      items.set(item.id, item);
+    },
+    delete: async (id) => {
+      items.delete(id);
+    },
+  };
+}
+
+/** Failures worth queueing: the request could not get through at all */
+export function isQueueable(error: ClassifiedError): boolean {
+  return error.category === 'network';
+}
+
+function sameValues(record: MacSearchResult | null, values: ProvisionRequest | MacSearchResult | null): boolean {
+  if (record === null || values === null) return record === values;
+  return VERIFIED_FIELDS.every((field) => record[field] === values[field]);
+}
+
+function toClassifiedError(error: unknown): ClassifiedError {
+  return (
+    (error as { classifiedError?: ClassifiedError }).classifiedError ||
+    classifyError(error as Error, { type: 'provision' })
+  );
+}
+
+export interface OutboxConfig {
+  storage: OutboxStorage;
+  /** Milliseconds between replays while items are pending */
+  replayInterval: number;
+}
+
+class ProvisioningOutbox {
+  private config: OutboxConfig = {
+    storage: typeof indexedDB !== 'undefined' ? createIndexedDbStorage() : createMemoryStorage(),
+    replayInterval: 60000,
+  };
+
+  private items: OutboxItem[] = [];
+  private loading: Promise<void> | null = null;
+  private replaying: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+
+  configure(config: Partial<OutboxConfig>) {
+    if (config.storage) {
+      this.items = [];
+      this.loading = null;
+    }
+    this.config = { ...this.config, ...config };
+  }
+
+  /** Current items, oldest first; the array is replaced on every change */
+  getItems = (): OutboxItem[] => this.items;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /** Read the stored items, once */
+  load(): Promise<void> {
+    this.loading ??= this.config.storage.getAll().then(
+      (items) => this.setItems(items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))),
+      (error) => {
+        // Try again on the next call
+        this.loading = null;
+        throw error;
+      }
+    );
+    return this.loading;
+  }
+
+  /**
+   * Queue a provision that could not be sent. `expected` is the MAC's record
+   * as the technician saw it, which a replay checks before sending.
+   */
+  async enqueue(request: ProvisionRequest, expected: MacSearchResult | null, error?: ClassifiedError) {
+    await this.load();
+    const item: OutboxItem = {
+      id: crypto.randomUUID(),
+      request,
+      expected,
+      queuedAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      error,
+    };
+    await this.save(item);
+    serverLogger.info('[Outbox] Provision queued', { mac: request.mac, id: item.id });
+    return item;
+  }
+
+  async cancel(id: string) {
+    await this.config.storage.delete(id);
+    this.setItems(this.items.filter((item) => item.id !== id));
+    serverLogger.info('[Outbox] Queued provision cancelled', { id });
+  }
+
+  /**
+   * Put a conflicted or failed item back in line. For a conflict the record
+   * found by the last search becomes the expected one, so the replay goes
+   * ahead and overwrites it.
+   */
+  async requeue(id: string) {
+    const item = this.items.find((candidate) => candidate.id === id);
+    if (!item) return;
+    await this.save({
+      ...item,
+      status: 'pending',
+      expected: item.status === 'conflict' ? (item.found ?? null) : item.expected,
+      found: undefined,
+    });
+  }
+
+  /**
+   * Replay every pending item, one at a time. Concurrent calls share the run
+   * in progress, and nothing is sent while the browser reports being offline.
+   */
+  replay(): Promise<void> {
+    this.replaying ??= this.replayPending().finally(() => {
+      this.replaying = null;
+    });
+    return this.replaying;
+  }
+
+  /**
+   * Replay on reconnect and every `replayInterval`; returns a function that
+   * stops both
+   */
+  start(): () => void {
+    const onOnline = () => {
+      this.replay().catch((error) => {
+        serverLogger.error('[Outbox] Replay stopped', { message: (error as Error).message });
+      });
+    };
+    window.addEventListener('online', onOnline);
+    const timer = setInterval(onOnline, this.config.replayInterval);
+    onOnline();
+    return () => {
+      window.removeEventListener('online', onOnline);
+      clearInterval(timer);
+    };
+  }
+
+  private async replayPending() {
+    await this.load();
+    for (const item of this.items.filter((candidate) => candidate.status === 'pending')) {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+      await this.replayItem(item);
+    }
+  }
+
+  private async replayItem(queued: OutboxItem) {
+    const item: OutboxItem = { ...queued, attempts: queued.attempts + 1, lastAttemptAt: new Date().toISOString() };
+    const { request } = item;
+
+    let found: MacSearchResult | null;
+    try {
+      found = (await provisioningApi.searchByMac(request.mac))[0] ?? null;
+    } catch (error) {
+      return this.recordFailure(item, toClassifiedError(error));
+    }
+
+    // Cancelled while the search was in flight
+    if (!this.isQueued(item.id)) return;
+
+    // The original attempt may have reached the API after all
+    if (sameValues(found, request)) {
+      serverLogger.info('[Outbox] Queued provision already applied', { mac: request.mac, id: item.id });
+      return this.cancel(item.id);
+    }
+
+    if (!sameValues(found, item.expected)) {
+      serverLogger.warn('[Outbox] Record changed since the provision was queued', {
+        mac: request.mac,
+        id: item.id,
+        expected: item.expected,
+        found,
+      });
+      return this.save({ ...item, status: 'conflict', found, error: undefined });
+    }
+
+    const result = await provisioningApi.addHsd(request);
+    if (result.success && result.verification?.verified === false) {
+      // Acknowledged but not confirmed by reading it back; kept for the technician to check
+      const error = createUnverifiedProvisionError(describeVerification(result.verification));
+      serverLogger.warn('[Outbox] Queued provision sent but not verified', {
+        mac: request.mac,
+        id: item.id,
+        verification: result.verification,
+      });
+      if (!this.isQueued(item.id)) return;
+      return this.save({ ...item, status: 'failed', error });
+    }
+    if (result.success) {
+      serverLogger.info('[Outbox] Queued provision sent', { mac: request.mac, id: item.id });
+      return this.cancel(item.id);
+    }
+    return this.recordFailure(item, result.error || classifyError(new Error(result.detail || 'Unknown error')));
+  }
+
+  private recordFailure(item: OutboxItem, error: ClassifiedError) {
+    if (!this.isQueued(item.id)) return;
+    serverLogger.warn('[Outbox] Replay failed', { mac: item.request.mac, id: item.id, classifiedError: error });
+    return this.save({ ...item, status: isQueueable(error) ? 'pending' : 'failed', error });
+  }
+
+  private isQueued(id: string) {
+    return this.items.some((item) => item.id === id);
+  }
+
+  private async save(item: OutboxItem) {
+    await this.config.storage.put(item);
+    this.setItems(
+      this.isQueued(item.id) ? this.items.map((candidate) => (candidate.id === item.id ? item : candidate)) : [...this.items, item]
+    );
+  }
+
+  private setItems(items: OutboxItem[]) {
+    this.items = items;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const provisioningOutbox = new ProvisioningOutbox();
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getRuntimeConfig, loadRuntimeConfig } from './runtimeConfig';
+
+const serverConfig = { apiBaseUrl: '', useStubApi: false, retryProvision: true, region: 'west' };
+const buildEnv = { VITE_API_BASE_URL: 'https://ldap-api.example.net', VITE_USE_STUB_API: 'true' };
+
+const createStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const respondWith = (status: number, body: unknown) =>
+  vi.fn(async () => ({ ok: status < 400, status, json: async () => body }) as Response);
+
+describe('loadRuntimeConfig', () => {
+  it('uses the config the server serves and remembers it', async () => {
+    const storage = createStorage();
+    const fetch = respondWith(200, serverConfig);
+
+    const loaded = await loadRuntimeConfig({ fetch, storage, buildEnv });
+
+    expect(fetch).toHaveBeenCalledWith('/api/config', expect.objectContaining({ cache: 'no-store' }));
+    expect(loaded).toEqual({ config: serverConfig, source: 'server' });
+    expect(getRuntimeConfig()).toBe(loaded);
+
+    const offline = vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    expect(await loadRuntimeConfig({ fetch: offline, storage, buildEnv })).toEqual({
+      config: serverConfig,
+      source: 'cached',
+      error: 'Failed to fetch',
+    });
+  });
+
+  it('falls back to the build variables without a server config', async () => {
+    const loaded = await loadRuntimeConfig({ fetch: respondWith(404, null), storage: createStorage(), buildEnv });
+
+    expect(loaded).toEqual({
+      config: { apiBaseUrl: 'https://ldap-api.example.net', useStubApi: true, retryProvision: false },
+      source: 'build',
+      error: 'Failed to load config: 404',
+    });
+  });
+
+  it('does not use a served config that fails validation', async () => {
+    const storage = createStorage();
+
+    const loaded = await loadRuntimeConfig({ fetch: respondWith(200, { useStubApi: 'false' }), storage, buildEnv });
+
+    expect(loaded.source).toBe('build');
+    expect(loaded.error).toMatch(/Invalid runtime config: apiBaseUrl/);
+    expect(storage.getItem('viavi-runtime-config')).toBeNull();
+  });
+});
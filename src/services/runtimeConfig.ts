@@ -0,0 +1,83 @@
+/**
+ * Runtime configuration of the browser app, loaded once at startup from the
+ * app server's /api/config (see server/runtimeConfig.ts).
+ *
+ * The last config the server returned is kept in localStorage, so an
+ * installed app that opens without a connection keeps its deployment's
+ * settings. The Vite dev server has no /api/config; there, and on a first
+ * launch offline, the VITE_ variables baked into the build apply.
+ */
+
+import { parseRuntimeConfig, RuntimeConfig, runtimeConfigFromEnv } from '@/utils/runtimeConfig';
+
+export const RUNTIME_CONFIG_PATH = '/api/config';
+const STORAGE_KEY = 'viavi-runtime-config';
+
+export interface LoadedRuntimeConfig {
+  config: RuntimeConfig;
+  /** `server`: /api/config. `cached`: the last server config. `build`: the build's VITE_ variables. */
+  source: 'server' | 'cached' | 'build';
+  /** Why /api/config could not be used, when it could not */
+  error?: string;
+}
+
+export interface RuntimeConfigLoaderOptions {
+  fetch?: typeof fetch;
+  storage?: Pick<Storage, 'getItem' | 'setItem'> | null;
+  buildEnv?: Record<string, unknown>;
+}
+
+let loaded: LoadedRuntimeConfig | null = null;
+
+function readCached(storage: RuntimeConfigLoaderOptions['storage']): RuntimeConfig | null {
+  try {
+    const cached = storage?.getItem(STORAGE_KEY);
+    return cached ? parseRuntimeConfig(JSON.parse(cached)) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchServerConfig(fetchImpl: typeof fetch): Promise<RuntimeConfig> {
+  const response = await fetchImpl(RUNTIME_CONFIG_PATH, { headers: { Accept: 'application/json' }, cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to load config: ${response.status}`);
+  }
+  return parseRuntimeConfig(await response.json());
+}
+
+/**
+ * Load the runtime config: from the server, else the last one it returned,
+ * else the build's VITE_ variables. Rejects only when the fallback is needed
+ * and the build's own variables are invalid.
+ */
+export async function loadRuntimeConfig({
+  fetch: fetchImpl = fetch,
+  storage = typeof localStorage === 'undefined' ? null : localStorage,
+  buildEnv = import.meta.env,
+}: RuntimeConfigLoaderOptions = {}): Promise<LoadedRuntimeConfig> {
+  try {
+    const config = await fetchServerConfig(fetchImpl);
+    try {
+      storage?.setItem(STORAGE_KEY, JSON.stringify(config));
+    } catch {
+      // Storage full or disabled; the config still applies to this session
+    }
+    loaded = { config, source: 'server' };
+  } catch (error) {
+    const message = (error as Error).message;
+    const cached = readCached(storage);
+    loaded = cached
+      ? { config: cached, source: 'cached', error: message }
+      : { config: runtimeConfigFromEnv(buildEnv), source: 'build', error: message };
+  }
+  return loaded;
+}
+
+/**
+ * The config loaded at startup, or the build's VITE_ variables before it
+ * has loaded (e.g. in tests)
+ */
+export function getRuntimeConfig(): LoadedRuntimeConfig {
+  return loaded ?? { config: runtimeConfigFromEnv(import.meta.env), source: 'build' };
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { runWithConcurrency } from './concurrency';
+
+describe('runWithConcurrency', () => {
+  it('never exceeds the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('returns settled results in input order', async () => {
+    const results = await runWithConcurrency([30, 10, 20], 2, async (ms, index) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      if (index === 1) throw new Error('boom');
+      return ms;
+    });
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 30 });
+    expect(results[1].status).toBe('rejected');
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 20 });
+  });
+
+  it('handles an empty list', async () => {
+    expect(await runWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
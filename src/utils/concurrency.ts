@@ -0,0 +1,33 @@
+/**
+ * Helpers for running async work with a bounded number of in-flight tasks.
+ */
+
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight.
+ * Results are returned in input order. A rejected worker does not stop the
+ * remaining items; callers that need per-item failures should catch inside
+ * the worker.
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: lanes }, runNext));
+  return results;
+}
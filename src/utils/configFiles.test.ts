@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { describeConfigChanges, isEditableConfigFile, nextConfigVersion, parseConfigFile } from './configFiles';
+
+const standard = { id: 'standard', name: 'Standard', account: 'acct', isp: 'isp', configfile: 'r-2000-1000' };
+const highTier = { id: 'high-tier', name: 'High tier', account: 'acct', isp: 'isp', configfile: 'r-5000-1000' };
+
+describe('configFiles', () => {
+  it('only accepts the editable files', () => {
+    expect(isEditableConfigFile('approved-ouis.json')).toBe(true);
+    expect(isEditableConfigFile('../approved-ouis.json')).toBe(false);
+  });
+
+  it('validates with the schema of each file', () => {
+    expect(parseConfigFile('approved-ouis.json', { approved_ouis: ['00:07:11'] }).entries).toEqual([
+      { vendor: 'VIAVI', prefix: '000711' },
+    ]);
+    expect(() => parseConfigFile('provision-defaults.json', { account: 'acct' })).toThrow(
+      /Invalid provision-defaults config/
+    );
+  });
+
+  describe('describeConfigChanges', () => {
+    it('lists added, removed and annotated OUIs', () => {
+      const before = parseConfigFile('approved-ouis.json', {
+        version: '2026-10-01',
+        entries: [
+          { vendor: 'VIAVI', prefix: '000711' },
+          { vendor: 'VIAVI', model: 'ONX-620', prefix: '0028301' },
+        ],
+      });
+      const after = parseConfigFile('approved-ouis.json', {
+        entries: [
+          { vendor: 'VIAVI', prefix: '000711', note: 'Original meters' },
+          { vendor: 'VIAVI', model: 'ONX-630', prefix: '0028302' },
+        ],
+      });
+
+      expect(describeConfigChanges('approved-ouis.json', before, after)).toEqual([
+        'Changed 000711 (MA-L): note (none) → Original meters',
+        'Added 0028302 (MA-M): VIAVI ONX-630',
+        'Removed 0028301 (MA-M): VIAVI ONX-620',
+      ]);
+    });
+
+    it('lists profile, default and rule changes', () => {
+      const before = parseConfigFile('provision-defaults.json', {
+        defaultProfile: 'standard',
+        profiles: [standard, highTier],
+        rules: [
+          { profile: 'high-tier', model: 'ONX-620' },
+          { profile: 'standard', region: 'west' },
+        ],
+      });
+      const after = parseConfigFile('provision-defaults.json', {
+        defaultProfile: 'high-tier',
+        profiles: [{ ...standard, configfile: 'r-3000-1000' }, highTier],
+        rules: [{ profile: 'high-tier', model: 'ONX-630' }],
+      });
+
+      expect(describeConfigChanges('provision-defaults.json', before, after)).toEqual([
+        'Changed standard: configfile r-2000-1000 → r-3000-1000',
+        'Default profile standard → high-tier',
+        'Added rule model ONX-630 → high-tier',
+        'Removed rule model ONX-620 → high-tier',
+        'Removed rule region west → standard',
+      ]);
+
+      const reordered = { ...before, rules: [...before.rules].reverse() };
+      expect(describeConfigChanges('provision-defaults.json', before, reordered)).toEqual(['Reordered rules']);
+    });
+  });
+
+  it('versions saves by date, counting saves on the same day', () => {
+    const now = new Date('2026-10-19T15:00:00Z');
+
+    expect(nextConfigVersion(undefined, now)).toBe('2026-10-19');
+    expect(nextConfigVersion('2026-10-01', now)).toBe('2026-10-19');
+    expect(nextConfigVersion('2026-10-19', now)).toBe('2026-10-19.2');
+    expect(nextConfigVersion('2026-10-19.2', now)).toBe('2026-10-19.3');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * The config files administrators can edit at runtime (see
+ * server/configStore.ts): validation, a readable summary of what an edit
+ * changes, and the `version` each saved edit gets.
+ */
+
+import { describeBlock, OuiRegistry, OuiRegistryEntry, parseOuiRegistry } from './ouiRegistry';
+import {
+  describeRuleConditions,
+  parseProvisionProfiles,
+  ProfileRule,
+  ProvisionProfile,
+  ProvisionProfiles,
+} from './provisionProfiles';
+
+export const EDITABLE_CONFIG_FILES = ['approved-ouis.json', 'provision-defaults.json'] as const;
+
+export type EditableConfigFile = (typeof EDITABLE_CONFIG_FILES)[number];
+
+export interface ConfigFileContents {
+  'approved-ouis.json': OuiRegistry;
+  'provision-defaults.json': ProvisionProfiles;
+}
+
+export function isEditableConfigFile(name: string): name is EditableConfigFile {
+  return (EDITABLE_CONFIG_FILES as readonly string[]).includes(name);
+}
+
+/**
+ * Validate a config file's contents, returning them in their current
+ * format (legacy layouts are upgraded)
+ */
+export function parseConfigFile<F extends EditableConfigFile>(file: F, config: unknown): ConfigFileContents[F] {
+  const parsed = file === 'approved-ouis.json' ? parseOuiRegistry(config) : parseProvisionProfiles(config);
+  return parsed as ConfigFileContents[F];
+}
+
+/** Fields compared between two versions of the same item */
+function changedFields<T extends object>(before: T, after: T, fields: Array<keyof T>): string[] {
+  return fields
+    .filter((field) => before[field] !== after[field])
+    .map((field) => `${String(field)} ${before[field] ?? '(none)'} → ${after[field] ?? '(none)'}`);
+}
+
+/** Added, removed and changed items of two keyed lists */
+function diffByKey<T extends object>(
+  before: T[],
+  after: T[],
+  key: (item: T) => string,
+  label: (item: T) => string,
+  fields: Array<keyof T>
+): string[] {
+  const previous = new Map(before.map((item) => [key(item), item]));
+  const next = new Map(after.map((item) => [key(item), item]));
+  const changes: string[] = [];
+
+  for (const [id, item] of next) {
+    const old = previous.get(id);
+    if (!old) {
+      changes.push(`Added ${label(item)}`);
+      continue;
+    }
+    const fieldChanges = changedFields(old, item, fields);
+    if (fieldChanges.length > 0) changes.push(`Changed ${id}: ${fieldChanges.join(', ')}`);
+  }
+  for (const [id, item] of previous) {
+    if (!next.has(id)) changes.push(`Removed ${label(item)}`);
+  }
+  return changes;
+}
+
+const entryLabel = (entry: OuiRegistryEntry) =>
+  `${describeBlock(entry)}: ${entry.model ? `${entry.vendor} ${entry.model}` : entry.vendor}`;
+
+const profileLabel = (profile: ProvisionProfile) => `profile ${profile.id} (${profile.name})`;
+
+const ruleLabel = (rule: ProfileRule) => `rule ${describeRuleConditions(rule)} → ${rule.profile}`;
+
+/**
+ * One line per change between two versions of a config file, e.g.
+ * "Added 0028302 (MA-M): VIAVI ONX-630". The `version` field is ignored.
+ */
+export function describeConfigChanges<F extends EditableConfigFile>(
+  file: F,
+  before: ConfigFileContents[F],
+  after: ConfigFileContents[F]
+): string[] {
+  if (file === 'approved-ouis.json') {
+    const [previous, next] = [before, after] as OuiRegistry[];
+    return diffByKey(previous.entries, next.entries, describeBlock, entryLabel, ['vendor', 'model', 'configfile', 'note']);
+  }
+
+  const [previous, next] = [before, after] as ProvisionProfiles[];
+  const changes = diffByKey(previous.profiles, next.profiles, (profile) => profile.id, profileLabel, [
+    'name',
+    'account',
+    'isp',
+    'configfile',
+  ]);
+  if (previous.defaultProfile !== next.defaultProfile) {
+    changes.push(`Default profile ${previous.defaultProfile} → ${next.defaultProfile}`);
+  }
+
+  const previousRules = previous.rules.map(ruleLabel);
+  const nextRules = next.rules.map(ruleLabel);
+  const ruleChanges = [
+    ...nextRules.filter((rule) => !previousRules.includes(rule)).map((rule) => `Added ${rule}`),
+    ...previousRules.filter((rule) => !nextRules.includes(rule)).map((rule) => `Removed ${rule}`),
+  ];
+  if (ruleChanges.length === 0 && previousRules.join('\n') !== nextRules.join('\n')) {
+    ruleChanges.push('Reordered rules');
+  }
+  return [...changes, ...ruleChanges];
+}
+
+/**
+ * The version for a file saved on `now`'s (UTC) date: the date itself, or
+ * the date with a counter when the file was already saved that day
+ * ("2026-10-19", "2026-10-19.2", ...)
+ */
+export function nextConfigVersion(previous: string | undefined, now: Date = new Date()): string {
+  const date = now.toISOString().slice(0, 10);
+  if (previous !== date && !previous?.startsWith(`${date}.`)) return date;
+  const counter = Number(previous.slice(date.length + 1)) || 1;
+  return `${date}.${counter + 1}`;
+}
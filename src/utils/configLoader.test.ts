@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { checkConfigFiles, fetchOuiRegistry } from './configLoader';
+import type { ClassifiedError } from './errorUtils';
+
+/** The classified error a load rejects with */
+const loadError = (load: Promise<unknown>) =>
+  load.then(
+    () => {
+      throw new Error('Expected the load to fail');
+    },
+    (err) => (err as { classifiedError: ClassifiedError }).classifiedError
+  );
+
+const jsonResponse = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+const profiles = {
+  version: '2026-10-19',
+  defaultProfile: 'standard',
+  profiles: [{ id: 'standard', name: 'Standard', account: 'acct', isp: 'isp', configfile: 'r-2000-1000' }],
+};
+
+describe('configLoader', () => {
+  it('rejects a file that does not match its schema with a config error naming the field', async () => {
+    global.fetch = vi.fn(async () => jsonResponse({ entries: [{ vendor: 'VIAVI', prefix: '0007' }] }));
+
+    const error = await loadError(fetchOuiRegistry());
+
+    expect(error).toMatchObject({ category: 'config', title: 'Invalid Configuration', isRetryable: false });
+    expect(error.message).toContain('approved-ouis.json');
+    expect(error.technicalDetail).toMatch(/entries\.0\.prefix: must be 6, 7 or 9 hex digits/);
+  });
+
+  it('reports a file that is not JSON, such as the dev server index page', async () => {
+    global.fetch = vi.fn(async () => new Response('<!doctype html>', { status: 200 }));
+
+    const error = await loadError(fetchOuiRegistry());
+
+    expect(error.category).toBe('config');
+    expect(error.technicalDetail).toMatch(/^Not JSON/);
+  });
+
+  it('checks both files and keeps the outcome of each', async () => {
+    global.fetch = vi.fn(async (url: RequestInfo | URL) =>
+      String(url).endsWith('provision-defaults.json') ? jsonResponse(profiles) : jsonResponse({}, 404)
+    );
+
+    const [ouis, defaults] = await checkConfigFiles();
+
+    expect(ouis).toMatchObject({ file: 'approved-ouis.json', error: { category: 'config' } });
+    expect(ouis.error?.technicalDetail).toContain('HTTP 404');
+    expect(defaults).toMatchObject({
+      file: 'provision-defaults.json',
+      version: '2026-10-19',
+      summary: '1 profile, 0 rules, default standard',
+    });
+    expect(defaults.error).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Loaders for the static configuration files served from public/config.
+ *
+ * Each file is validated against its schema as it loads. A file that cannot
+ * be loaded or does not validate rejects with a `classifiedError` in the
+ * `config` category naming the file and, for schema failures, the offending
+ * field. The outcome of the latest load of each file is kept for the
+ * diagnostics page.
+ */
+
+import { ClassifiedError, classifyError, createInvalidConfigError, ErrorContext } from '@/utils/errorUtils';
+import { OuiRegistry, parseOuiRegistry } from '@/utils/ouiRegistry';
+import { parseProvisionProfiles, ProvisionProfiles } from '@/utils/provisionProfiles';
+import { EDITABLE_CONFIG_FILES, EditableConfigFile } from '@/utils/configFiles';
+
+export interface ConfigFileStatus {
+  file: EditableConfigFile;
+  /** When the file was last loaded */
+  loadedAt: string;
+  version?: string;
+  /** What the file holds, e.g. "12 approved blocks" */
+  summary?: string;
+  /** Why the file could not be used, when it could not */
+  error?: ClassifiedError;
+}
+
+const statuses = new Map<EditableConfigFile, ConfigFileStatus>();
+
+const fail = (classifiedError: ClassifiedError): never => {
+  throw Object.assign(new Error(classifiedError.message), { classifiedError });
+};
+
+async function loadConfigFile<T extends { version?: string }>(
+  file: EditableConfigFile,
+  parse: (config: unknown) => T,
+  summarize: (config: T) => string
+): Promise<T> {
+  const url = `/config/${file}`;
+  const context: ErrorContext = { type: 'config', url };
+  const loadedAt = new Date().toISOString();
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      return fail(classifyError(error as Error, context));
+    }
+    if (!response.ok) {
+      return fail(classifyError(new Error(`Failed to load config ${file}: HTTP ${response.status}`), context));
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (error) {
+      // The dev server answers missing files with index.html
+      return fail(createInvalidConfigError(file, `Not JSON: ${(error as Error).message}`));
+    }
+
+    let config: T;
+    try {
+      config = parse(body);
+    } catch (error) {
+      return fail(createInvalidConfigError(file, (error as Error).message));
+    }
+
+    statuses.set(file, { file, loadedAt, version: config.version, summary: summarize(config) });
+    return config;
+  } catch (error) {
+    statuses.set(file, {
+      file,
+      loadedAt,
+      error: (error as { classifiedError?: ClassifiedError }).classifiedError,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Fetch and validate the approved OUI registry from approved-ouis.json
+ */
+export function fetchOuiRegistry(): Promise<OuiRegistry> {
+  return loadConfigFile('approved-ouis.json', parseOuiRegistry, ({ entries }) =>
+    `${entries.length} approved ${entries.length === 1 ? 'block' : 'blocks'}`
+  );
+}
+
+/**
+ * Fetch and validate the provisioning profiles from provision-defaults.json
+ */
+export function fetchProvisionProfiles(): Promise<ProvisionProfiles> {
+  return loadConfigFile(
+    'provision-defaults.json',
+    parseProvisionProfiles,
+    ({ profiles, rules, defaultProfile }) =>
+      `${profiles.length} ${profiles.length === 1 ? 'profile' : 'profiles'}, ` +
+      `${rules.length} ${rules.length === 1 ? 'rule' : 'rules'}, default ${defaultProfile}`
+  );
+}
+
+/**
+ * Load and validate both config files, resolving with the outcome for each
+ * rather than rejecting
+ */
+export async function checkConfigFiles(): Promise<ConfigFileStatus[]> {
+  await Promise.allSettled([fetchOuiRegistry(), fetchProvisionProfiles()]);
+  return getConfigFileStatuses();
+}
+
+/** The outcome of the latest load of each config file loaded so far */
+export function getConfigFileStatuses(): ConfigFileStatus[] {
+  return EDITABLE_CONFIG_FILES.flatMap((file) => statuses.get(file) ?? []);
+}
@@ -1,8 +1,20 @@
 import { describe, expect, it } from 'vitest';
-import { classifyError, createErrorFromResponse, isClassifiedError, ErrorContext } from './errorUtils';
+import {
+  classifyError,
+  createErrorFromResponse,
+  createUnexpectedResponseError,
+  isClassifiedError,
+  ErrorContext,
+} from './errorUtils';
 
 describe('errorUtils', () => {
   describe('classifyError', () => {
+    it('copies the request ID from the context', () => {
+      expect(classifyError(new Error('Failed to fetch'), { requestId: 'req-1' }).requestId).toBe('req-1');
+      expect(classifyError('x', { statusCode: 503, requestId: 'req-2' }).requestId).toBe('req-2');
+      expect(classifyError(new Error('Failed to fetch'))).not.toHaveProperty('requestId');
+    });
+
     it('classifies CORS errors correctly', () => {
       const error = new Error('Failed to fetch: blocked by CORS policy');
       const result = classifyError(error);
@@ -85,6 +97,22 @@ describe('errorUtils', () => {
       expect(result.isRetryable).toBe(true);
     });
 
+    it('classifies 404 during deprovision as a missing record', () => {
+      const result = classifyError(new Error('Not found'), { type: 'deprovision', statusCode: 404 });
+
+      expect(result.category).toBe('validation');
+      expect(result.title).toBe('MAC Not Provisioned');
+      expect(result.isRetryable).toBe(false);
+    });
+
+    it('classifies 429 as a retryable server error', () => {
+      const result = classifyError(new Error('HTTP 429: Too Many Requests'), { type: 'search', statusCode: 429 });
+
+      expect(result.category).toBe('server');
+      expect(result.title).toBe('Too Many Requests');
+      expect(result.isRetryable).toBe(true);
+    });
+
     it('handles string errors', () => {
       const result = classifyError('Network error occurred');
       expect(result.category).toBe('network');
@@ -148,6 +176,69 @@ describe('errorUtils', () => {
       expect(result.technicalDetail).toContain('500');
     });
 
+    it('maps the server\'s 401 to a sign-in prompt', async () => {
+      const response = new Response(JSON.stringify({ error: 'Authentication required' }), {
+        status: 401,
+        statusText: 'Unauthorized',
+      });
+
+      const result = await createErrorFromResponse(response, { type: 'provision' });
+
+      expect(result.category).toBe('auth');
+      expect(result.title).toBe('Sign-in Required');
+      expect(result.technicalDetail).toBe('Authentication required');
+      expect(result.isRetryable).toBe(false);
+      expect(result.sessionExpired).toBe(true);
+    });
+
+    it('maps the server\'s 403 to access denied', async () => {
+      const response = new Response(
+        JSON.stringify({ error: 'Your account is not permitted to use the provisioning tool' }),
+        { status: 403, statusText: 'Forbidden' }
+      );
+
+      const result = await createErrorFromResponse(response, { type: 'search' });
+
+      expect(result.category).toBe('auth');
+      expect(result.title).toBe('Access Denied');
+      expect(result.sessionExpired).toBeUndefined();
+    });
+
+    it('explains a refused config save', async () => {
+      const response = new Response(
+        JSON.stringify({ error: 'approved-ouis.json was changed by someone else (now version 2026-10-19.2)' }),
+        { status: 409, statusText: 'Conflict' }
+      );
+
+      const result = await createErrorFromResponse(response, { type: 'admin' });
+
+      expect(result.category).toBe('config');
+      expect(result.title).toBe('Configuration Changed');
+      expect(result.technicalDetail).toContain('2026-10-19.2');
+    });
+
+    it('joins FastAPI validation details into the message', async () => {
+      const response = new Response(
+        JSON.stringify({ detail: [{ loc: ['body', 'mac'], msg: 'field required', type: 'missing' }] }),
+        { status: 400, statusText: 'Bad Request' }
+      );
+
+      const result = await createErrorFromResponse(response);
+
+      expect(result.technicalDetail).toBe('field required');
+    });
+
+    it('falls back to the status line for unrecognized error bodies', async () => {
+      const response = new Response(JSON.stringify({ error: { code: 7 } }), {
+        status: 500,
+        statusText: 'Internal Server Error',
+      });
+
+      const result = await createErrorFromResponse(response);
+
+      expect(result.technicalDetail).toBe('HTTP 500: Internal Server Error');
+    });
+
     it('passes context through to classification', async () => {
       const response = new Response('', {
         status: 500,
@@ -160,6 +251,24 @@ describe('errorUtils', () => {
     });
   });
 
+  describe('createUnexpectedResponseError', () => {
+    it('includes the issues and payload in the technical detail', () => {
+      const result = createUnexpectedResponseError({ results: 'none' }, 'mac: Required', { type: 'search' });
+
+      expect(result.category).toBe('response');
+      expect(result.title).toBe('Unexpected Response');
+      expect(result.technicalDetail).toBe('mac: Required. Payload: {"results":"none"}');
+      expect(result.isRetryable).toBe(false);
+    });
+
+    it('truncates long payloads', () => {
+      const result = createUnexpectedResponseError('x'.repeat(2000), 'body: Expected array');
+
+      expect(result.technicalDetail!.length).toBeLessThan(600);
+      expect(result.technicalDetail).toMatch(/\.\.\.$/);
+    });
+  });
+
   describe('isClassifiedError', () => {
     it('returns true for valid classified error', () => {
       const error = classifyError(new Error('test'));
@@ -3,6 +3,8 @@
  * Categorizes errors and provides actionable explanations.
  */
 
+import { z } from 'zod';
+
 export type ErrorCategory =
   | 'network'
   | 'cors'
@@ -12,6 +14,7 @@ export type ErrorCategory =
   | 'config'
   | 'oui'
   | 'auth'
+  | 'response'
   | 'unknown';
 
 export interface ClassifiedError {
@@ -22,6 +25,12 @@ export interface ClassifiedError {
   suggestion: string;
   technicalDetail?: string;
   isRetryable: boolean;
+  /** Requests made before giving up, when the failure was retried automatically */
+  attempts?: number;
+  /** Correlation ID of the API call, as it appears in the pod logs */
+  requestId?: string;
+  /** The server answered 401: signing in again may help, unlike for a 403 */
+  sessionExpired?: boolean;
 }
 
 /**
@@ -132,9 +141,11 @@ const ERROR_PATTERNS: Array<{
 ];
 
 export interface ErrorContext {
-  type?: 'search' | 'provision' | 'config' | 'oui';
+  type?: 'search' | 'provision' | 'deprovision' | 'config' | 'oui' | 'history' | 'admin';
   url?: string;
   statusCode?: number;
+  /** Correlation ID of the API call, copied onto the classified error */
+  requestId?: string;
 }
 
 /**
@@ -143,6 +154,14 @@ export interface ErrorContext {
 export function classifyError(
   error: Error | string,
   context?: ErrorContext
+): ClassifiedError {
+  const classified = classifyMessage(error, context);
+  return context?.requestId ? { ...classified, requestId: context.requestId } : classified;
+}
+
+function classifyMessage(
+  error: Error | string,
+  context?: ErrorContext
 ): ClassifiedError {
   const err = typeof error === 'string' ? new Error(error) : error;
   const errorMessage = err.message.toLowerCase();
@@ -160,6 +179,39 @@ export function classifyError(
         isRetryable: true,
       };
     }
+    if (context.statusCode === 429) {
+      return {
+        category: 'server',
+        title: 'Too Many Requests',
+        message: 'The server is receiving more requests than it can handle right now.',
+        likelyCause: 'Many meters are being provisioned at once, or the backend is rate limiting this app.',
+        suggestion: 'Wait a minute and try again.',
+        technicalDetail: err.message,
+        isRetryable: true,
+      };
+    }
+    if (context.statusCode === 400 && context.type === 'admin') {
+      return {
+        category: 'config',
+        title: 'Invalid Configuration',
+        message: 'The server refused to save the configuration because it is invalid.',
+        likelyCause: 'A field is missing, malformed or refers to something that does not exist.',
+        suggestion: 'Correct the field named in the technical details and save again.',
+        technicalDetail: err.message,
+        isRetryable: false,
+      };
+    }
+    if (context.statusCode === 409 && context.type === 'admin') {
+      return {
+        category: 'config',
+        title: 'Configuration Changed',
+        message: 'Someone else saved this configuration while you were editing it.',
+        likelyCause: 'Another administrator saved a newer version first.',
+        suggestion: 'Reload the configuration and make your changes again.',
+        technicalDetail: err.message,
+        isRetryable: false,
+      };
+    }
     if (context.statusCode === 400) {
       return {
         category: 'validation',
@@ -171,13 +223,48 @@ export function classifyError(
         isRetryable: false,
       };
     }
-    if (context.statusCode === 401 || context.statusCode === 403) {
+    if (context.statusCode === 404 && context.type === 'deprovision') {
+      return {
+        category: 'validation',
+        title: 'MAC Not Provisioned',
+        message: 'There is no provisioning record to remove for this MAC.',
+        likelyCause: 'The MAC may have already been deprovisioned by someone else.',
+        suggestion: 'Start over and check the MAC status again.',
+        technicalDetail: err.message,
+        isRetryable: false,
+      };
+    }
+    if (context.statusCode === 401) {
+      return {
+        category: 'auth',
+        title: 'Sign-in Required',
+        message: 'Your session has ended, so the request was not sent.',
+        likelyCause: 'Your sign-in expired or you signed out in another tab.',
+        suggestion: 'Sign in again, then retry.',
+        technicalDetail: err.message,
+        isRetryable: false,
+        sessionExpired: true,
+      };
+    }
+    if (context.statusCode === 403 && context.type === 'admin') {
+      return {
+        category: 'auth',
+        title: 'Access Denied',
+        message: 'Only configuration administrators can view or change the configuration.',
+        likelyCause: 'Your account is not in one of the configured admin groups.',
+        suggestion: 'Ask your administrator to make the change, or to grant you admin access.',
+        technicalDetail: err.message,
+        isRetryable: false,
+      };
+    }
+    if (context.statusCode === 403) {
       return {
         category: 'auth',
         title: 'Access Denied',
         message: 'You do not have permission to perform this action.',
-        likelyCause: 'Your session may have expired or you lack the required permissions.',
-        suggestion: 'Refresh the page and try again.',
+        likelyCause: 'Your account is not in a group allowed to provision meters, or the request is not one the proxy permits.',
+        suggestion: 'Ask your administrator for provisioning access.',
+        technicalDetail: err.message,
         isRetryable: false,
       };
     }
@@ -216,6 +303,80 @@ export function classifyError(
   };
 }
 
+/** Longest payload excerpt kept in `technicalDetail` */
+const MAX_PAYLOAD_DETAIL = 500;
+
+/**
+ * Classify a response body that does not match its expected schema. The
+ * offending payload goes into `technicalDetail` for support; pass undefined
+ * when the body could not be read as JSON at all.
+ */
+export function createUnexpectedResponseError(
+  payload: unknown,
+  issues: string,
+  context?: ErrorContext
+): ClassifiedError {
+  const serialized = payload === undefined ? '(not JSON)' : JSON.stringify(payload);
+  const excerpt =
+    serialized.length > MAX_PAYLOAD_DETAIL ? `${serialized.slice(0, MAX_PAYLOAD_DETAIL)}...` : serialized;
+  return {
+    category: 'response',
+    title: 'Unexpected Response',
+    message: 'The server answered in a format this app does not understand.',
+    likelyCause: 'The LDAP API may have changed its response format, or a different service answered the request.',
+    suggestion:
+      context?.type === 'provision' || context?.type === 'deprovision'
+        ? 'Check the MAC status before trying again, and report this to support with the technical details.'
+        : 'Report this to support with the technical details.',
+    technicalDetail: `${issues}. Payload: ${excerpt}`,
+    isRetryable: false,
+    ...(context?.requestId && { requestId: context.requestId }),
+  };
+}
+
+/**
+ * Classify a provision the LDAP API acknowledged but that reading the record
+ * back did not confirm. `detail` says what did not match (see
+ * `describeVerification`).
+ */
+export function createUnverifiedProvisionError(detail: string): ClassifiedError {
+  return {
+    category: 'response',
+    title: 'Provisioned but Not Verified',
+    message: detail,
+    likelyCause: 'The LDAP API reported success, but the record read back afterwards does not show the requested values.',
+    suggestion: 'Search the MAC to check its record, then retry the provision or cancel it.',
+    isRetryable: false,
+  };
+}
+
+/**
+ * Classify a config file that loaded but does not match its schema. The
+ * schema issues, which name the offending entry and field, go into
+ * `technicalDetail`.
+ */
+export function createInvalidConfigError(file: string, issues: string): ClassifiedError {
+  return {
+    category: 'config',
+    title: 'Invalid Configuration',
+    message: `The app's configuration file ${file} is invalid, so it cannot be used.`,
+    likelyCause: 'The file was deployed or edited with a missing or malformed field.',
+    suggestion: 'Report this to support with the technical details. An administrator can correct the file.',
+    technicalDetail: issues,
+    isRetryable: false,
+  };
+}
+
+/**
+ * Error bodies sent by the LDAP API (`detail`, which FastAPI makes a list of
+ * validation errors for a 422) and by the app server's proxy (`error`, `message`)
+ */
+const errorBodySchema = z.object({
+  detail: z.union([z.string(), z.array(z.object({ msg: z.string() }).passthrough())]).optional(),
+  error: z.string().optional(),
+  message: z.string().optional(),
+});
+
 /**
  * Create an Error from an HTTP response
  */
@@ -228,8 +389,12 @@ export async function createErrorFromResponse(
   try {
     const body = await response.text();
     if (body) {
-      const json = JSON.parse(body);
-      message = json.detail || json.error || json.message || message;
+      const parsed = errorBodySchema.safeParse(JSON.parse(body));
+      if (parsed.success) {
+        const { detail, error, message: bodyMessage } = parsed.data;
+        const detailText = Array.isArray(detail) ? detail.map((item) => item.msg).join('; ') : detail;
+        message = detailText || error || bodyMessage || message;
+      }
     }
   } catch {
     // Ignore JSON parse errors
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { normalizeMac, extractOui, validateMacFormat, isCompleteMac } from './macUtils';
+import { normalizeMac, extractOui, validateMacFormat, isCompleteMac, parseMacList, extractMacs } from './macUtils';
 
 describe('macUtils', () => {
   describe('normalizeMac', () => {
@@ -56,4 +56,66 @@ describe('macUtils', () => {
     expect(validateMacFormat('AA:BB:CC:DD:EE:FF')).toBe(true);
     expect(validateMacFormat('AA-BB-CC-DD-EE-FF')).toBe(false);
   });
+
+  describe('parseMacList', () => {
+    it('parses one MAC per line in mixed formats', () => {
+      const entries = parseMacList('00:07:11:22:9E:16\n00-07-11-22-9e-17\n0007.1122.9E18');
+      expect(entries.map((e) => e.mac)).toEqual([
+        '00:07:11:22:9E:16',
+        '00:07:11:22:9E:17',
+        '00:07:11:22:9E:18',
+      ]);
+    });
+
+    it('parses CSV cells and skips a header row', () => {
+      const entries = parseMacList('MAC,Notes\n"000711229E16",pallet 4\n000711229E17;');
+      expect(entries.map((e) => e.mac)).toEqual(['00:07:11:22:9E:16', '00:07:11:22:9E:17']);
+    });
+
+    it('collapses duplicates', () => {
+      const entries = parseMacList('000711229E16\n00:07:11:22:9E:16\n0007.1122.9e16');
+      expect(entries).toEqual([{ input: '000711229E16', mac: '00:07:11:22:9E:16' }]);
+    });
+
+    it('ignores cells that are not a complete MAC, such as hex-only notes', () => {
+      const entries = parseMacList('000711229E16,BEEF\n0007\n00:07:11:22:9E\n00:07-11:22:9E:17\n000711229E1700');
+      expect(entries.map((e) => e.mac)).toEqual(['00:07:11:22:9E:16']);
+    });
+  });
+
+  describe('extractMacs', () => {
+    it('finds a MAC among labels and serial numbers', () => {
+      expect(extractMacs('S/N: 4711829 MAC: 00-07-11-22-9E-16')).toEqual(['00:07:11:22:9E:16']);
+      expect(extractMacs('MAC:00-07-11-22-9E-16 ID:0007.1122.9E17')).toEqual([
+        '00:07:11:22:9E:16',
+        '00:07:11:22:9E:17',
+      ]);
+    });
+
+    it('finds colon, hyphen, Cisco dotted and bare MACs', () => {
+      const text = 'a=00:07:11:22:9e:16, b=00-07-11-22-9E-17 (c) 0007.1122.9E18; d=000711229E19.';
+      expect(extractMacs(text)).toEqual([
+        '00:07:11:22:9E:16',
+        '00:07:11:22:9E:17',
+        '00:07:11:22:9E:18',
+        '00:07:11:22:9E:19',
+      ]);
+    });
+
+    it('reads one MAC per row of a pasted spreadsheet, without duplicates', () => {
+      const text = 'Serial\tMAC\nVIAVI123456\t000711229E16\nVIAVI123457\t000711229E17\nVIAVI123456\t000711229E16';
+      expect(extractMacs(text)).toEqual(['00:07:11:22:9E:16', '00:07:11:22:9E:17']);
+    });
+
+    it('ignores hex runs that are part of something longer', () => {
+      expect(extractMacs('SN 0007112233445566')).toEqual([]);
+      expect(extractMacs('EUI-64 00:07:11:22:9E:16:00:01')).toEqual([]);
+      expect(extractMacs('ABC000711229E16')).toEqual([]);
+      expect(extractMacs('00:07-11:22:9E:16')).toEqual([]);
+    });
+
+    it('returns nothing for text without a MAC', () => {
+      expect(extractMacs('Please call dispatch at 555-0100')).toEqual([]);
+    });
+  });
 });
@@ -38,3 +38,74 @@ export function isCompleteMac(mac: string): boolean {
 export function extractOui(mac: string): string {
   return mac.replace(/:/g, '').slice(0, 6);
 }
+
+export interface ParsedMacEntry {
+  /** Raw token as it appeared in the pasted list or CSV cell */
+  input: string;
+  /** Normalized colon-separated MAC */
+  mac: string;
+}
+
+const HEX = '[0-9A-Fa-f]';
+
+/**
+ * A whole cell holding one MAC: six pairs joined by one repeated colon,
+ * hyphen or space, Cisco dotted groups of four, or 12 bare hex digits
+ */
+const MAC_CELL = new RegExp(
+  `^(?:${HEX}{2}([:\\- ])${HEX}{2}(?:\\1${HEX}{2}){4}|${HEX}{4}\\.${HEX}{4}\\.${HEX}{4}|${HEX}{12})$`
+);
+
+/**
+ * Parses a pasted list or CSV of MAC addresses.
+ * Entries may be separated by newlines, commas, semicolons or tabs. Only cells
+ * that hold a complete MAC are kept; anything else (a "MAC" header, a notes
+ * column, a hex-only note such as "BEEF") is ignored. Duplicates are collapsed
+ * to their first occurrence.
+ */
+export function parseMacList(text: string): ParsedMacEntry[] {
+  const seen = new Set<string>();
+  const entries: ParsedMacEntry[] = [];
+
+  for (const cell of text.split(/[\r\n,;\t]+/)) {
+    const input = cell.trim().replace(/^"(.*)"$/, '$1');
+    if (!MAC_CELL.test(input)) continue;
+
+    const mac = normalizeMac(input);
+    if (seen.has(mac)) continue;
+    seen.add(mac);
+
+    entries.push({ input, mac });
+  }
+
+  return entries;
+}
+
+/**
+ * A MAC-shaped token: six pairs joined by one repeated colon or hyphen,
+ * Cisco dotted groups of four, or 12 bare hex digits. It must not touch other
+ * letters or digits, or continue from or into another hex group, so a MAC is
+ * never pulled out of a longer serial number or EUI-64. A label glued on with
+ * a separator ("MAC:", "ID-") is not a hex group, since it starts with a
+ * letter that is not hex.
+ */
+const MAC_TOKEN = new RegExp(
+  `(?<![0-9A-Za-z]|(?<![0-9A-Za-z])${HEX}{1,4}[:.-])` +
+    `(?:${HEX}{2}([:-])${HEX}{2}(?:\\1${HEX}{2}){4}|${HEX}{4}\\.${HEX}{4}\\.${HEX}{4}|${HEX}{12})` +
+    `(?![0-9A-Za-z]|[:.-]${HEX})`,
+  'g'
+);
+
+/**
+ * Finds every MAC address in freeform text such as an email or packing slip
+ * ("S/N: 1234567 MAC: 00-07-11-22-9E-16"), where `normalizeMac` would merge
+ * the labels' and serial numbers' digits into the MAC. Returns normalized
+ * MACs in order of appearance, without duplicates.
+ */
+export function extractMacs(text: string): string[] {
+  const macs = new Set<string>();
+  for (const match of text.matchAll(MAC_TOKEN)) {
+    macs.add(normalizeMac(match[0]));
+  }
+  return [...macs];
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { changedFields, diffMeterValues, revertValues, selectChanges } from './meterUpdate';
+
+const current = { account: 'acct', isp: 'isp', configfile: 'r-2000-1000' };
+/** As a search returns it */
+const record = { ...current, mac: 'A1:B2:C3:00:00:00', customFields: { status: 'active' } };
+const next = { account: 'acct-hi', isp: 'isp', configfile: 'r-5000-1000' };
+
+describe('meterUpdate', () => {
+  it('compares every field', () => {
+    expect(diffMeterValues(current, next)).toEqual([
+      { field: 'account', current: 'acct', next: 'acct-hi', changed: true },
+      { field: 'isp', current: 'isp', next: 'isp', changed: false },
+      { field: 'configfile', current: 'r-2000-1000', next: 'r-5000-1000', changed: true },
+    ]);
+  });
+
+  it('finds the fields a provision would change on a searched record', () => {
+    expect(changedFields(record, next)).toEqual(['account', 'configfile']);
+    expect(changedFields(current, current)).toEqual([]);
+    expect(changedFields(null, next)).toEqual([]);
+  });
+
+  it('keeps the current value of fields that were not selected', () => {
+    expect(selectChanges(current, next, ['configfile'])).toEqual({
+      account: 'acct',
+      isp: 'isp',
+      configfile: 'r-5000-1000',
+    });
+    expect(selectChanges(record, next, [])).toEqual(current);
+  });
+
+  it('reverts to the record a provision replaced', () => {
+    expect(revertValues(next, record)).toEqual(current);
+    expect(revertValues(current, record)).toBeNull();
+    expect(revertValues(next, null)).toBeNull();
+    expect(revertValues(next, undefined)).toBeNull();
+    expect(revertValues(next, { ...current, isp: '' })).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Changing the configuration of a meter that is already provisioned: which
+ * fields differ between its record and the values about to be applied, and
+ * what to send when only some of them are changed.
+ *
+ * Shared with the app server, which refuses changes from technicians who
+ * may not make them.
+ */
+
+/** Fields an addhsd call sets; anything else on the record is left as it is */
+export const UPDATE_FIELDS = ['account', 'isp', 'configfile'] as const;
+
+export type UpdateField = (typeof UPDATE_FIELDS)[number];
+
+export type MeterValues = Record<UpdateField, string>;
+
+export interface FieldDiff {
+  field: UpdateField;
+  current: string;
+  next: string;
+  changed: boolean;
+}
+
+/**
+ * Field-by-field comparison of a meter's record with the values to apply
+ */
+export function diffMeterValues(current: MeterValues, next: MeterValues): FieldDiff[] {
+  return UPDATE_FIELDS.map((field) => ({
+    field,
+    current: current[field],
+    next: next[field],
+    changed: current[field] !== next[field],
+  }));
+}
+
+/**
+ * Fields that applying `next` would change on `current`, a record as found
+ * by a search. None when there is no record.
+ */
+export function changedFields(
+  current: Partial<Record<UpdateField, unknown>> | null | undefined,
+  next: MeterValues
+): UpdateField[] {
+  if (!current) return [];
+  return UPDATE_FIELDS.filter((field) => current[field] !== next[field]);
+}
+
+/**
+ * Values to send so that only `fields` change and every other field keeps
+ * its current value
+ */
+export function selectChanges(current: MeterValues, next: MeterValues, fields: UpdateField[]): MeterValues {
+  return Object.fromEntries(
+    UPDATE_FIELDS.map((field) => [field, fields.includes(field) ? next[field] : current[field]])
+  ) as MeterValues;
+}
+
+/**
+ * Values that undo a provision: those of the record it replaced, as the
+ * audit log keeps it. None when there was no such record, it is not known,
+ * it lacks a field addhsd needs, or the provision changed nothing.
+ */
+export function revertValues(
+  applied: MeterValues,
+  replaced: Partial<Record<UpdateField, unknown>> | null | undefined
+): MeterValues | null {
+  if (!replaced) return null;
+  const values = {} as MeterValues;
+  for (const field of UPDATE_FIELDS) {
+    const value = replaced[field];
+    if (typeof value !== 'string' || value === '') return null;
+    values[field] = value;
+  }
+  return changedFields(values, applied).length > 0 ? values : null;
+}
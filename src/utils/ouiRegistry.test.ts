@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { formatOuiMatch, matchOui, parseOuiRegistry } from './ouiRegistry';
+
+describe('ouiRegistry', () => {
+  describe('parseOuiRegistry', () => {
+    it('reads the flat approved_ouis list as VIAVI MA-L entries', () => {
+      expect(parseOuiRegistry({ version: '2025-08-15', approved_ouis: ['000711'] })).toEqual({
+        version: '2025-08-15',
+        entries: [{ vendor: 'VIAVI', prefix: '000711' }],
+      });
+    });
+
+    it('normalizes prefixes and range MACs', () => {
+      const registry = parseOuiRegistry({
+        entries: [
+          { vendor: 'VIAVI', prefix: '00:07:11:2' },
+          { vendor: 'VIAVI', range: { first: '0007119e0000', last: '00-07-11-9E-00-FF' } },
+        ],
+      });
+
+      expect(registry.entries[0].prefix).toBe('0007112');
+      expect(registry.entries[1].range).toEqual({ first: '00:07:11:9E:00:00', last: '00:07:11:9E:00:FF' });
+    });
+
+    it('names the field of an invalid entry', () => {
+      expect(() => parseOuiRegistry({ entries: [{ vendor: 'VIAVI', prefix: '00071' }] })).toThrow(
+        /entries\.0\.prefix: must be 6, 7 or 9 hex digits/
+      );
+      expect(() => parseOuiRegistry({ entries: [{ vendor: 'VIAVI' }] })).toThrow(/needs exactly one of prefix or range/);
+      expect(() =>
+        parseOuiRegistry({ entries: [{ vendor: 'VIAVI', range: { first: '000711000002', last: '000711000001' } }] })
+      ).toThrow(/first must not come after last/);
+    });
+  });
+
+  describe('matchOui', () => {
+    const registry = parseOuiRegistry({
+      entries: [
+        { vendor: 'VIAVI', model: 'ONX-620', prefix: '000711' },
+        { vendor: 'VIAVI', model: 'ONX-630', prefix: '0028302', configfile: 'onx-630.cfg' },
+        { vendor: 'VIAVI', model: 'ONX-580', prefix: '00283030A' },
+        { vendor: 'VIAVI', model: 'Loaner', range: { first: '00:07:11:9E:00:00', last: '00:07:11:9E:00:FF' } },
+      ],
+    });
+
+    it('matches MA-L, MA-M and MA-S prefixes', () => {
+      expect(matchOui('00:07:11:22:9E:16', registry).entry?.model).toBe('ONX-620');
+      expect(matchOui('00:28:30:22:9E:16', registry).entry?.configfile).toBe('onx-630.cfg');
+      expect(matchOui('00:28:30:30:A9:16', registry).entry?.model).toBe('ONX-580');
+    });
+
+    it('prefers the most specific entry', () => {
+      expect(matchOui('00:07:11:9E:00:42', registry).entry?.model).toBe('Loaner');
+      expect(matchOui('00:07:11:9E:01:00', registry).entry?.model).toBe('ONX-620');
+    });
+
+    it('explains a MAC outside the approved blocks of its OUI', () => {
+      expect(matchOui('00:28:30:F2:9E:16', registry)).toEqual({
+        entry: null,
+        reason: 'This is not a known Viavi meter: OUI 002830 is only approved for 0028302 (MA-M), 00283030A (MA-S).',
+      });
+    });
+
+    it('explains an OUI that is not registered', () => {
+      expect(matchOui('AA:BB:CC:DD:EE:FF', registry).reason).toBe(
+        'This is not a known Viavi meter: OUI AABBCC is not in the approved registry.'
+      );
+    });
+  });
+
+  it('formats a match as vendor, model and block', () => {
+    expect(formatOuiMatch({ vendor: 'VIAVI', model: 'ONX-620', prefix: '000711' })).toBe('VIAVI ONX-620 (000711)');
+    expect(formatOuiMatch({ vendor: 'VIAVI', prefix: '002830' })).toBe('VIAVI (002830)');
+  });
+});
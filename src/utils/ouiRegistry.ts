@@ -0,0 +1,147 @@
+/**
+ * Registry of approved meter MAC blocks, read from approved-ouis.json.
+ *
+ * An entry approves either an IEEE assignment prefix (MA-L: 6 hex digits,
+ * MA-M: 7, MA-S: 9) or an explicit range of MACs, and names the vendor and
+ * meter model behind it. The flat `approved_ouis` list of earlier versions
+ * of the file is still read, as VIAVI MA-L entries.
+ */
+
+import { z } from 'zod';
+import { extractOui } from './macUtils';
+
+export interface OuiRegistryEntry {
+  vendor: string;
+  /** Meter model family, e.g. "ONX-620" */
+  model?: string;
+  /** Uppercase assignment prefix of 6, 7 or 9 hex digits */
+  prefix?: string;
+  /** Inclusive range of colon-separated MACs, for blocks smaller than an assignment */
+  range?: { first: string; last: string };
+  /** Config file to suggest for meters in this block instead of the default */
+  configfile?: string;
+  /** Administrator's annotation, e.g. where the block came from */
+  note?: string;
+}
+
+export interface OuiRegistry {
+  version?: string;
+  entries: OuiRegistryEntry[];
+}
+
+export interface OuiMatch {
+  /** The most specific entry covering the MAC, or null if none does */
+  entry: OuiRegistryEntry | null;
+  /** Why no entry matched, for display */
+  reason?: string;
+}
+
+const BLOCK_SIZES: Record<number, string> = { 6: 'MA-L', 7: 'MA-M', 9: 'MA-S' };
+
+const hexOnly = (value: string) => value.replace(/[:.-]/g, '').toUpperCase();
+
+const prefixSchema = z
+  .string()
+  .transform(hexOnly)
+  .refine((value) => /^[0-9A-F]+$/.test(value) && value.length in BLOCK_SIZES, {
+    message: 'must be 6, 7 or 9 hex digits (MA-L, MA-M or MA-S)',
+  });
+
+const macSchema = z
+  .string()
+  .transform(hexOnly)
+  .refine((value) => /^[0-9A-F]{12}$/.test(value), { message: 'must be a complete MAC' })
+  .transform((value) => (value.match(/.{2}/g) ?? []).join(':'));
+
+const entrySchema = z
+  .object({
+    vendor: z.string().min(1),
+    model: z.string().min(1).optional(),
+    prefix: prefixSchema.optional(),
+    range: z
+      .object({ first: macSchema, last: macSchema })
+      .refine(({ first, last }) => first <= last, { message: 'first must not come after last' })
+      .optional(),
+    configfile: z.string().min(1).optional(),
+    note: z.string().min(1).optional(),
+  })
+  .refine((entry) => (entry.prefix === undefined) !== (entry.range === undefined), {
+    message: 'needs exactly one of prefix or range',
+  });
+
+export const ouiRegistrySchema = z
+  .object({
+    version: z.string().optional(),
+    entries: z.array(entrySchema).optional(),
+    approved_ouis: z.array(prefixSchema).optional(),
+  })
+  .transform(({ version, entries = [], approved_ouis = [] }) => ({
+    version,
+    entries: [
+      ...entries,
+      ...approved_ouis.map((prefix) => ({ vendor: 'VIAVI', prefix })),
+    ] as OuiRegistryEntry[],
+  }));
+
+/**
+ * Validate the contents of approved-ouis.json, throwing an error that names
+ * the offending field when it does not match
+ */
+export function parseOuiRegistry(config: unknown): OuiRegistry {
+  const result = ouiRegistrySchema.safeParse(config);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+    throw new Error(`Invalid approved-ouis config: ${issues.join('; ')}`);
+  }
+  return result.data as OuiRegistry;
+}
+
+/** The entry's prefix, or its range as "first–last" */
+function blockId({ prefix = '', range }: OuiRegistryEntry): string {
+  return range ? `${range.first}–${range.last}` : prefix;
+}
+
+/** The block an entry approves, e.g. "0007112 (MA-M)" */
+export function describeBlock(entry: OuiRegistryEntry): string {
+  return entry.range ? blockId(entry) : `${blockId(entry)} (${BLOCK_SIZES[blockId(entry).length]})`;
+}
+
+/** Display name for a matched MAC, e.g. "VIAVI ONX-620 (000711)" */
+export function formatOuiMatch(entry: OuiRegistryEntry): string {
+  const name = entry.model ? `${entry.vendor} ${entry.model}` : entry.vendor;
+  return `${name} (${blockId(entry)})`;
+}
+
+function covers({ prefix = '', range }: OuiRegistryEntry, hex: string): boolean {
+  if (range) {
+    return hexOnly(range.first) <= hex && hex <= hexOnly(range.last);
+  }
+  return hex.startsWith(prefix);
+}
+
+/** Ranges are the narrowest blocks, then longer prefixes */
+function specificity(entry: OuiRegistryEntry): number {
+  return entry.range ? 12 : blockId(entry).length;
+}
+
+/**
+ * Find the registry entry for a complete MAC. When none covers it, the
+ * reason says whether its OUI is unknown or only part of the OUI is approved.
+ */
+export function matchOui(mac: string, registry: OuiRegistry): OuiMatch {
+  const hex = hexOnly(mac);
+  const matches = registry.entries.filter((entry) => covers(entry, hex));
+  if (matches.length > 0) {
+    return { entry: matches.reduce((best, entry) => (specificity(entry) > specificity(best) ? entry : best)) };
+  }
+
+  const oui = extractOui(mac);
+  const sameOui = registry.entries.filter((entry) => hexOnly(blockId(entry)).startsWith(oui));
+  return {
+    entry: null,
+    reason:
+      sameOui.length > 0
+        ? `This is not a known Viavi meter: OUI ${oui} is only approved for ${sameOui.map(describeBlock).join(', ')}.`
+        : `This is not a known Viavi meter: OUI ${oui} is not in the approved registry.`,
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeSelection,
+  parseProvisionProfiles,
+  provisionValues,
+  ProvisionProfiles,
+  selectProfile,
+} from './provisionProfiles';
+import { parseOuiRegistry } from './ouiRegistry';
+import shippedOuis from '../../public/config/approved-ouis.json';
+import shippedProfiles from '../../public/config/provision-defaults.json';
+
+const standard = { id: 'standard', name: 'Standard', account: 'acct', isp: 'isp', configfile: 'r-2000-1000' };
+const highTier = { id: 'high-tier', name: 'High tier', account: 'acct', isp: 'isp', configfile: 'r-5000-1000' };
+const west = { id: 'west', name: 'West', account: 'acct-w', isp: 'isp-w', configfile: 'r-2000-1000-w' };
+
+const config: ProvisionProfiles = {
+  defaultProfile: 'standard',
+  profiles: [standard, highTier, west],
+  rules: [
+    { profile: 'high-tier', model: 'ONX-620' },
+    { profile: 'west', region: 'West' },
+    { profile: 'high-tier', oui: '0028301' },
+  ],
+};
+
+describe('provisionProfiles', () => {
+  describe('parseProvisionProfiles', () => {
+    it('reads the flat defaults of earlier versions as a single default profile', () => {
+      expect(parseProvisionProfiles({ account: 'acct', isp: 'isp', configfile: 'r-2000-1000' })).toEqual({
+        version: undefined,
+        defaultProfile: 'default',
+        profiles: [{ id: 'default', name: 'Default', account: 'acct', isp: 'isp', configfile: 'r-2000-1000' }],
+        rules: [],
+      });
+    });
+
+    it('normalizes rule MAC prefixes', () => {
+      const parsed = parseProvisionProfiles({
+        defaultProfile: 'standard',
+        profiles: [standard],
+        rules: [{ profile: 'standard', oui: '00:28:30:1' }],
+      });
+
+      expect(parsed.rules[0].oui).toBe('0028301');
+    });
+
+    it('names the field that is invalid', () => {
+      expect(() => parseProvisionProfiles({ account: 'acct', isp: 'isp' })).toThrow(
+        /Invalid provision-defaults config: profiles\.0\.configfile/
+      );
+      expect(() => parseProvisionProfiles({ defaultProfile: 'missing', profiles: [standard] })).toThrow(
+        /defaultProfile: no profile "missing"/
+      );
+      expect(() =>
+        parseProvisionProfiles({ defaultProfile: 'standard', profiles: [standard], rules: [{ profile: 'standard' }] })
+      ).toThrow(/rules\.0: needs at least one of oui, model or region/);
+      expect(() =>
+        parseProvisionProfiles({ defaultProfile: 'standard', profiles: [standard, { ...highTier, id: 'standard' }] })
+      ).toThrow(/profiles\.1\.id: duplicate id "standard"/);
+    });
+  });
+
+  describe('selectProfile', () => {
+    it('picks the profile of the first matching rule', () => {
+      const selection = selectProfile(config, {
+        mac: '00:07:11:00:00:01',
+        entry: { vendor: 'VIAVI', model: 'ONX-620', prefix: '000711' },
+        region: 'west',
+      });
+
+      expect(selection).toEqual({ profile: highTier, source: 'rule', rule: config.rules[0] });
+      expect(describeSelection(selection)).toBe('Selected by rule: model ONX-620');
+    });
+
+    it('matches regions case-insensitively and MAC prefixes longer than an OUI', () => {
+      expect(selectProfile(config, { mac: 'A1:B2:C3:00:00:00', region: 'WEST' }).profile).toBe(west);
+      expect(selectProfile(config, { mac: '00:28:30:1F:00:00' }).profile).toBe(highTier);
+      expect(selectProfile(config, { mac: '00:28:30:2F:00:00' }).profile).toBe(standard);
+    });
+
+    it('falls back to the default profile', () => {
+      const selection = selectProfile(config, { mac: 'A1:B2:C3:00:00:00' });
+
+      expect(selection).toEqual({ profile: standard, source: 'default' });
+      expect(describeSelection(selection)).toMatch(/no rule matched/);
+    });
+  });
+
+  describe('provisionValues', () => {
+    const entry = { vendor: 'VIAVI', prefix: 'A1B2C3', configfile: 'block.cfg' };
+
+    it('applies a registry config file hint only over the default profile', () => {
+      expect(provisionValues({ profile: standard, source: 'default' }, entry).configfile).toBe('block.cfg');
+      expect(provisionValues({ profile: highTier, source: 'rule' }, entry).configfile).toBe('r-5000-1000');
+      expect(provisionValues({ profile: standard, source: 'chosen' }, entry)).toEqual({
+        account: 'acct',
+        isp: 'isp',
+        configfile: 'r-2000-1000',
+      });
+    });
+  });
+
+  it('ships defaults that provision every approved block with the values of the flat defaults', () => {
+    const profiles = parseProvisionProfiles(shippedProfiles);
+    for (const entry of parseOuiRegistry(shippedOuis).entries) {
+      const mac = `${entry.prefix}000000`.slice(0, 12);
+      expect(provisionValues(selectProfile(profiles, { mac, entry }), entry)).toEqual({
+        account: 'ViaviMeterTool',
+        isp: 'CableOne',
+        configfile: 'r-2000-1000',
+      });
+    }
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Named provisioning profiles, read from provision-defaults.json.
+ *
+ * A profile is one set of account/ISP/config file values. Rules pick a
+ * profile for a meter by its MAC prefix, model or the deployment's region,
+ * and the default profile applies when none matches. The flat
+ * `{account, isp, configfile}` of earlier versions of the file is still read,
+ * as a single default profile.
+ */
+
+import { z } from 'zod';
+import type { OuiRegistryEntry } from './ouiRegistry';
+
+export interface ProvisionProfile {
+  id: string;
+  name: string;
+  account: string;
+  isp: string;
+  configfile: string;
+}
+
+/** Every condition a rule sets must hold for it to select its profile */
+export interface ProfileRule {
+  profile: string;
+  /** MAC prefix of 6 to 12 hex digits */
+  oui?: string;
+  /** Meter model from the OUI registry, e.g. "ONX-620" */
+  model?: string;
+  /** Deployment region, compared case-insensitively */
+  region?: string;
+}
+
+export interface ProvisionProfiles {
+  version?: string;
+  defaultProfile: string;
+  profiles: ProvisionProfile[];
+  /** Checked in order; the first match wins */
+  rules: ProfileRule[];
+}
+
+/** The values a meter is provisioned with */
+export type ProvisionValues = Pick<ProvisionProfile, 'account' | 'isp' | 'configfile'>;
+
+export interface ProfileSelection {
+  profile: ProvisionProfile;
+  /** `rule`: a rule matched. `default`: none did. `chosen`: the technician picked it. */
+  source: 'rule' | 'default' | 'chosen';
+  rule?: ProfileRule;
+}
+
+export interface ProfileContext {
+  mac: string;
+  /** Registry entry that approved the MAC */
+  entry?: OuiRegistryEntry | null;
+  region?: string;
+}
+
+const hexOnly = (value: string) => value.replace(/[:.-]/g, '').toUpperCase();
+
+const profileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  account: z.string().min(1),
+  isp: z.string().min(1),
+  configfile: z.string().min(1),
+});
+
+const ruleSchema = z
+  .object({
+    profile: z.string().min(1),
+    oui: z
+      .string()
+      .transform(hexOnly)
+      .refine((value) => /^[0-9A-F]{6,12}$/.test(value), { message: 'must be 6 to 12 hex digits' })
+      .optional(),
+    model: z.string().min(1).optional(),
+    region: z.string().min(1).optional(),
+  })
+  .refine((rule) => rule.oui !== undefined || rule.model !== undefined || rule.region !== undefined, {
+    message: 'needs at least one of oui, model or region',
+  });
+
+const LEGACY_PROFILE_ID = 'default';
+
+/** Reads the flat defaults object of earlier versions as a single profile */
+function upgradeLegacyDefaults(config: unknown): unknown {
+  if (typeof config !== 'object' || config === null || 'profiles' in config) return config;
+  return {
+    defaultProfile: LEGACY_PROFILE_ID,
+    profiles: [{ id: LEGACY_PROFILE_ID, name: 'Default', ...config }],
+  };
+}
+
+export const provisionProfilesSchema = z
+  .preprocess(
+    upgradeLegacyDefaults,
+    z.object({
+      version: z.string().optional(),
+      defaultProfile: z.string().min(1),
+      profiles: z.array(profileSchema).min(1),
+      rules: z.array(ruleSchema).optional(),
+    })
+  )
+  .superRefine(({ defaultProfile, profiles, rules = [] }, ctx) => {
+    const ids = new Set<string>();
+    profiles.forEach(({ id }, index) => {
+      if (ids.has(id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['profiles', index, 'id'], message: `duplicate id "${id}"` });
+      }
+      ids.add(id);
+    });
+    if (!ids.has(defaultProfile)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['defaultProfile'], message: `no profile "${defaultProfile}"` });
+    }
+    rules.forEach(({ profile }, index) => {
+      if (!ids.has(profile)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'profile'], message: `no profile "${profile}"` });
+      }
+    });
+  })
+  .transform(({ version, defaultProfile, profiles, rules = [] }) => ({ version, defaultProfile, profiles, rules }));
+
+/**
+ * Validate the contents of provision-defaults.json, throwing an error that
+ * names the offending field when it does not match
+ */
+export function parseProvisionProfiles(config: unknown): ProvisionProfiles {
+  const result = provisionProfilesSchema.safeParse(config);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+    throw new Error(`Invalid provision-defaults config: ${issues.join('; ')}`);
+  }
+  return result.data as ProvisionProfiles;
+}
+
+export function findProfile(config: ProvisionProfiles, id: string): ProvisionProfile | undefined {
+  return config.profiles.find((profile) => profile.id === id);
+}
+
+function ruleMatches(rule: ProfileRule, { mac, entry, region }: ProfileContext): boolean {
+  if (rule.oui !== undefined && !hexOnly(mac).startsWith(rule.oui)) return false;
+  if (rule.model !== undefined && rule.model !== entry?.model) return false;
+  if (rule.region !== undefined && rule.region.toLowerCase() !== region?.toLowerCase()) return false;
+  return true;
+}
+
+/**
+ * Pick the profile for a meter: the first rule that matches it, or the
+ * default profile
+ */
+export function selectProfile(config: ProvisionProfiles, context: ProfileContext): ProfileSelection {
+  for (const rule of config.rules) {
+    const profile = ruleMatches(rule, context) ? findProfile(config, rule.profile) : undefined;
+    if (profile) return { profile, source: 'rule', rule };
+  }
+  return { profile: findProfile(config, config.defaultProfile) as ProvisionProfile, source: 'default' };
+}
+
+/**
+ * The values to provision with. A registry block's config file hint replaces
+ * the config file only when the default profile applied by default.
+ */
+export function provisionValues({ profile, source }: ProfileSelection, entry?: OuiRegistryEntry | null): ProvisionValues {
+  const { account, isp } = profile;
+  const configfile = source === 'default' && entry?.configfile ? entry.configfile : profile.configfile;
+  return { account, isp, configfile };
+}
+
+/** A rule's conditions, e.g. "MAC prefix 0028302, region west" */
+export function describeRuleConditions(rule: ProfileRule): string {
+  return [
+    rule.oui && `MAC prefix ${rule.oui}`,
+    rule.model && `model ${rule.model}`,
+    rule.region && `region ${rule.region}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/** Why a profile was selected, for display */
+export function describeSelection({ source, rule }: ProfileSelection): string {
+  if (source === 'chosen') return 'Chosen for this meter';
+  if (!rule) return 'Default profile; no rule matched this meter';
+  return `Selected by rule: ${describeRuleConditions(rule)}`;
+}
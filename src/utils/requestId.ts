@@ -0,0 +1,21 @@
+/**
+ * Correlation IDs tying one API call together across the browser log, the
+ * app server's proxy log, the audit log and the LDAP API.
+ */
+
+/** Header carrying the ID from the browser through the proxy to the LDAP API */
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+/**
+ * IDs accepted from a request header: short and free of characters that
+ * could forge or break a log line
+ */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+export function createRequestId(): string {
+  return crypto.randomUUID();
+}
+
+export function isValidRequestId(value: unknown): value is string {
+  return typeof value === 'string' && REQUEST_ID_PATTERN.test(value);
+}
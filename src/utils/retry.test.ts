@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { backoffDelay, isTransientError, parseRetryAfter, retryDelay, RetryPolicy } from './retry';
+import { classifyError } from './errorUtils';
+
+const policy: RetryPolicy = { maxAttempts: 4, baseDelay: 100, maxDelay: 300 };
+
+describe('backoffDelay', () => {
+  it('doubles per retry and caps at maxDelay', () => {
+    const upper = () => 1;
+    expect(backoffDelay(1, policy, upper)).toBe(100);
+    expect(backoffDelay(2, policy, upper)).toBe(200);
+    expect(backoffDelay(3, policy, upper)).toBe(300);
+  });
+
+  it('jitters within the upper half of the window', () => {
+    expect(backoffDelay(2, policy, () => 0)).toBe(100);
+    expect(backoffDelay(2, policy, () => 0.5)).toBe(150);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    const now = Date.parse('2026-03-01T12:00:00Z');
+    expect(parseRetryAfter('Sun, 01 Mar 2026 12:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Sun, 01 Mar 2026 11:00:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('retryDelay', () => {
+  it('gives up once maxAttempts requests have been made', () => {
+    expect(retryDelay(3, policy, undefined, () => 1)).toBe(300);
+    expect(retryDelay(4, policy)).toBeNull();
+  });
+
+  it('honors Retry-After within maxDelay and gives up beyond it', () => {
+    expect(retryDelay(1, policy, 250)).toBe(250);
+    expect(retryDelay(1, policy, 5000)).toBeNull();
+  });
+});
+
+describe('isTransientError', () => {
+  it('retries network, timeout and server failures only', () => {
+    expect(isTransientError(classifyError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(classifyError('Request timed out'))).toBe(true);
+    expect(isTransientError(classifyError('boom', { statusCode: 503 }))).toBe(true);
+    expect(isTransientError(classifyError('boom', { statusCode: 400 }))).toBe(false);
+    expect(isTransientError(classifyError('Something completely random happened'))).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Retry policy and backoff helpers for transient API failures.
+ */
+
+import type { ClassifiedError } from './errorUtils';
+
+export interface RetryPolicy {
+  /** Total requests including the first; 1 disables retries */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds; doubles for each later retry */
+  baseDelay: number;
+  /** Upper bound on any single delay, including one asked for by Retry-After */
+  maxDelay: number;
+}
+
+export const NO_RETRY: RetryPolicy = { maxAttempts: 1, baseDelay: 0, maxDelay: 0 };
+
+/**
+ * Response header the app server's LDAP proxy sets to `true` on a 502 when
+ * the request provably never reached the backend (connection refused, DNS
+ * failure), which makes even a provision safe to repeat
+ */
+export const NOT_SENT_HEADER = 'X-Upstream-Not-Sent';
+
+/**
+ * Progress of a request that is being retried, as reported to the UI
+ */
+export interface RetryProgress {
+  /** The attempt about to be made, starting at 2 for the first retry */
+  attempt: number;
+  maxAttempts: number;
+}
+
+export interface RetryEvent extends RetryProgress {
+  delayMs: number;
+  error: ClassifiedError;
+}
+
+/**
+ * Categories worth retrying without asking the technician. Unknown errors are
+ * retryable by hand but may be bugs, so they are not repeated automatically.
+ */
+const TRANSIENT_CATEGORIES: ReadonlyArray<ClassifiedError['category']> = ['network', 'timeout', 'server'];
+
+export function isTransientError(error: ClassifiedError): boolean {
+  return error.isRetryable && TRANSIENT_CATEGORIES.includes(error.category);
+}
+
+/**
+ * Exponential backoff with jitter: the delay before retry `retry` (1-based)
+ * is drawn from the upper half of `baseDelay * 2^(retry - 1)`, capped at
+ * `maxDelay`, so clients that failed together do not retry in lockstep.
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (retry - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+/**
+ * Milliseconds to wait according to a Retry-After header, which is either a
+ * number of seconds or an HTTP date. Null if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry `retry`, or null to give up. A server-requested
+ * Retry-After is honored as long as it fits within `maxDelay`; asking for a
+ * longer wait ends the retries rather than leaving the technician waiting.
+ */
+export function retryDelay(
+  retry: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number | null,
+  random?: () => number
+): number | null {
+  if (retry >= policy.maxAttempts) return null;
+  if (retryAfterMs !== undefined && retryAfterMs !== null) {
+    return retryAfterMs <= policy.maxDelay ? retryAfterMs : null;
+  }
+  return backoffDelay(retry, policy, random);
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseRuntimeConfig, runtimeConfigFromEnv } from './runtimeConfig';
+
+describe('runtimeConfig', () => {
+  describe('runtimeConfigFromEnv', () => {
+    it('reads the VITE_ variables', () => {
+      expect(
+        runtimeConfigFromEnv({
+          VITE_API_BASE_URL: 'https://ldap-api.example.net',
+          VITE_USE_STUB_API: 'true',
+          VITE_API_MAX_ATTEMPTS: '5',
+          VITE_RETRY_PROVISION: 'false',
+          VITE_REGION: 'west',
+          HOME: '/opt/app-root/home',
+        })
+      ).toEqual({
+        apiBaseUrl: 'https://ldap-api.example.net',
+        useStubApi: true,
+        maxAttempts: 5,
+        retryProvision: false,
+        region: 'west',
+      });
+    });
+
+    it('treats unset and empty variables as defaults', () => {
+      expect(runtimeConfigFromEnv({ VITE_API_BASE_URL: '', VITE_REGION: '' })).toEqual({
+        apiBaseUrl: '',
+        useStubApi: false,
+        maxAttempts: undefined,
+        retryProvision: false,
+        region: undefined,
+      });
+    });
+
+    it('names each invalid variable', () => {
+      expect(() =>
+        runtimeConfigFromEnv({ VITE_API_BASE_URL: 'ldap-api', VITE_USE_STUB_API: 'yes', VITE_API_MAX_ATTEMPTS: '0' })
+      ).toThrow(/Invalid runtime config: VITE_API_BASE_URL: .*; VITE_USE_STUB_API: .*; VITE_API_MAX_ATTEMPTS: /);
+    });
+  });
+
+  describe('parseRuntimeConfig', () => {
+    it('accepts a served config and rejects a malformed one', () => {
+      const config = { apiBaseUrl: '', useStubApi: false, retryProvision: true };
+
+      expect(parseRuntimeConfig(config)).toEqual(config);
+      expect(() => parseRuntimeConfig({ ...config, useStubApi: 'false' })).toThrow(
+        /Invalid runtime config: useStubApi: Expected boolean/
+      );
+    });
+  });
+});
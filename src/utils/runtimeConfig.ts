@@ -0,0 +1,79 @@
+/**
+ * Deployment settings the browser app needs at startup. The app server
+ * builds them from its environment and serves them at /api/config, so one
+ * image can be promoted between environments; the variables keep their
+ * VITE_ names from when they were baked in at build time.
+ */
+
+import { z } from 'zod';
+
+export interface RuntimeConfig {
+  /** LDAP API base URL used outside production builds, which go through /api/ldap */
+  apiBaseUrl: string;
+  /** Serve API calls from the in-memory LDAP simulator */
+  useStubApi: boolean;
+  /** Requests per search before giving up on transient failures */
+  maxAttempts?: number;
+  /** Also retry provisions that provably never reached the LDAP API */
+  retryProvision: boolean;
+  /** Deployment region that provisioning profile rules may match on */
+  region?: string;
+}
+
+export const runtimeConfigSchema = z.object({
+  apiBaseUrl: z.union([z.literal(''), z.string().url()]),
+  useStubApi: z.boolean(),
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  retryProvision: z.boolean(),
+  region: z.string().min(1).optional(),
+});
+
+const flag = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+// Unset and empty variables (e.g. a blank ConfigMap key) both take the default
+const envSchema = z.preprocess(
+  (env) =>
+    Object.fromEntries(Object.entries(env as Record<string, unknown>).filter(([, value]) => value !== '' && value !== undefined)),
+  z.object({
+    VITE_API_BASE_URL: z.string().url().optional(),
+    VITE_USE_STUB_API: flag.default('false'),
+    VITE_API_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(10).optional(),
+    VITE_RETRY_PROVISION: flag.default('false'),
+    VITE_REGION: z.string().optional(),
+  })
+);
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || 'config'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Validate a config served by /api/config, throwing an error that names the
+ * offending field when it does not match
+ */
+export function parseRuntimeConfig(config: unknown): RuntimeConfig {
+  const result = runtimeConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new Error(`Invalid runtime config: ${describeIssues(result.error)}`);
+  }
+  return result.data as RuntimeConfig;
+}
+
+/**
+ * Read the settings from environment variables, throwing an error that
+ * names each invalid variable
+ */
+export function runtimeConfigFromEnv(env: Record<string, unknown>): RuntimeConfig {
+  const result = envSchema.safeParse(env);
+  if (!result.success) {
+    throw new Error(`Invalid runtime config: ${describeIssues(result.error)}`);
+  }
+  const values = result.data;
+  return {
+    apiBaseUrl: values.VITE_API_BASE_URL ?? '',
+    useStubApi: values.VITE_USE_STUB_API,
+    maxAttempts: values.VITE_API_MAX_ATTEMPTS,
+    retryProvision: values.VITE_RETRY_PROVISION,
+    region: values.VITE_REGION,
+  };
+}
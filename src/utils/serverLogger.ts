@@ -1,6 +1,7 @@
 /**
  * Server-side logger utility that sends logs to the Vite preview server.
  * Logs are captured in OpenShift pod logs via the /api/log endpoint.
+ * Loggers from `forRequest` tag each entry with an API call's correlation ID.
  */
 
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
@@ -9,14 +10,28 @@ interface LogPayload {
   message: string;
   level: LogLevel;
   data?: unknown;
+  requestId?: string;
 }
 
 class ServerLogger {
-  private async send(payload: LogPayload): Promise<void> {
+  constructor(private readonly requestId?: string) {}
+
+  /**
+   * A logger whose entries carry `requestId`; without an ID, entries are
+   * sent untagged
+   */
+  forRequest(requestId: string | undefined): ServerLogger {
+    return requestId ? new ServerLogger(requestId) : this;
+  }
+
+  private async send(entry: LogPayload): Promise<void> {
+    const payload = this.requestId ? { ...entry, requestId: this.requestId } : entry;
+
     // Also log to console for browser debugging
     const consoleMethod = payload.level === 'error' ? 'error' : 
                           payload.level === 'warn' ? 'warn' : 'log';
-    console[consoleMethod](payload.message, payload.data || '');
+    const prefix = payload.requestId ? `[req:${payload.requestId}] ` : '';
+    console[consoleMethod](`${prefix}${payload.message}`, payload.data || '');
 
     try {
       await fetch('/api/log', {
@@ -46,4 +61,6 @@ class ServerLogger {
   }
 }
 
+export type { ServerLogger };
+
 export const serverLogger = new ServerLogger();
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { registerServiceWorker, UPDATE_CHECK_INTERVAL } from './serviceWorker';
+
+class FakeWorker extends EventTarget {
+  state = 'installing';
+  postMessage = vi.fn();
+
+  setState(state: string) {
+    this.state = state;
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+class FakeRegistration extends EventTarget {
+  installing: FakeWorker | null = null;
+  waiting: FakeWorker | null = null;
+  update = vi.fn().mockResolvedValue(undefined);
+
+  startUpdate() {
+    this.installing = new FakeWorker();
+    this.dispatchEvent(new Event('updatefound'));
+    return this.installing;
+  }
+}
+
+function createContainer(registration: FakeRegistration, controlled: boolean) {
+  const container = Object.assign(new EventTarget(), {
+    controller: controlled ? new FakeWorker() : null,
+    register: vi.fn().mockResolvedValue(registration),
+  });
+  return container as unknown as ServiceWorkerContainer & { register: ReturnType<typeof vi.fn> };
+}
+
+describe('registerServiceWorker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('registers the built service worker', async () => {
+    const container = createContainer(new FakeRegistration(), false);
+
+    await registerServiceWorker(vi.fn(), container);
+
+    expect(container.register).toHaveBeenCalledWith('/sw.js');
+  });
+
+  it('announces a new version once it has installed', async () => {
+    const registration = new FakeRegistration();
+    const onUpdateReady = vi.fn();
+    await registerServiceWorker(onUpdateReady, createContainer(registration, true));
+
+    const worker = registration.startUpdate();
+    expect(onUpdateReady).not.toHaveBeenCalled();
+    worker.setState('installed');
+
+    expect(onUpdateReady).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not treat the first install as an update', async () => {
+    const registration = new FakeRegistration();
+    const onUpdateReady = vi.fn();
+    await registerServiceWorker(onUpdateReady, createContainer(registration, false));
+
+    registration.startUpdate().setState('installed');
+
+    expect(onUpdateReady).not.toHaveBeenCalled();
+  });
+
+  it('announces a version left waiting by an earlier visit', async () => {
+    const registration = new FakeRegistration();
+    registration.waiting = new FakeWorker();
+    const onUpdateReady = vi.fn();
+
+    await registerServiceWorker(onUpdateReady, createContainer(registration, true));
+
+    expect(onUpdateReady).toHaveBeenCalledTimes(1);
+  });
+
+  it('tells the waiting version to take over when the update is applied', async () => {
+    const registration = new FakeRegistration();
+    registration.waiting = new FakeWorker();
+    const onUpdateReady = vi.fn();
+    await registerServiceWorker(onUpdateReady, createContainer(registration, true));
+
+    onUpdateReady.mock.calls[0][0].apply();
+
+    expect(registration.waiting.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+  });
+
+  it('checks for new versions periodically', async () => {
+    const registration = new FakeRegistration();
+    await registerServiceWorker(vi.fn(), createContainer(registration, true));
+
+    vi.advanceTimersByTime(UPDATE_CHECK_INTERVAL);
+
+    expect(registration.update).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Registration of the service worker built from src/pwa/service-worker.js.
+ *
+ * A new version installs in the background and then waits; it only takes
+ * over when the technician accepts the update prompt, so a page reload never
+ * interrupts a provision in progress.
+ */
+
+/** How often an open app checks for a new build, in milliseconds */
+export const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+export interface ServiceWorkerUpdate {
+  /** Activate the waiting version and reload the page once it takes over */
+  apply: () => void;
+}
+
+/**
+ * Register /sw.js and call `onUpdateReady` whenever a new version has
+ * installed and is waiting. The first install is not an update, since there
+ * is no older version controlling the page.
+ */
+export async function registerServiceWorker(
+  onUpdateReady: (update: ServiceWorkerUpdate) => void,
+  container: ServiceWorkerContainer = navigator.serviceWorker
+): Promise<ServiceWorkerRegistration> {
+  const registration = await container.register('/sw.js');
+
+  const announce = (worker: ServiceWorker) =>
+    onUpdateReady({
+      apply: () => {
+        container.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+        worker.postMessage({ type: 'SKIP_WAITING' });
+      },
+    });
+
+  // A version that finished installing during an earlier visit
+  if (registration.waiting && container.controller) {
+    announce(registration.waiting);
+  }
+
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing;
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && container.controller) {
+        announce(worker);
+      }
+    });
+  });
+
+  // Tablets keep the app open all shift, so look for new builds periodically
+  setInterval(() => {
+    registration.update().catch(() => undefined);
+  }, UPDATE_CHECK_INTERVAL);
+
+  return registration;
+}
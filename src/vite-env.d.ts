@@ -3,6 +3,9 @@
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string
   readonly VITE_USE_STUB_API: string
+  readonly VITE_API_MAX_ATTEMPTS?: string
+  readonly VITE_RETRY_PROVISION?: string
+  readonly VITE_REGION?: string
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
 }
@@ -10,3 +13,11 @@ interface ImportMetaEnv {
 interface ImportMeta {
   readonly env: ImportMetaEnv
 }
+
+/** Set by vite.config.ts when the app is built */
+declare const __BUILD_INFO__: {
+  /** Git commit the image was built from, when the build was given one */
+  commit?: string
+  builtAt: string
+  mode: string
+}
@@ -1,7 +1,11 @@
-import { defineConfig, Plugin, PreviewServer } from "vite";
+import { defineConfig, loadEnv, Plugin, PreviewServer } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
-import type { IncomingMessage, ServerResponse } from "http";
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { createApiMiddleware } from "./server";
+import { authOptionsFromEnv, createAuth } from "./server/auth";
+import { runtimeConfigFromEnv } from "./src/utils/runtimeConfig";
 
 // LDAP API backend URL for CORS proxy - configurable via env var for OpenShift
 const LDAP_API_URL = process.env.LDAP_API_URL || 'https://ldap-api.apps.prod-ocp4.corp.cableone.net';
@@ -11,81 +15,72 @@ function serverLoggerPlugin(): Plugin {
   return {
     name: 'server-logger',
     configurePreviewServer(server: PreviewServer) {
-      // Proxy for /api/ldap/* -> ldap-api backend (CORS fix)
-      server.middlewares.use('/api/ldap', async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
-        const targetUrl = `${LDAP_API_URL}${req.url || ''}`;
-        const timestamp = new Date().toISOString();
-        console.log(`[${timestamp}] [PROXY] ${req.method} ${req.url} -> ${targetUrl}`);
-
-        try {
-          // Collect request body for POST requests
-          let requestBody: string | undefined;
-          if (req.method === 'POST' || req.method === 'PUT') {
-            requestBody = await new Promise<string>((resolve) => {
-              let body = '';
-              req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
-              req.on('end', () => resolve(body));
-            });
-          }
+      // Sign-in is only enforced in preview when OIDC_* variables are set
+      const auth = authOptionsFromEnv();
+      const metricsToken = process.env.METRICS_TOKEN || undefined;
+      if (auth) {
+        server.middlewares.use(createAuth({ ...auth, metricsToken }));
+      }
+      server.middlewares.use(createApiMiddleware({
+        ldapApiUrl: LDAP_API_URL,
+        metricsToken,
+        configDir: path.resolve(__dirname, server.config.build.outDir, "config"),
+        // .env files as for the build, overridden by the process environment
+        runtimeConfig: runtimeConfigFromEnv({ ...loadEnv(server.config.mode, process.cwd(), "VITE_"), ...process.env }),
+      }));
+    }
+  };
+}
 
-          const response = await fetch(targetUrl, {
-            method: req.method || 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-            },
-            body: requestBody,
-          });
+// Files from public/ the service worker precaches alongside the built bundle
+const PRECACHED_PUBLIC_FILES = [
+  "/config/approved-ouis.json",
+  "/config/provision-defaults.json",
+  "/manifest.webmanifest",
+  "/icons/viavi-logo.png",
+  "/favicon.png",
+];
 
-          const data = await response.text();
-          console.log(`[${timestamp}] [PROXY] Response: ${response.status} (${data.length} bytes)`);
+// Plugin to emit /sw.js from src/pwa/service-worker.js with the build's file
+// list; the version changes whenever any built file does
+function serviceWorkerPlugin(): Plugin {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    // After Vite's HTML plugin, so index.html is part of the bundle
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = Object.values(bundle).filter((file) => !file.fileName.endsWith('.map'));
+      const urls = [...files.map((file) => `/${file.fileName}`), ...PRECACHED_PUBLIC_FILES];
 
-          // Forward response headers and body
-          res.writeHead(response.status, {
-            'Content-Type': response.headers.get('Content-Type') || 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          });
-          res.end(data);
-        } catch (error) {
-          const errMsg = error instanceof Error ? error.message : 'Unknown proxy error';
-          console.error(`[${timestamp}] [PROXY] Error: ${errMsg}`);
-          res.writeHead(502, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ 
-            error: 'Proxy error', 
-            message: errMsg,
-            target: targetUrl 
-          }));
-        }
-      });
+      const hash = createHash('sha256');
+      for (const file of files) {
+        hash.update(file.fileName);
+        hash.update(file.type === 'chunk' ? file.code : file.source);
+      }
 
-      // Frontend logging endpoint
-      server.middlewares.use('/api/log', (req: IncomingMessage, res: ServerResponse, next: () => void) => {
-        if (req.method === 'POST') {
-          let body = '';
-          req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
-          req.on('end', () => {
-            try {
-              const log = JSON.parse(body) as { level?: string; message?: string; data?: unknown };
-              const timestamp = new Date().toISOString();
-              const level = (log.level || 'info').toUpperCase();
-              const data = log.data ? JSON.stringify(log.data) : '';
-              console.log(`[${timestamp}] [${level}] ${log.message || ''} ${data}`);
-            } catch {
-              console.log(`[LOG] ${body}`);
-            }
-            res.writeHead(200, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ success: true }));
-          });
-        } else {
-          next();
-        }
+      const template = readFileSync(path.resolve(__dirname, "src/pwa/service-worker.js"), "utf8");
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template
+          .replace('__SW_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+          .replace('__PRECACHE_URLS__', JSON.stringify(urls)),
       });
-    }
+    },
   };
 }
 
 // https://vitejs.dev/config/
-export default defineConfig(async ({ mode }) => ({
+export default defineConfig(async ({ mode, isSsrBuild }) => ({
+  // Shown on the diagnostics page; GIT_COMMIT is passed in by the pipeline
+  define: {
+    __BUILD_INFO__: JSON.stringify({
+      commit: process.env.GIT_COMMIT || undefined,
+      builtAt: new Date().toISOString(),
+      mode,
+    }),
+  },
   server: {
     host: "::",
     port: 8080,
@@ -97,9 +92,19 @@ export default defineConfig(async ({ mode }) => ({
       "viavi-meter-provisioning.apps.prod-ocp4.corp.cableone.net",
     ],
   },
+  // `npm run build:server` bundles server/main.ts for Node; the SPA's public/
+  // files only belong in the client build
+  build: isSsrBuild
+    ? { target: "node20", copyPublicDir: false }
+    : {},
+  // Bundle server dependencies so the production image needs no node_modules
+  ssr: {
+    noExternal: ["zod"],
+  },
   plugins: [
     react(),
     serverLoggerPlugin(),
+    !isSsrBuild && serviceWorkerPlugin(),
     mode === 'development' &&
       (await import("lovable-tagger")).componentTagger(),
   ].filter(Boolean),